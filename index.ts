@@ -1,9 +1,53 @@
 import Fastify from 'fastify';
 import cors from '@fastify/cors';
+import swagger from '@fastify/swagger';
 import { connectDatabase, disconnectDatabase } from './src/config/database';
+import { getAuthConfig } from './src/config/auth';
+import { getStorageConfig } from './src/config/storage';
+import { getLimitsConfig } from './src/config/limits';
+import { createRateLimitHook } from './src/middleware/rateLimit';
+import { rateLimitStore } from './src/services/rateLimit';
+import { authRoutes } from './src/routes/auth';
 import { taskRoutes } from './src/routes/tasks';
+import { bulkRoutes } from './src/routes/bulk';
+import { importExportRoutes } from './src/routes/importExport';
+import { statsRoutes } from './src/routes/stats';
+import { collaboratorRoutes } from './src/routes/collaborators';
+import { commentRoutes } from './src/routes/comments';
+import { attachmentRoutes } from './src/routes/attachments';
+import { transitionRoutes } from './src/routes/transitions';
+import { historyRoutes } from './src/routes/history';
+import { trashRoutes } from './src/routes/trash';
+import { streamRoutes } from './src/routes/stream';
+import { subtaskRoutes } from './src/routes/subtasks';
+import { dependencyRoutes } from './src/routes/dependencies';
+import { recurrenceRoutes } from './src/routes/recurrence';
+import { startTrashPurgeJob } from './src/jobs/purgeTrash';
+import { startReminderJob } from './src/jobs/reminders';
+import { startRecurrenceJob } from './src/jobs/recurrence';
+import { startWebhookDispatcher } from './src/jobs/webhookDelivery';
+import { startTaskStreamRelay } from './src/services/taskStream';
+import { projectRoutes } from './src/routes/projects';
+import { labelRoutes } from './src/routes/labels';
+import { webhookRoutes } from './src/routes/webhooks';
+import { viewRoutes } from './src/routes/views';
+import { docsRoutes, openApiOptions } from './src/routes/docs';
 
-const { PORT = '3000', HOST = '0.0.0.0', LOG_LEVEL = 'info' } = process.env;
+const {
+  PORT = '3000',
+  HOST = '0.0.0.0',
+  LOG_LEVEL = 'info',
+  TRASH_RETENTION_DAYS = '30',
+  TRASH_PURGE_INTERVAL_MINUTES = '60',
+  REMINDER_LEAD_MINUTES = '60',
+  REMINDER_INTERVAL_MINUTES = '1',
+  RECURRENCE_LEAD_HOURS = '24',
+  RECURRENCE_INTERVAL_MINUTES = '15',
+  WEBHOOK_MAX_ATTEMPTS = '6',
+  WEBHOOK_RETRY_BASE_SECONDS = '30',
+  WEBHOOK_TIMEOUT_SECONDS = '10',
+  WEBHOOK_INTERVAL_SECONDS = '15',
+} = process.env;
 const port = parseInt(PORT, 10);
 const host = HOST;
 
@@ -18,8 +62,46 @@ fastify.register(cors, {
   origin: true,
 });
 
+// Rate limit every request, per client IP and per user
+const limits = getLimitsConfig();
+fastify.addHook('onRequest', createRateLimitHook(limits, rateLimitStore(limits.store)));
+
+// Build the OpenAPI document from the route schemas registered below
+fastify.register(swagger, openApiOptions);
+
+// Register auth routes
+fastify.register(authRoutes, { prefix: '/api/v1' });
+
 // Register task routes
 fastify.register(taskRoutes, { prefix: '/api/v1' });
+fastify.register(bulkRoutes, { prefix: '/api/v1' });
+fastify.register(importExportRoutes, { prefix: '/api/v1' });
+fastify.register(statsRoutes, { prefix: '/api/v1' });
+fastify.register(collaboratorRoutes, { prefix: '/api/v1' });
+fastify.register(commentRoutes, { prefix: '/api/v1' });
+fastify.register(attachmentRoutes, { prefix: '/api/v1' });
+fastify.register(transitionRoutes, { prefix: '/api/v1' });
+fastify.register(historyRoutes, { prefix: '/api/v1' });
+fastify.register(trashRoutes, { prefix: '/api/v1' });
+fastify.register(streamRoutes, { prefix: '/api/v1' });
+fastify.register(subtaskRoutes, { prefix: '/api/v1' });
+fastify.register(dependencyRoutes, { prefix: '/api/v1' });
+fastify.register(recurrenceRoutes, { prefix: '/api/v1' });
+
+// Register project routes
+fastify.register(projectRoutes, { prefix: '/api/v1' });
+
+// Register label routes
+fastify.register(labelRoutes, { prefix: '/api/v1' });
+
+// Register saved view routes
+fastify.register(viewRoutes, { prefix: '/api/v1' });
+
+// Register webhook routes
+fastify.register(webhookRoutes, { prefix: '/api/v1' });
+
+// Register API docs
+fastify.register(docsRoutes, { prefix: '/api/v1' });
 
 // Global error handler
 fastify.setErrorHandler((error, request, reply) => {
@@ -49,10 +131,44 @@ fastify.setErrorHandler((error, request, reply) => {
 // Start server
 async function start() {
   try {
+    // Fail fast on missing or invalid configuration
+    getAuthConfig();
+    getStorageConfig();
+
     await connectDatabase();
 
+    await startTaskStreamRelay(fastify.log);
+
     await fastify.listen({ port: port, host: host });
 
+    startTrashPurgeJob(
+      parseInt(TRASH_RETENTION_DAYS, 10),
+      parseInt(TRASH_PURGE_INTERVAL_MINUTES, 10) * 60 * 1000,
+      fastify.log,
+    );
+
+    startReminderJob(
+      parseInt(REMINDER_LEAD_MINUTES, 10) * 60 * 1000,
+      parseInt(REMINDER_INTERVAL_MINUTES, 10) * 60 * 1000,
+      fastify.log,
+    );
+
+    startRecurrenceJob(
+      parseInt(RECURRENCE_LEAD_HOURS, 10) * 60 * 60 * 1000,
+      parseInt(RECURRENCE_INTERVAL_MINUTES, 10) * 60 * 1000,
+      fastify.log,
+    );
+
+    startWebhookDispatcher(
+      {
+        maxAttempts: parseInt(WEBHOOK_MAX_ATTEMPTS, 10),
+        baseDelayMs: parseInt(WEBHOOK_RETRY_BASE_SECONDS, 10) * 1000,
+        timeoutMs: parseInt(WEBHOOK_TIMEOUT_SECONDS, 10) * 1000,
+      },
+      parseInt(WEBHOOK_INTERVAL_SECONDS, 10) * 1000,
+      fastify.log,
+    );
+
     fastify.log.info(`Server listening on http://${host}:${port}`);
     fastify.log.info(`API available at: http://${host}:${port}/api/v1/tasks`);
   } catch (err) {
@@ -0,0 +1,26 @@
+export interface AuthConfig {
+  jwtSecret: string;
+  accessTokenTtlSeconds: number;
+  refreshTokenTtlSeconds: number;
+}
+
+const DEVELOPMENT_SECRET = 'development-only-secret-change-me';
+
+export function getAuthConfig(): AuthConfig {
+  const {
+    JWT_SECRET,
+    ACCESS_TOKEN_TTL = '900',
+    REFRESH_TOKEN_TTL = '2592000',
+    NODE_ENV,
+  } = process.env;
+
+  if (!JWT_SECRET && NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+
+  return {
+    jwtSecret: JWT_SECRET || DEVELOPMENT_SECRET,
+    accessTokenTtlSeconds: parseInt(ACCESS_TOKEN_TTL, 10),
+    refreshTokenTtlSeconds: parseInt(REFRESH_TOKEN_TTL, 10),
+  };
+}
@@ -1,5 +1,8 @@
 import mongoose from 'mongoose';
 
+// Queries issued inside `connection.transaction()` join its session without passing it around
+mongoose.set('transactionAsyncLocalStorage', true);
+
 export async function connectDatabase(): Promise<void> {
   const mongoUri = process.env['MONGODB_URI'] || 'mongodb://localhost:27017/taskmanager';
 
@@ -0,0 +1,12 @@
+export interface IdempotencyConfig {
+  // How long a key's stored response can be replayed
+  ttlMs: number;
+}
+
+export function getIdempotencyConfig(): IdempotencyConfig {
+  const { IDEMPOTENCY_TTL_HOURS = '24' } = process.env;
+
+  return {
+    ttlMs: parseInt(IDEMPOTENCY_TTL_HOURS, 10) * 60 * 60 * 1000,
+  };
+}
@@ -0,0 +1,38 @@
+export enum RateLimitStoreType {
+  MEMORY = 'memory',
+  MONGO = 'mongo',
+}
+
+export interface LimitsConfig {
+  // Requests allowed per window; 0 turns the limit off
+  userRequestsPerWindow: number;
+  ipRequestsPerWindow: number;
+  windowMs: number;
+  store: RateLimitStoreType;
+  // Tasks a user may own, trash included; 0 means no cap
+  maxTasksPerUser: number;
+}
+
+export function getLimitsConfig(): LimitsConfig {
+  const {
+    RATE_LIMIT_USER_MAX = '300',
+    RATE_LIMIT_IP_MAX = '600',
+    RATE_LIMIT_WINDOW_SECONDS = '60',
+    RATE_LIMIT_STORE = RateLimitStoreType.MEMORY,
+    MAX_TASKS_PER_USER = '10000',
+  } = process.env;
+
+  if (!Object.values(RateLimitStoreType).includes(RATE_LIMIT_STORE as RateLimitStoreType)) {
+    throw new Error(
+      `RATE_LIMIT_STORE must be one of: ${Object.values(RateLimitStoreType).join(', ')}`,
+    );
+  }
+
+  return {
+    userRequestsPerWindow: parseInt(RATE_LIMIT_USER_MAX, 10),
+    ipRequestsPerWindow: parseInt(RATE_LIMIT_IP_MAX, 10),
+    windowMs: parseInt(RATE_LIMIT_WINDOW_SECONDS, 10) * 1000,
+    store: RATE_LIMIT_STORE as RateLimitStoreType,
+    maxTasksPerUser: parseInt(MAX_TASKS_PER_USER, 10),
+  };
+}
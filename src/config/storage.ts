@@ -0,0 +1,51 @@
+export enum StorageDriver {
+  LOCAL = 'local',
+  GRIDFS = 'gridfs',
+}
+
+export interface StorageConfig {
+  driver: StorageDriver;
+  // Where the local driver keeps files
+  directory: string;
+  maxFileBytes: number;
+  // MIME types accepted for upload; `type/*` accepts a whole family
+  allowedTypes: string[];
+}
+
+const DEFAULT_ALLOWED_TYPES = [
+  'image/*',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'text/markdown',
+  'application/json',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+export function getStorageConfig(): StorageConfig {
+  const {
+    ATTACHMENT_STORAGE = StorageDriver.LOCAL,
+    ATTACHMENTS_DIR = './uploads',
+    ATTACHMENT_MAX_BYTES = String(10 * 1024 * 1024),
+    ATTACHMENT_ALLOWED_TYPES,
+  } = process.env;
+
+  if (!Object.values(StorageDriver).includes(ATTACHMENT_STORAGE as StorageDriver)) {
+    throw new Error(
+      `ATTACHMENT_STORAGE must be one of: ${Object.values(StorageDriver).join(', ')}`,
+    );
+  }
+
+  return {
+    driver: ATTACHMENT_STORAGE as StorageDriver,
+    directory: ATTACHMENTS_DIR,
+    maxFileBytes: parseInt(ATTACHMENT_MAX_BYTES, 10),
+    allowedTypes: ATTACHMENT_ALLOWED_TYPES
+      ? ATTACHMENT_ALLOWED_TYPES.split(',').map((type) => type.trim().toLowerCase())
+      : DEFAULT_ALLOWED_TYPES,
+  };
+}
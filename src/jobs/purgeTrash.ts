@@ -0,0 +1,53 @@
+import { type FastifyBaseLogger } from 'fastify';
+import { Task } from '../models/Task';
+import { Comment } from '../models/Comment';
+import { removeAttachments } from '../services/attachments';
+import { detachDeletedTasks } from '../services/taskGraph';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Permanently removes tasks that have been in the trash longer than the retention period
+export async function purgeTrash(retentionDays: number, now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+  const expired = await Task.find({ deletedAt: { $ne: null, $lt: cutoff } })
+    .select('parentId userId deletedBy')
+    .lean();
+
+  const ids = expired.map((task) => task._id);
+
+  const result = await Task.deleteMany({ _id: { $in: ids } });
+  await Comment.deleteMany({ taskId: { $in: ids } });
+  await removeAttachments({ taskId: { $in: ids } });
+
+  // Tasks that pointed at a purged task are updated on behalf of whoever trashed it
+  for (const task of expired) {
+    await detachDeletedTasks([task], task.deletedBy ?? task.userId);
+  }
+
+  return result.deletedCount;
+}
+
+// Runs the purge on an interval; returns a function that stops it
+export function startTrashPurgeJob(
+  retentionDays: number,
+  intervalMs: number,
+  log: FastifyBaseLogger,
+): () => void {
+  const run = async () => {
+    try {
+      const purged = await purgeTrash(retentionDays);
+
+      if (purged > 0) {
+        log.info(`Purged ${purged} task(s) from the trash`);
+      }
+    } catch (error) {
+      log.error({ error: (error as Error).message }, 'Trash purge failed');
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  void run();
+
+  return () => clearInterval(timer);
+}
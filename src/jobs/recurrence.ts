@@ -0,0 +1,94 @@
+import { type FastifyBaseLogger } from 'fastify';
+import { type Types } from 'mongoose';
+import { RecurrenceTrigger, TaskSeries } from '../models/TaskSeries';
+import { createNextOccurrence } from '../services/recurrence';
+import { QuotaExceededError } from '../utils/errors';
+
+const BATCH_SIZE = 100;
+
+/**
+ * Creates the next occurrence of every schedule-triggered series whose next date
+ * falls within `leadMs`. A series that has fallen further behind catches up by
+ * one occurrence per run. Series whose owner is at the task limit stay due, and
+ * the scan looks past them so they cannot hold back anyone else's.
+ */
+export async function createScheduledOccurrences(
+  leadMs: number,
+  now = new Date(),
+): Promise<number> {
+  const horizon = new Date(now.getTime() + leadMs);
+  const visited: Types.ObjectId[] = [];
+  const ownersAtQuota = new Set<string>();
+  let created = 0;
+
+  for (;;) {
+    const due = await TaskSeries.find({
+      _id: { $nin: visited },
+      userId: { $nin: [...ownersAtQuota] },
+      trigger: RecurrenceTrigger.SCHEDULE,
+      endedAt: null,
+      nextOccursAt: { $ne: null, $lte: horizon },
+    })
+      .sort({ nextOccursAt: 1 })
+      .limit(BATCH_SIZE)
+      .lean();
+
+    const knownAtQuota = ownersAtQuota.size;
+
+    for (const series of due) {
+      visited.push(series._id as Types.ObjectId);
+
+      if (ownersAtQuota.has(series.userId)) {
+        continue;
+      }
+
+      try {
+        const task = await createNextOccurrence(
+          series._id as Types.ObjectId,
+          series.lastIndex,
+          series.userId,
+          now,
+        );
+
+        if (task) {
+          created++;
+        }
+      } catch (error) {
+        if (!(error instanceof QuotaExceededError)) {
+          throw error;
+        }
+        ownersAtQuota.add(series.userId);
+      }
+    }
+
+    // A full batch is only followed by another when owners at quota took up some of it
+    if (due.length < BATCH_SIZE || ownersAtQuota.size === knownAtQuota) {
+      return created;
+    }
+  }
+}
+
+// Runs the recurrence scan on an interval; returns a function that stops it
+export function startRecurrenceJob(
+  leadMs: number,
+  intervalMs: number,
+  log: FastifyBaseLogger,
+): () => void {
+  const run = async () => {
+    try {
+      const created = await createScheduledOccurrences(leadMs);
+
+      if (created > 0) {
+        log.info(`Created ${created} recurring task occurrence(s)`);
+      }
+    } catch (error) {
+      log.error({ error: (error as Error).message }, 'Recurring task scheduling failed');
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  void run();
+
+  return () => clearInterval(timer);
+}
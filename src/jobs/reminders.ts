@@ -0,0 +1,71 @@
+import { type FastifyBaseLogger } from 'fastify';
+import { OPEN_STATUSES, Task } from '../models/Task';
+import { TaskEventType, publishTaskEvent } from '../services/events';
+
+const BATCH_SIZE = 100;
+
+/**
+ * Fires a reminder event for every open task due within `leadMs` that has not
+ * been reminded yet. Each task is claimed with a conditional update first, so
+ * several instances running the job never send the same reminder twice.
+ */
+export async function sendDueReminders(leadMs: number, now = new Date()): Promise<number> {
+  const horizon = new Date(now.getTime() + leadMs);
+  const tasks = await Task.find({
+    reminderSentAt: null,
+    dueAt: { $ne: null, $lte: horizon },
+    status: { $in: OPEN_STATUSES },
+    deletedAt: null,
+  })
+    .sort({ dueAt: 1 })
+    .limit(BATCH_SIZE)
+    .lean();
+
+  let sent = 0;
+
+  for (const task of tasks) {
+    const claimed = await Task.updateOne(
+      { _id: task._id, reminderSentAt: null, dueAt: task.dueAt },
+      { $set: { reminderSentAt: now } },
+    ).setOptions({ timestamps: false, skipVersion: true });
+
+    if (claimed.modifiedCount === 0) {
+      continue;
+    }
+
+    publishTaskEvent(TaskEventType.REMINDER, task, {
+      title: task.title,
+      status: task.status,
+      dueAt: task.dueAt,
+      overdue: (task.dueAt as Date).getTime() < now.getTime(),
+    });
+    sent++;
+  }
+
+  return sent;
+}
+
+// Runs the reminder scan on an interval; returns a function that stops it
+export function startReminderJob(
+  leadMs: number,
+  intervalMs: number,
+  log: FastifyBaseLogger,
+): () => void {
+  const run = async () => {
+    try {
+      const sent = await sendDueReminders(leadMs);
+
+      if (sent > 0) {
+        log.info(`Sent ${sent} due date reminder(s)`);
+      }
+    } catch (error) {
+      log.error({ error: (error as Error).message }, 'Due date reminders failed');
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  void run();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,62 @@
+import { type FastifyBaseLogger } from 'fastify';
+import { subscribeTaskEvents } from '../services/events';
+import {
+  deliverDueWebhooks,
+  enqueueWebhookDeliveries,
+  type WebhookRetryPolicy,
+} from '../services/webhooks';
+
+/**
+ * Queues a delivery for every task event published by this instance and sends
+ * them straight away; retries are picked up by the interval. Returns a function
+ * that stops the dispatcher.
+ */
+export function startWebhookDispatcher(
+  policy: WebhookRetryPolicy,
+  intervalMs: number,
+  log: FastifyBaseLogger,
+): () => void {
+  let running = false;
+  let rerun = false;
+
+  const run = async () => {
+    // Events arriving mid-run are picked up by one more run afterwards
+    if (running) {
+      rerun = true;
+      return;
+    }
+
+    running = true;
+
+    try {
+      do {
+        rerun = false;
+        await deliverDueWebhooks(policy);
+      } while (rerun);
+    } catch (error) {
+      log.error({ error: (error as Error).message }, 'Webhook delivery failed');
+    } finally {
+      running = false;
+    }
+  };
+
+  const unsubscribe = subscribeTaskEvents((event) => {
+    enqueueWebhookDeliveries(event)
+      .then((queued) => (queued > 0 ? run() : undefined))
+      .catch((error: Error) => {
+        log.error(
+          { error: error.message, eventId: event.id },
+          'Queueing webhook deliveries failed',
+        );
+      });
+  });
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  void run();
+
+  return () => {
+    clearInterval(timer);
+    unsubscribe();
+  };
+}
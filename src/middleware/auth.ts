@@ -1,5 +1,6 @@
 import { type FastifyRequest, type FastifyReply } from 'fastify';
 import { User } from '../models/User';
+import { verifyAccessToken } from '../utils/tokens';
 
 declare module 'fastify' {
   interface FastifyRequest {
@@ -8,24 +9,58 @@ declare module 'fastify' {
 }
 
 export async function authMiddleware(request: FastifyRequest, reply: FastifyReply): Promise<void> {
-  const userId = request.headers['x-user-id'] as string;
+  const [scheme, token] = (request.headers.authorization ?? '').split(' ');
 
-  if (!userId) {
+  if (scheme !== 'Bearer' || !token) {
     return reply.status(401).send({
       error: 'Unauthorized',
-      message: 'x-user-id header is required',
+      message: 'Bearer token is required',
     });
   }
 
-  // Ensure user exists in database (or create if doesn't exist for simplicity)
+  return authenticate(request, reply, token);
+}
+
+// Browsers' EventSource cannot set headers, so streaming routes also accept `?access_token=`
+export async function streamAuthMiddleware(
+  request: FastifyRequest,
+  reply: FastifyReply,
+): Promise<void> {
+  const token = (request.query as { access_token?: string } | undefined)?.access_token;
+
+  if (token && !request.headers.authorization) {
+    return authenticate(request, reply, token);
+  }
+
+  return authMiddleware(request, reply);
+}
+
+async function authenticate(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  token: string,
+): Promise<void> {
+  const payload = verifyAccessToken(token);
+
+  if (!payload) {
+    return reply.status(401).send({
+      error: 'Unauthorized',
+      message: 'Invalid or expired token',
+    });
+  }
+
+  // Access tokens are stateless, so make sure the account still exists
   try {
-    let user = await User.findOne({ userId });
+    const exists = await User.exists({ userId: payload.sub });
 
-    if (!user) {
-      user = await User.create({ userId });
+    if (!exists) {
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: 'User no longer exists',
+      });
     }
 
-    request.userId = userId;
+    request.userId = payload.sub;
   } catch (error) {
     return reply.status(500).send({
       error: 'Internal Server Error',
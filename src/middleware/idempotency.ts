@@ -0,0 +1,138 @@
+import { createHash } from 'node:crypto';
+import { type FastifyRequest, type FastifyReply } from 'fastify';
+import { getIdempotencyConfig } from '../config/idempotency';
+import { IdempotencyRecord, IdempotencyState } from '../models/IdempotencyRecord';
+import { ConflictError, ValidationError } from '../utils/errors';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    // Set while this request holds an Idempotency-Key whose response should be stored
+    idempotencyRecordId?: string;
+  }
+}
+
+const IDEMPOTENT_METHODS = new Set(['POST', 'PATCH', 'DELETE']);
+
+const MAX_KEY_LENGTH = 255;
+
+// A request that crashed before responding must not hold its key forever
+const PENDING_TIMEOUT_MS = 60 * 1000;
+
+// Headers stored with a response and sent again when it is replayed
+const REPLAYED_HEADERS = ['content-type', 'location', 'etag'];
+
+function fingerprint(request: FastifyRequest): string {
+  return createHash('sha256')
+    .update(`${request.method} ${request.url}\n${JSON.stringify(request.body ?? null)}`)
+    .digest('hex');
+}
+
+/**
+ * Makes POST, PATCH and DELETE requests carrying an `Idempotency-Key` header safe
+ * to retry: the first response is stored per user and key, and later requests
+ * with the key get it back instead of running again. Must run after authMiddleware.
+ */
+export async function idempotencyMiddleware(
+  request: FastifyRequest,
+  reply: FastifyReply,
+): Promise<void> {
+  const key = request.headers['idempotency-key'];
+
+  if (key === undefined || !IDEMPOTENT_METHODS.has(request.method)) {
+    return;
+  }
+
+  if (typeof key !== 'string' || key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    throw new ValidationError(`Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`);
+  }
+
+  const userId = request.userId;
+  const hash = fingerprint(request);
+
+  // Take over keys whose first request never finished
+  await IdempotencyRecord.deleteOne({
+    userId,
+    key,
+    state: IdempotencyState.PENDING,
+    createdAt: { $lt: new Date(Date.now() - PENDING_TIMEOUT_MS) },
+  });
+
+  try {
+    const record = await IdempotencyRecord.create({
+      userId,
+      key,
+      fingerprint: hash,
+      expiresAt: new Date(Date.now() + getIdempotencyConfig().ttlMs),
+    });
+
+    request.idempotencyRecordId = String(record._id);
+    return;
+  } catch (error) {
+    if ((error as { code?: number }).code !== 11000) {
+      throw error;
+    }
+  }
+
+  const existing = await IdempotencyRecord.findOne({ userId, key }).lean();
+
+  if (!existing) {
+    // Expired or released between the insert and the lookup
+    throw new ConflictError('Idempotency-Key was just released, retry the request');
+  }
+
+  if (existing.fingerprint !== hash) {
+    throw new ConflictError('Idempotency-Key was already used for a different request');
+  }
+
+  if (existing.state === IdempotencyState.PENDING || !existing.response) {
+    throw new ConflictError('A request with this Idempotency-Key is still being processed');
+  }
+
+  const { statusCode, headers, body } = existing.response;
+
+  return reply
+    .status(statusCode)
+    .headers({ ...headers, 'idempotent-replayed': 'true' })
+    .send(body);
+}
+
+// onSend hook storing the response of a request that claimed an Idempotency-Key
+export async function saveIdempotentResponse(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  payload: unknown,
+): Promise<unknown> {
+  const id = request.idempotencyRecordId;
+
+  if (!id) {
+    return payload;
+  }
+
+  request.idempotencyRecordId = undefined;
+
+  // Server errors are worth retrying, and streams cannot be stored; release the key
+  if (reply.statusCode >= 500 || (payload != null && typeof payload !== 'string')) {
+    await IdempotencyRecord.deleteOne({ _id: id });
+    return payload;
+  }
+
+  const headers: Record<string, string> = {};
+
+  for (const name of REPLAYED_HEADERS) {
+    const value = reply.getHeader(name);
+
+    if (value !== undefined) {
+      headers[name] = String(value);
+    }
+  }
+
+  await IdempotencyRecord.updateOne(
+    { _id: id },
+    {
+      state: IdempotencyState.COMPLETED,
+      response: { statusCode: reply.statusCode, headers, body: payload ?? '' },
+    },
+  );
+
+  return payload;
+}
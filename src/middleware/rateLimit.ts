@@ -0,0 +1,80 @@
+import { type FastifyRequest, type FastifyReply } from 'fastify';
+import { type LimitsConfig } from '../config/limits';
+import { type RateLimitStore } from '../services/rateLimit';
+import { TooManyRequestsError } from '../utils/errors';
+import { verifyAccessToken } from '../utils/tokens';
+
+type RateLimitOptions = Pick<
+  LimitsConfig,
+  'userRequestsPerWindow' | 'ipRequestsPerWindow' | 'windowMs'
+>;
+
+// The user a request claims to be; the token is only checked, the account is left to auth
+function requestUserId(request: FastifyRequest): string | null {
+  const [scheme, header] = (request.headers.authorization ?? '').split(' ');
+  const token =
+    scheme === 'Bearer' && header
+      ? header
+      : (request.query as { access_token?: string } | undefined)?.access_token;
+
+  return token ? (verifyAccessToken(token)?.sub ?? null) : null;
+}
+
+/**
+ * Returns an onRequest hook counting each request against its client IP and,
+ * for authenticated requests, its user. Responses carry the RateLimit-* headers
+ * of whichever limit is closest to running out; once one is exceeded the request
+ * fails with 429 and a Retry-After header.
+ */
+export function createRateLimitHook(options: RateLimitOptions, store: RateLimitStore) {
+  const { userRequestsPerWindow, ipRequestsPerWindow, windowMs } = options;
+
+  return async function rateLimitHook(request: FastifyRequest, reply: FastifyReply) {
+    const limits: { key: string; max: number }[] = [];
+
+    if (ipRequestsPerWindow > 0) {
+      limits.push({ key: `ip:${request.ip}`, max: ipRequestsPerWindow });
+    }
+
+    const userId = userRequestsPerWindow > 0 ? requestUserId(request) : null;
+
+    if (userId) {
+      limits.push({ key: `user:${userId}`, max: userRequestsPerWindow });
+    }
+
+    if (limits.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    let hits;
+
+    try {
+      hits = await Promise.all(
+        limits.map(async ({ key, max }) => ({
+          max,
+          ...(await store.increment(key, windowMs, now)),
+        })),
+      );
+    } catch (error) {
+      // An unreachable store should not take the whole API down with it
+      request.log.warn({ error: (error as Error).message }, 'Rate limit store unavailable');
+      return;
+    }
+
+    const tightest = hits.reduce((a, b) => (b.max - b.count < a.max - a.count ? b : a));
+    const resetSeconds = Math.max(
+      1,
+      Math.ceil((tightest.resetAt.getTime() - now.getTime()) / 1000),
+    );
+
+    reply.header('ratelimit-limit', tightest.max);
+    reply.header('ratelimit-remaining', Math.max(0, tightest.max - tightest.count));
+    reply.header('ratelimit-reset', resetSeconds);
+
+    if (tightest.count > tightest.max) {
+      reply.header('retry-after', resetSeconds);
+      throw new TooManyRequestsError(`Rate limit exceeded, retry in ${resetSeconds} second(s)`);
+    }
+  };
+}
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { StorageDriver } from '../config/storage';
+
+export interface IAttachment extends Document {
+  taskId: Types.ObjectId;
+  uploaderId: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  // Which storage driver holds the file, so switching drivers keeps older files readable
+  storage: StorageDriver;
+  createdAt: Date;
+}
+
+const AttachmentSchema = new Schema<IAttachment>({
+  taskId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Task',
+    required: true,
+  },
+  uploaderId: {
+    type: String,
+    required: true,
+  },
+  filename: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [255, 'Filename cannot exceed 255 characters'],
+  },
+  contentType: {
+    type: String,
+    required: true,
+  },
+  size: {
+    type: Number,
+    required: true,
+  },
+  storage: {
+    type: String,
+    enum: Object.values(StorageDriver),
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// Index for listing a task's attachments
+AttachmentSchema.index({ taskId: 1, createdAt: 1 });
+
+export const Attachment = mongoose.model<IAttachment>('Attachment', AttachmentSchema);
@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export enum AuditAction {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  DELETED = 'deleted',
+  RESTORED = 'restored',
+}
+
+export interface IFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface IAuditEntry extends Document {
+  taskId: Types.ObjectId;
+  actorId: string;
+  action: AuditAction;
+  changes: IFieldChange[];
+  createdAt: Date;
+}
+
+const FieldChangeSchema = new Schema<IFieldChange>(
+  {
+    field: {
+      type: String,
+      required: true,
+    },
+    before: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    after: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+  },
+  { _id: false },
+);
+
+const AuditEntrySchema = new Schema<IAuditEntry>({
+  taskId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Task',
+    required: true,
+  },
+  actorId: {
+    type: String,
+    required: true,
+  },
+  action: {
+    type: String,
+    enum: Object.values(AuditAction),
+    required: true,
+  },
+  changes: {
+    type: [FieldChangeSchema],
+    default: [],
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// Index for paging through a task's history, newest first
+AuditEntrySchema.index({ taskId: 1, createdAt: -1 });
+
+export const AuditEntry = mongoose.model<IAuditEntry>('AuditEntry', AuditEntrySchema);
@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IComment extends Document {
+  taskId: Types.ObjectId;
+  authorId: string;
+  // Markdown; rendering is left to clients
+  body: string;
+  mentions: string[];
+  editedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CommentSchema = new Schema<IComment>(
+  {
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: true,
+    },
+    authorId: {
+      type: String,
+      required: true,
+    },
+    body: {
+      type: String,
+      required: [true, 'Body is required'],
+      trim: true,
+      maxlength: [10000, 'Body cannot exceed 10000 characters'],
+    },
+    mentions: {
+      type: [String],
+      default: [],
+    },
+    editedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Index for a task's thread, oldest first
+CommentSchema.index({ taskId: 1, createdAt: 1 });
+
+// Index for finding the comments a user was mentioned in
+CommentSchema.index({ mentions: 1, createdAt: -1 });
+
+export const Comment = mongoose.model<IComment>('Comment', CommentSchema);
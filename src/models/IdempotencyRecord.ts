@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum IdempotencyState {
+  // The first request with the key is still running
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+}
+
+export interface IStoredResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// The first response to a mutation sent with an Idempotency-Key, replayed on retries
+export interface IIdempotencyRecord extends Document {
+  userId: string;
+  key: string;
+  // Hash of the method, URL and body the key was first used with
+  fingerprint: string;
+  state: IdempotencyState;
+  response: IStoredResponse | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const StoredResponseSchema = new Schema<IStoredResponse>(
+  {
+    statusCode: {
+      type: Number,
+      required: true,
+    },
+    headers: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    body: {
+      type: String,
+      default: '',
+    },
+  },
+  { _id: false },
+);
+
+const IdempotencyRecordSchema = new Schema<IIdempotencyRecord>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    fingerprint: {
+      type: String,
+      required: true,
+    },
+    state: {
+      type: String,
+      enum: Object.values(IdempotencyState),
+      default: IdempotencyState.PENDING,
+    },
+    response: {
+      type: StoredResponseSchema,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+// Keys are scoped to the user who sent them
+IdempotencyRecordSchema.index({ userId: 1, key: 1 }, { unique: true });
+
+// Index for dropping records once their retention window is over
+IdempotencyRecordSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyRecord = mongoose.model<IIdempotencyRecord>(
+  'IdempotencyRecord',
+  IdempotencyRecordSchema,
+);
@@ -0,0 +1,37 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ILabel extends Document {
+  userId: string;
+  name: string;
+  color: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LabelSchema = new Schema<ILabel>(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [50, 'Name cannot exceed 50 characters'],
+    },
+    color: {
+      type: String,
+      match: [/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #ff8800'],
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Each user's catalog holds a label name once
+LabelSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+export const Label = mongoose.model<ILabel>('Label', LabelSchema);
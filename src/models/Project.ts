@@ -0,0 +1,92 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { type TaskStatus } from './Task';
+
+export enum ProjectRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MEMBER = 'member',
+  VIEWER = 'viewer',
+}
+
+// Roles allowed to create and edit tasks in a project
+export const PROJECT_WRITE_ROLES = [ProjectRole.OWNER, ProjectRole.ADMIN, ProjectRole.MEMBER];
+
+// Roles allowed to manage the project, its members and delete its tasks
+export const PROJECT_MANAGE_ROLES = [ProjectRole.OWNER, ProjectRole.ADMIN];
+
+export interface IProjectMember {
+  userId: string;
+  role: ProjectRole;
+  addedAt: Date;
+}
+
+// Allowed status transitions keyed by the current status
+export type WorkflowTransitions = Partial<Record<TaskStatus, TaskStatus[]>>;
+
+export interface IProject extends Document {
+  name: string;
+  description: string;
+  ownerId: string;
+  members: IProjectMember[];
+  workflow: WorkflowTransitions | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProjectMemberSchema = new Schema<IProjectMember>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: Object.values(ProjectRole),
+      required: true,
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false },
+);
+
+const ProjectSchema = new Schema<IProject>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: '',
+      maxlength: [2000, 'Description cannot exceed 2000 characters'],
+    },
+    ownerId: {
+      type: String,
+      required: [true, 'Owner ID is required'],
+      index: true,
+    },
+    members: {
+      type: [ProjectMemberSchema],
+      default: [],
+    },
+    // Overrides the default workflow for the listed statuses
+    workflow: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Index for membership lookups
+ProjectSchema.index({ 'members.userId': 1 });
+
+export const Project = mongoose.model<IProject>('Project', ProjectSchema);
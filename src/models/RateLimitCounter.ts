@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One request counter per limited key and window, shared by every API instance
+export interface IRateLimitCounter extends Omit<Document, '_id'> {
+  _id: string;
+  count: number;
+  expiresAt: Date;
+}
+
+const RateLimitCounterSchema = new Schema<IRateLimitCounter>(
+  {
+    // `<key>:<window start>`
+    _id: {
+      type: String,
+      required: true,
+    },
+    count: {
+      type: Number,
+      default: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { versionKey: false },
+);
+
+// Counters are dropped once their window is over
+RateLimitCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimitCounter = mongoose.model<IRateLimitCounter>(
+  'RateLimitCounter',
+  RateLimitCounterSchema,
+);
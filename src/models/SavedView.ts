@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { type TaskListFilters } from '../services/taskQuery';
+
+// A named set of task list filters and sort a user can run again
+export interface ISavedView extends Document {
+  userId: string;
+  name: string;
+  description: string;
+  filters: TaskListFilters;
+  // Users who may see and run the view, but not change it
+  sharedWith: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SavedViewSchema = new Schema<ISavedView>(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+      default: '',
+    },
+    // Same shape as the GET /tasks query parameters, validated by the routes
+    filters: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    sharedWith: {
+      type: [String],
+      default: [],
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+    // Keep empty filter objects instead of dropping them
+    minimize: false,
+  },
+);
+
+// Each user's view names are unique
+SavedViewSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+export const SavedView = mongoose.model<ISavedView>('SavedView', SavedViewSchema);
@@ -1,4 +1,4 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Types } from 'mongoose';
 
 export enum TaskStatus {
   TODO = 'To do',
@@ -7,15 +7,166 @@ export enum TaskStatus {
   ARCHIVED = 'Archived',
 }
 
+// Statuses of tasks that still need work
+export const OPEN_STATUSES = [TaskStatus.TODO, TaskStatus.IN_PROGRESS];
+
+export enum TaskPriority {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  URGENT = 'urgent',
+}
+
+// Numeric order of priorities, stored alongside the name so the list can sort by it
+export const PRIORITY_RANK: Record<TaskPriority, number> = {
+  [TaskPriority.LOW]: 1,
+  [TaskPriority.MEDIUM]: 2,
+  [TaskPriority.HIGH]: 3,
+  [TaskPriority.URGENT]: 4,
+};
+
+export enum CollaboratorRole {
+  VIEWER = 'viewer',
+  EDITOR = 'editor',
+}
+
+export interface ICollaborator {
+  userId: string;
+  role: CollaboratorRole;
+  addedAt: Date;
+}
+
+export interface IStatusChange {
+  from: TaskStatus | null;
+  to: TaskStatus;
+  changedBy: string;
+  changedAt: Date;
+  comment?: string;
+}
+
+// Place of a task in a recurring series; see TaskSeries
+export interface ITaskOccurrence {
+  seriesId: Types.ObjectId;
+  // 0 for the task the series was started from
+  index: number;
+  // The date the rule produced for this occurrence, even if its dueAt was moved since
+  occursAt: Date;
+}
+
+// Rollup of a task's direct subtasks; "done" counts subtasks that are no longer open
+export interface ISubtaskProgress {
+  total: number;
+  done: number;
+}
+
 export interface ITask extends Document {
   title: string;
   description: string;
   status: TaskStatus;
+  priority: TaskPriority;
+  priorityRank: number;
+  labels: string[];
   userId: string;
+  assigneeId: string | null;
+  projectId: Types.ObjectId | null;
+  parentId: Types.ObjectId | null;
+  blockedBy: Types.ObjectId[];
+  progress: ISubtaskProgress;
+  commentCount: number;
+  recurrence: ITaskOccurrence | null;
+  collaborators: ICollaborator[];
+  statusHistory: IStatusChange[];
+  startAt: Date | null;
+  dueAt: Date | null;
+  reminderSentAt: Date | null;
+  deletedAt: Date | null;
+  deletedBy: string | null;
+  version: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const CollaboratorSchema = new Schema<ICollaborator>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: Object.values(CollaboratorRole),
+      required: true,
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false },
+);
+
+const StatusChangeSchema = new Schema<IStatusChange>(
+  {
+    from: {
+      type: String,
+      enum: [...Object.values(TaskStatus), null],
+      default: null,
+    },
+    to: {
+      type: String,
+      enum: Object.values(TaskStatus),
+      required: true,
+    },
+    changedBy: {
+      type: String,
+      required: true,
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    comment: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Comment cannot exceed 500 characters'],
+    },
+  },
+  { _id: false },
+);
+
+const SubtaskProgressSchema = new Schema<ISubtaskProgress>(
+  {
+    total: {
+      type: Number,
+      default: 0,
+    },
+    done: {
+      type: Number,
+      default: 0,
+    },
+  },
+  { _id: false },
+);
+
+const TaskOccurrenceSchema = new Schema<ITaskOccurrence>(
+  {
+    seriesId: {
+      type: Schema.Types.ObjectId,
+      ref: 'TaskSeries',
+      required: true,
+    },
+    index: {
+      type: Number,
+      required: true,
+    },
+    occursAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false },
+);
+
 const TaskSchema = new Schema<ITask>(
   {
     title: {
@@ -36,18 +187,163 @@ const TaskSchema = new Schema<ITask>(
       default: TaskStatus.TODO,
       required: true,
     },
+    priority: {
+      type: String,
+      enum: Object.values(TaskPriority),
+      default: TaskPriority.MEDIUM,
+      required: true,
+    },
+    // Kept in sync with `priority` by the hooks below
+    priorityRank: {
+      type: Number,
+      default: PRIORITY_RANK[TaskPriority.MEDIUM],
+    },
+    labels: {
+      type: [String],
+      default: [],
+    },
     userId: {
       type: String,
       required: [true, 'User ID is required'],
       index: true,
     },
+    assigneeId: {
+      type: String,
+      default: null,
+      index: true,
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      default: null,
+      index: true,
+    },
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      default: null,
+      index: true,
+    },
+    // Tasks that have to be finished before this one can be done
+    blockedBy: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Task' }],
+      default: [],
+      index: true,
+    },
+    progress: {
+      type: SubtaskProgressSchema,
+      default: () => ({}),
+    },
+    // Kept in step with the task's comments so lists can show it without a lookup
+    commentCount: {
+      type: Number,
+      default: 0,
+    },
+    recurrence: {
+      type: TaskOccurrenceSchema,
+      default: null,
+    },
+    collaborators: {
+      type: [CollaboratorSchema],
+      default: [],
+    },
+    statusHistory: {
+      type: [StatusChangeSchema],
+      default: [],
+    },
+    startAt: {
+      type: Date,
+      default: null,
+    },
+    dueAt: {
+      type: Date,
+      default: null,
+    },
+    // Set once the due reminder has fired, cleared when the due date changes
+    reminderSentAt: {
+      type: Date,
+      default: null,
+    },
+    // Set when the task is moved to the trash
+    deletedAt: {
+      type: Date,
+      default: null,
+      index: true,
+    },
+    deletedBy: {
+      type: String,
+      default: null,
+    },
+    // Bumped on every write by the hooks below; If-Match checks compare against it
+    version: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     timestamps: true,
   },
 );
 
+TaskSchema.pre('validate', function (next) {
+  this.priorityRank = PRIORITY_RANK[this.priority];
+  next();
+});
+
+TaskSchema.pre('findOneAndUpdate', function (next) {
+  const update = this.getUpdate() as { $set?: { priority?: TaskPriority } } | null;
+  const priority = update?.$set?.priority;
+
+  if (priority) {
+    this.setUpdate({ ...update, $set: { ...update.$set, priorityRank: PRIORITY_RANK[priority] } });
+  }
+  next();
+});
+
+TaskSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    this.version += 1;
+  }
+  next();
+});
+
+// Internal bookkeeping writes (reminder claims, counters, rollups) pass `skipVersion: true`
+// so that they do not fail the If-Match checks of concurrent edits
+TaskSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate'], function (next) {
+  const update = this.getUpdate() as { $inc?: Record<string, number> } | null;
+
+  if (update && !Array.isArray(update) && !this.getOptions()['skipVersion']) {
+    this.setUpdate({ ...update, $inc: { ...update.$inc, version: 1 } });
+  }
+  next();
+});
+
 // Index for efficient querying by user and status
 TaskSchema.index({ userId: 1, status: 1 });
 
+// Indexes backing the sortable list fields
+TaskSchema.index({ userId: 1, createdAt: -1 });
+TaskSchema.index({ userId: 1, updatedAt: -1 });
+TaskSchema.index({ userId: 1, title: 1 });
+TaskSchema.index({ userId: 1, dueAt: 1 });
+TaskSchema.index({ userId: 1, priorityRank: -1 });
+
+// Index for label filters
+TaskSchema.index({ userId: 1, labels: 1 });
+
+// Index for the reminder scheduler's scan of upcoming due dates
+TaskSchema.index({ reminderSentAt: 1, dueAt: 1 });
+
+// Full-text index for search, title matches rank higher
+TaskSchema.index(
+  { title: 'text', description: 'text' },
+  { name: 'TaskTextIndex', weights: { title: 3, description: 1 } },
+);
+
+// Index for finding a series' occurrences
+TaskSchema.index({ 'recurrence.seriesId': 1, 'recurrence.index': 1 });
+
+// Index for "shared with me" lookups
+TaskSchema.index({ 'collaborators.userId': 1 });
+
 export const Task = mongoose.model<ITask>('Task', TaskSchema);
@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { TaskEventType } from '../services/events';
+
+// A task event written out so every API instance can pick it up through a change stream
+export interface ITaskEventRecord extends Document {
+  eventId: string;
+  type: TaskEventType;
+  taskId: string;
+  userId: string;
+  projectId: string | null;
+  audience: string[];
+  actorId: string | null;
+  occurredAt: Date;
+  data: Record<string, unknown>;
+}
+
+const TaskEventRecordSchema = new Schema<ITaskEventRecord>({
+  eventId: {
+    type: String,
+    required: true,
+  },
+  type: {
+    type: String,
+    enum: Object.values(TaskEventType),
+    required: true,
+  },
+  taskId: {
+    type: String,
+    required: true,
+  },
+  userId: {
+    type: String,
+    required: true,
+  },
+  projectId: {
+    type: String,
+    default: null,
+  },
+  audience: {
+    type: [String],
+    default: [],
+  },
+  actorId: {
+    type: String,
+    default: null,
+  },
+  occurredAt: {
+    type: Date,
+    required: true,
+  },
+  data: {
+    type: Schema.Types.Mixed,
+    default: {},
+  },
+});
+
+// Records are only needed while they are relayed; expire them after an hour
+TaskEventRecordSchema.index({ occurredAt: 1 }, { expireAfterSeconds: 60 * 60 });
+
+export const TaskEventRecord = mongoose.model<ITaskEventRecord>(
+  'TaskEventRecord',
+  TaskEventRecordSchema,
+);
@@ -0,0 +1,124 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { TaskPriority } from './Task';
+
+export enum RecurrenceTrigger {
+  // The next occurrence is created when the current one is marked done
+  COMPLETION = 'completion',
+  // The next occurrence is created ahead of its date, whatever happened to the current one
+  SCHEDULE = 'schedule',
+}
+
+// Fields copied into every new occurrence; "all future" edits change these
+export interface ISeriesTemplate {
+  title: string;
+  description: string;
+  priority: TaskPriority;
+  labels: string[];
+  assigneeId: string | null;
+  projectId: Types.ObjectId | null;
+}
+
+export interface ITaskSeries extends Document {
+  userId: string;
+  // Canonical RRULE text, e.g. FREQ=WEEKLY;BYDAY=MO
+  rule: string;
+  trigger: RecurrenceTrigger;
+  template: ISeriesTemplate;
+  // Date of occurrence 0; the rule is evaluated from here
+  startsAt: Date;
+  // Time from an occurrence's startAt to its dueAt, when the first one had both
+  leadTimeMs: number | null;
+  lastIndex: number;
+  lastOccursAt: Date;
+  // Date of the next occurrence, or null once the rule has run out
+  nextOccursAt: Date | null;
+  endedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SeriesTemplateSchema = new Schema<ISeriesTemplate>(
+  {
+    title: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    priority: {
+      type: String,
+      enum: Object.values(TaskPriority),
+      default: TaskPriority.MEDIUM,
+    },
+    labels: {
+      type: [String],
+      default: [],
+    },
+    assigneeId: {
+      type: String,
+      default: null,
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      default: null,
+    },
+  },
+  { _id: false },
+);
+
+const TaskSeriesSchema = new Schema<ITaskSeries>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    rule: {
+      type: String,
+      required: true,
+    },
+    trigger: {
+      type: String,
+      enum: Object.values(RecurrenceTrigger),
+      default: RecurrenceTrigger.COMPLETION,
+    },
+    template: {
+      type: SeriesTemplateSchema,
+      required: true,
+    },
+    startsAt: {
+      type: Date,
+      required: true,
+    },
+    leadTimeMs: {
+      type: Number,
+      default: null,
+    },
+    lastIndex: {
+      type: Number,
+      default: 0,
+    },
+    lastOccursAt: {
+      type: Date,
+      required: true,
+    },
+    nextOccursAt: {
+      type: Date,
+      default: null,
+    },
+    endedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Index for the scheduler's scan of series with an occurrence coming up
+TaskSeriesSchema.index({ trigger: 1, endedAt: 1, nextOccursAt: 1 });
+
+export const TaskSeries = mongoose.model<ITaskSeries>('TaskSeries', TaskSeriesSchema);
@@ -2,6 +2,7 @@ import mongoose, { Schema, Document } from 'mongoose';
 
 export interface IUser extends Document {
   userId: string;
+  passwordHash: string;
   createdAt: Date;
 }
 
@@ -12,6 +13,11 @@ const UserSchema = new Schema<IUser>({
     unique: true,
     trim: true,
   },
+  passwordHash: {
+    type: String,
+    required: true,
+    select: false,
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { TaskEventType } from '../services/events';
+
+export interface IWebhook extends Document {
+  userId: string;
+  url: string;
+  secret: string;
+  events: TaskEventType[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookSchema = new Schema<IWebhook>(
+  {
+    userId: {
+      type: String,
+      required: [true, 'User ID is required'],
+    },
+    url: {
+      type: String,
+      required: [true, 'URL is required'],
+      trim: true,
+      maxlength: [2000, 'URL cannot exceed 2000 characters'],
+    },
+    // Only returned when the subscription is created
+    secret: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    events: {
+      type: [{ type: String, enum: Object.values(TaskEventType) }],
+      validate: {
+        validator: (events: string[]) => events.length > 0,
+        message: 'At least one event type is required',
+      },
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Index for finding the subscriptions an event should be delivered to
+WebhookSchema.index({ userId: 1, active: 1, events: 1 });
+
+export const Webhook = mongoose.model<IWebhook>('Webhook', WebhookSchema);
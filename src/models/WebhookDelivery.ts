@@ -0,0 +1,97 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { TaskEventType } from '../services/events';
+
+export enum DeliveryStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+export interface IWebhookDelivery extends Document {
+  webhookId: Types.ObjectId;
+  userId: string;
+  eventId: string;
+  eventType: TaskEventType;
+  payload: Record<string, unknown>;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  responseStatus: number | null;
+  error: string | null;
+  // Set while a dispatcher is sending the delivery, so no other instance picks it up
+  lockedUntil: Date | null;
+  createdAt: Date;
+}
+
+const WebhookDeliverySchema = new Schema<IWebhookDelivery>({
+  webhookId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Webhook',
+    required: true,
+  },
+  userId: {
+    type: String,
+    required: true,
+  },
+  eventId: {
+    type: String,
+    required: true,
+  },
+  eventType: {
+    type: String,
+    enum: Object.values(TaskEventType),
+    required: true,
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: Object.values(DeliveryStatus),
+    default: DeliveryStatus.PENDING,
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: Date.now,
+  },
+  lastAttemptAt: {
+    type: Date,
+    default: null,
+  },
+  responseStatus: {
+    type: Number,
+    default: null,
+  },
+  error: {
+    type: String,
+    default: null,
+  },
+  lockedUntil: {
+    type: Date,
+    default: null,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// Index for the dispatcher's scan of deliveries that are due
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+// Index for a subscription's delivery log, newest first
+WebhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+
+// Each event is delivered to a subscription once
+WebhookDeliverySchema.index({ webhookId: 1, eventId: 1 }, { unique: true });
+
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>(
+  'WebhookDelivery',
+  WebhookDeliverySchema,
+);
@@ -0,0 +1,185 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import multipart from '@fastify/multipart';
+import { type Types } from 'mongoose';
+import { Task } from '../models/Task';
+import { Attachment } from '../models/Attachment';
+import { authMiddleware } from '../middleware/auth';
+import { getStorageConfig } from '../config/storage';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { TaskAccessLevel, resolveAccessError, taskAccessFilter } from '../services/taskAccess';
+import { openAttachment, removeAttachments, storeAttachment } from '../services/attachments';
+import {
+  dataResponse,
+  dateTimeSchema,
+  errorResponses,
+  idParams,
+  listResponse,
+  noContentResponse,
+} from '../schemas/common';
+
+interface TaskParams {
+  id: string;
+}
+
+interface AttachmentParams extends TaskParams {
+  attachmentId: string;
+}
+
+const attachmentSchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    _id: { type: 'string' },
+    taskId: { type: 'string' },
+    uploaderId: { type: 'string' },
+    filename: { type: 'string' },
+    contentType: { type: 'string' },
+    size: { type: 'integer', description: 'Size in bytes' },
+    createdAt: dateTimeSchema,
+  },
+};
+
+// Attachments follow the task's permissions: readers download, writers upload and delete
+async function findTask(id: string, userId: string, level: TaskAccessLevel) {
+  const task = await Task.findOne({ _id: id, ...(await taskAccessFilter(userId, level)) })
+    .select('_id')
+    .lean();
+
+  if (!task) {
+    throw level === TaskAccessLevel.READ
+      ? new NotFoundError('Task not found')
+      : await resolveAccessError(id, userId);
+  }
+
+  return task._id as Types.ObjectId;
+}
+
+// Quotes a filename for Content-Disposition, with a UTF-8 version for non-ASCII names
+function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+export async function attachmentRoutes(fastify: FastifyInstance) {
+  await fastify.register(multipart, {
+    limits: { fileSize: getStorageConfig().maxFileBytes, files: 1 },
+  });
+
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // GET /tasks/:id/attachments - List a task's attachments
+  fastify.get<{ Params: TaskParams }>(
+    '/tasks/:id/attachments',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          200: listResponse("The task's attachments", attachmentSchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: TaskParams }>, reply: FastifyReply) => {
+      const taskId = await findTask(request.params.id, request.userId, TaskAccessLevel.READ);
+
+      const attachments = await Attachment.find({ taskId }).sort({ createdAt: 1 }).lean();
+
+      return reply.send({ data: attachments });
+    },
+  );
+
+  // POST /tasks/:id/attachments - Upload a file as multipart/form-data
+  fastify.post<{ Params: TaskParams }>(
+    '/tasks/:id/attachments',
+    {
+      schema: {
+        description: 'Send the file as the only part of a multipart/form-data body.',
+        consumes: ['multipart/form-data'],
+        params: idParams('id'),
+        response: {
+          201: dataResponse('The stored attachment', attachmentSchema),
+          ...errorResponses(400, 401, 403, 404, 413, 415),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: TaskParams }>, reply: FastifyReply) => {
+      const userId = request.userId;
+      const taskId = await findTask(request.params.id, userId, TaskAccessLevel.WRITE);
+
+      const file = await request.file();
+
+      if (!file) {
+        throw new ValidationError('A file is required');
+      }
+
+      const attachment = await storeAttachment(taskId, userId, file);
+
+      return reply.status(201).send({ data: attachment });
+    },
+  );
+
+  // GET /tasks/:id/attachments/:attachmentId - Download an attachment
+  fastify.get<{ Params: AttachmentParams }>(
+    '/tasks/:id/attachments/:attachmentId',
+    {
+      schema: {
+        params: idParams('id', 'attachmentId'),
+        response: {
+          200: {
+            description: 'The file, with the content type it was uploaded with',
+            content: {
+              'application/octet-stream': { schema: { type: 'string', format: 'binary' } },
+            },
+          },
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: AttachmentParams }>, reply: FastifyReply) => {
+      const taskId = await findTask(request.params.id, request.userId, TaskAccessLevel.READ);
+
+      const attachment = await Attachment.findOne({ _id: request.params.attachmentId, taskId });
+
+      if (!attachment) {
+        throw new NotFoundError('Attachment not found');
+      }
+
+      const content = await openAttachment(attachment);
+
+      // Uploaded types are whatever the client claimed, so browsers must not render them inline
+      return reply
+        .header('content-type', attachment.contentType)
+        .header('content-length', attachment.size)
+        .header('content-disposition', contentDisposition(attachment.filename))
+        .header('x-content-type-options', 'nosniff')
+        .send(content);
+    },
+  );
+
+  // DELETE /tasks/:id/attachments/:attachmentId - Delete an attachment
+  fastify.delete<{ Params: AttachmentParams }>(
+    '/tasks/:id/attachments/:attachmentId',
+    {
+      schema: {
+        params: idParams('id', 'attachmentId'),
+        response: {
+          204: noContentResponse,
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: AttachmentParams }>, reply: FastifyReply) => {
+      const taskId = await findTask(request.params.id, request.userId, TaskAccessLevel.WRITE);
+
+      const removed = await removeAttachments({ _id: request.params.attachmentId, taskId });
+
+      if (removed === 0) {
+        throw new NotFoundError('Attachment not found');
+      }
+
+      return reply.status(204).send();
+    },
+  );
+}
@@ -0,0 +1,165 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { User } from '../models/User';
+import { RefreshToken } from '../models/RefreshToken';
+import { getAuthConfig } from '../config/auth';
+import { hashPassword, verifyPassword } from '../utils/password';
+import { generateRefreshToken, hashToken, signAccessToken } from '../utils/tokens';
+import { ConflictError, UnauthorizedError } from '../utils/errors';
+import { dataResponse, errorResponses, noContentResponse } from '../schemas/common';
+
+interface CredentialsBody {
+  userId: string;
+  password: string;
+}
+
+interface RefreshBody {
+  refreshToken: string;
+}
+
+const credentialsSchema = {
+  type: 'object',
+  required: ['userId', 'password'],
+  properties: {
+    userId: { type: 'string', pattern: '^[A-Za-z0-9_.-]{3,64}$' },
+    password: { type: 'string', minLength: 8, maxLength: 128 },
+  },
+};
+
+const refreshSchema = {
+  type: 'object',
+  required: ['refreshToken'],
+  properties: {
+    refreshToken: { type: 'string', minLength: 1 },
+  },
+};
+
+const tokensSchema = {
+  type: 'object',
+  properties: {
+    userId: { type: 'string' },
+    tokenType: { type: 'string', enum: ['Bearer'] },
+    accessToken: { type: 'string' },
+    expiresIn: { type: 'integer', description: 'Access token lifetime in seconds' },
+    refreshToken: { type: 'string' },
+  },
+};
+
+async function issueTokens(userId: string) {
+  const { accessTokenTtlSeconds, refreshTokenTtlSeconds } = getAuthConfig();
+  const refreshToken = generateRefreshToken();
+
+  await RefreshToken.create({
+    userId,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: new Date(Date.now() + refreshTokenTtlSeconds * 1000),
+  });
+
+  return {
+    userId,
+    tokenType: 'Bearer',
+    accessToken: signAccessToken(userId),
+    expiresIn: accessTokenTtlSeconds,
+    refreshToken,
+  };
+}
+
+export async function authRoutes(fastify: FastifyInstance) {
+  // POST /auth/register - Create an account and sign in
+  fastify.post<{ Body: CredentialsBody }>(
+    '/auth/register',
+    {
+      schema: {
+        security: [],
+        body: credentialsSchema,
+        response: {
+          201: dataResponse('The new account is signed in', tokensSchema),
+          ...errorResponses(400, 409),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CredentialsBody }>, reply: FastifyReply) => {
+      const { userId, password } = request.body;
+
+      if (await User.exists({ userId })) {
+        throw new ConflictError('User already exists');
+      }
+
+      await User.create({ userId, passwordHash: await hashPassword(password) });
+
+      return reply.status(201).send({ data: await issueTokens(userId) });
+    },
+  );
+
+  // POST /auth/login - Exchange credentials for tokens
+  fastify.post<{ Body: CredentialsBody }>(
+    '/auth/login',
+    {
+      schema: {
+        security: [],
+        body: credentialsSchema,
+        response: {
+          200: dataResponse('A new token pair', tokensSchema),
+          ...errorResponses(400, 401),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CredentialsBody }>, reply: FastifyReply) => {
+      const { userId, password } = request.body;
+
+      const user = await User.findOne({ userId }).select('+passwordHash');
+
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        throw new UnauthorizedError('Invalid credentials');
+      }
+
+      return reply.send({ data: await issueTokens(userId) });
+    },
+  );
+
+  // POST /auth/refresh - Rotate a refresh token for a new token pair
+  fastify.post<{ Body: RefreshBody }>(
+    '/auth/refresh',
+    {
+      schema: {
+        security: [],
+        body: refreshSchema,
+        response: {
+          200: dataResponse('A new token pair', tokensSchema),
+          ...errorResponses(400, 401),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: RefreshBody }>, reply: FastifyReply) => {
+      const stored = await RefreshToken.findOneAndDelete({
+        tokenHash: hashToken(request.body.refreshToken),
+        expiresAt: { $gt: new Date() },
+      });
+
+      if (!stored) {
+        throw new UnauthorizedError('Invalid or expired refresh token');
+      }
+
+      return reply.send({ data: await issueTokens(stored.userId) });
+    },
+  );
+
+  // POST /auth/logout - Revoke a refresh token
+  fastify.post<{ Body: RefreshBody }>(
+    '/auth/logout',
+    {
+      schema: {
+        security: [],
+        body: refreshSchema,
+        response: {
+          204: noContentResponse,
+          ...errorResponses(400),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: RefreshBody }>, reply: FastifyReply) => {
+      await RefreshToken.deleteOne({ tokenHash: hashToken(request.body.refreshToken) });
+
+      return reply.status(204).send();
+    },
+  );
+}
@@ -0,0 +1,105 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { authMiddleware } from '../middleware/auth';
+import { idempotencyMiddleware, saveIdempotentResponse } from '../middleware/idempotency';
+import { taskListFilterProperties } from '../services/taskQuery';
+import {
+  BulkAction,
+  BulkItemStatus,
+  MAX_BULK_ITEMS,
+  runBulkOperation,
+  type BulkRequest,
+} from '../services/bulkTasks';
+import { dataResponse, errorResponses } from '../schemas/common';
+import { createTaskBodySchema, updateTaskBodySchema } from '../schemas/task';
+
+const errorDetailSchema = {
+  type: 'object',
+  properties: {
+    statusCode: { type: 'integer' },
+    message: { type: 'string' },
+  },
+};
+
+const bulkReportSchema = {
+  type: 'object',
+  properties: {
+    action: { type: 'string', enum: Object.values(BulkAction) },
+    atomic: { type: 'boolean' },
+    transactional: { type: 'boolean' },
+    committed: { type: 'boolean' },
+    summary: {
+      type: 'object',
+      properties: {
+        total: { type: 'integer' },
+        succeeded: { type: 'integer' },
+        failed: { type: 'integer' },
+      },
+    },
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'integer' },
+          id: { type: ['string', 'null'] },
+          status: { type: 'string', enum: Object.values(BulkItemStatus) },
+          error: errorDetailSchema,
+        },
+      },
+    },
+  },
+};
+
+export async function bulkRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // Replay retried mutations that carry an Idempotency-Key
+  fastify.addHook('preHandler', idempotencyMiddleware);
+  fastify.addHook('onSend', saveIdempotentResponse);
+
+  // POST /tasks/bulk - Create, update or delete many tasks and report the outcome per item
+  fastify.post<{ Body: BulkRequest }>(
+    '/tasks/bulk',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['action'],
+          properties: {
+            action: { type: 'string', enum: Object.values(BulkAction) },
+            items: {
+              type: 'array',
+              maxItems: MAX_BULK_ITEMS,
+              items: createTaskBodySchema,
+            },
+            ids: {
+              type: 'array',
+              maxItems: MAX_BULK_ITEMS,
+              uniqueItems: true,
+              items: { type: 'string', pattern: '^[a-f0-9]{24}$' },
+            },
+            filter: {
+              type: 'object',
+              properties: taskListFilterProperties,
+              additionalProperties: false,
+            },
+            changes: updateTaskBodySchema,
+            permanent: { type: 'boolean' },
+            atomic: { type: 'boolean' },
+          },
+          additionalProperties: false,
+        },
+        response: {
+          200: dataResponse('The outcome for each item', bulkReportSchema),
+          ...errorResponses(400, 401),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: BulkRequest }>, reply: FastifyReply) => {
+      const report = await runBulkOperation(request.userId, request.body);
+
+      return reply.send({ data: report });
+    },
+  );
+}
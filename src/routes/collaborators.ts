@@ -0,0 +1,209 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { type Types } from 'mongoose';
+import { Task, CollaboratorRole } from '../models/Task';
+import { User } from '../models/User';
+import { authMiddleware } from '../middleware/auth';
+import { idempotencyMiddleware, saveIdempotentResponse } from '../middleware/idempotency';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { TaskAccessLevel, resolveAccessError, taskAccessFilter } from '../services/taskAccess';
+import { diffFields, recordAudit } from '../services/audit';
+import { AuditAction } from '../models/AuditEntry';
+import {
+  dataResponse,
+  errorResponses,
+  idParams,
+  noContentResponse,
+  objectIdSchema,
+} from '../schemas/common';
+import { collaboratorSchema } from '../schemas/task';
+
+interface TaskParams {
+  id: string;
+}
+
+interface CollaboratorParams extends TaskParams {
+  userId: string;
+}
+
+interface GrantAccessBody {
+  role: CollaboratorRole;
+}
+
+const collaboratorParamsSchema = {
+  type: 'object',
+  required: ['id', 'userId'],
+  properties: {
+    id: objectIdSchema,
+    userId: { type: 'string' },
+  },
+};
+
+const sharingSchema = {
+  type: 'object',
+  properties: {
+    ownerId: { type: 'string' },
+    collaborators: { type: 'array', items: collaboratorSchema },
+  },
+};
+
+export async function collaboratorRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // Replay retried mutations that carry an Idempotency-Key
+  fastify.addHook('preHandler', idempotencyMiddleware);
+  fastify.addHook('onSend', saveIdempotentResponse);
+
+  // GET /tasks/:id/collaborators - List who a task is shared with
+  fastify.get<{ Params: TaskParams }>(
+    '/tasks/:id/collaborators',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          200: dataResponse('The owner and collaborators', sharingSchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: TaskParams }>, reply: FastifyReply) => {
+      const { id } = request.params;
+
+      const task = await Task.findOne({
+        _id: id,
+        ...(await taskAccessFilter(request.userId, TaskAccessLevel.READ)),
+      })
+        .select('userId collaborators')
+        .lean();
+
+      if (!task) {
+        throw new NotFoundError('Task not found');
+      }
+
+      return reply.send({ data: { ownerId: task.userId, collaborators: task.collaborators } });
+    },
+  );
+
+  // PUT /tasks/:id/collaborators/:userId - Share a task or change a collaborator's role (owner only)
+  fastify.put<{ Params: CollaboratorParams; Body: GrantAccessBody }>(
+    '/tasks/:id/collaborators/:userId',
+    {
+      schema: {
+        params: collaboratorParamsSchema,
+        body: {
+          type: 'object',
+          required: ['role'],
+          properties: {
+            role: { type: 'string', enum: Object.values(CollaboratorRole) },
+          },
+        },
+        response: {
+          200: dataResponse('The owner and collaborators', sharingSchema),
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: CollaboratorParams; Body: GrantAccessBody }>,
+      reply: FastifyReply,
+    ) => {
+      const { id, userId: collaboratorId } = request.params;
+      const { role } = request.body;
+      const userId = request.userId;
+
+      if (collaboratorId === userId) {
+        throw new ValidationError('You cannot share a task with yourself');
+      }
+
+      if (!(await User.exists({ userId: collaboratorId }))) {
+        throw new NotFoundError('User not found');
+      }
+
+      const ownerFilter = { _id: id, ...(await taskAccessFilter(userId, TaskAccessLevel.OWNER)) };
+
+      const existing = await Task.findOne(ownerFilter).select('collaborators').lean();
+
+      if (!existing) {
+        throw await resolveAccessError(id, userId);
+      }
+
+      const previousRole =
+        existing.collaborators.find((collaborator) => collaborator.userId === collaboratorId)
+          ?.role ?? null;
+
+      // Update the role in place when already shared, otherwise add the collaborator
+      let task = await Task.findOneAndUpdate(
+        { ...ownerFilter, 'collaborators.userId': collaboratorId },
+        { $set: { 'collaborators.$.role': role } },
+        { new: true },
+      );
+
+      if (!task) {
+        task = await Task.findOneAndUpdate(
+          { ...ownerFilter, 'collaborators.userId': { $ne: collaboratorId } },
+          { $push: { collaborators: { userId: collaboratorId, role } } },
+          { new: true, runValidators: true },
+        );
+      }
+
+      if (!task) {
+        throw await resolveAccessError(id, userId);
+      }
+
+      const field = `collaborators.${collaboratorId}`;
+      await recordAudit(
+        task._id as Types.ObjectId,
+        userId,
+        AuditAction.UPDATED,
+        diffFields({ [field]: previousRole }, { [field]: role }, [field]),
+      );
+
+      return reply.send({ data: { ownerId: task.userId, collaborators: task.collaborators } });
+    },
+  );
+
+  // DELETE /tasks/:id/collaborators/:userId - Revoke access (owner, or a collaborator leaving)
+  fastify.delete<{ Params: CollaboratorParams }>(
+    '/tasks/:id/collaborators/:userId',
+    {
+      schema: {
+        params: collaboratorParamsSchema,
+        response: {
+          204: noContentResponse,
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: CollaboratorParams }>, reply: FastifyReply) => {
+      const { id, userId: collaboratorId } = request.params;
+      const userId = request.userId;
+
+      const filter =
+        collaboratorId === userId
+          ? { _id: id, ...(await taskAccessFilter(userId, TaskAccessLevel.READ)) }
+          : { _id: id, ...(await taskAccessFilter(userId, TaskAccessLevel.OWNER)) };
+
+      const task = await Task.findOneAndUpdate(filter, {
+        $pull: { collaborators: { userId: collaboratorId } },
+      });
+
+      if (!task) {
+        throw await resolveAccessError(id, userId);
+      }
+
+      const removed = task.collaborators.find(
+        (collaborator) => collaborator.userId === collaboratorId,
+      );
+
+      if (!removed) {
+        throw new NotFoundError('Collaborator not found');
+      }
+
+      await recordAudit(task._id as Types.ObjectId, userId, AuditAction.UPDATED, [
+        { field: `collaborators.${collaboratorId}`, before: removed.role, after: null },
+      ]);
+
+      return reply.status(204).send();
+    },
+  );
+}
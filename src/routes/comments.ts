@@ -0,0 +1,253 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { type Types } from 'mongoose';
+import { Task } from '../models/Task';
+import { Comment } from '../models/Comment';
+import { authMiddleware } from '../middleware/auth';
+import { idempotencyMiddleware, saveIdempotentResponse } from '../middleware/idempotency';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+import { TaskAccessLevel, taskAccessFilter } from '../services/taskAccess';
+import { adjustCommentCount, resolveMentions } from '../services/comments';
+import { TaskEventType, publishTaskEvent } from '../services/events';
+import {
+  dataResponse,
+  dateTimeSchema,
+  errorResponses,
+  idParams,
+  noContentResponse,
+  nullableDateTimeSchema,
+  pageResponse,
+} from '../schemas/common';
+
+interface TaskParams {
+  id: string;
+}
+
+interface CommentParams extends TaskParams {
+  commentId: string;
+}
+
+interface CommentBody {
+  body: string;
+}
+
+interface CommentQueryParams {
+  page?: string;
+  limit?: string;
+}
+
+const commentBodySchema = {
+  type: 'object',
+  required: ['body'],
+  properties: {
+    body: { type: 'string', minLength: 1, maxLength: 10000, pattern: '\\S' },
+  },
+};
+
+const commentSchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    _id: { type: 'string' },
+    taskId: { type: 'string' },
+    authorId: { type: 'string' },
+    body: { type: 'string', description: 'Markdown' },
+    mentions: { type: 'array', items: { type: 'string' } },
+    editedAt: nullableDateTimeSchema,
+    createdAt: dateTimeSchema,
+    updatedAt: dateTimeSchema,
+  },
+};
+
+// Comments are visible to, and can be added by, everyone who can read the task
+async function findReadableTask(id: string, userId: string) {
+  const task = await Task.findOne({
+    _id: id,
+    ...(await taskAccessFilter(userId, TaskAccessLevel.READ)),
+  }).select('userId projectId assigneeId collaborators');
+
+  if (!task) {
+    throw new NotFoundError('Task not found');
+  }
+
+  return task;
+}
+
+async function findComment(taskId: Types.ObjectId, commentId: string) {
+  const comment = await Comment.findOne({ _id: commentId, taskId });
+
+  if (!comment) {
+    throw new NotFoundError('Comment not found');
+  }
+
+  return comment;
+}
+
+export async function commentRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // Replay retried mutations that carry an Idempotency-Key
+  fastify.addHook('preHandler', idempotencyMiddleware);
+  fastify.addHook('onSend', saveIdempotentResponse);
+
+  // GET /tasks/:id/comments - Page through a task's comments, oldest first
+  fastify.get<{ Params: TaskParams; Querystring: CommentQueryParams }>(
+    '/tasks/:id/comments',
+    {
+      schema: {
+        params: idParams('id'),
+        querystring: {
+          type: 'object',
+          properties: {
+            page: { type: 'string', pattern: '^[1-9][0-9]*$' },
+            limit: { type: 'string', pattern: '^[1-9][0-9]*$' },
+          },
+        },
+        response: {
+          200: pageResponse('A page of comments', commentSchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: TaskParams; Querystring: CommentQueryParams }>,
+      reply: FastifyReply,
+    ) => {
+      const { page: pageParam = '1', limit: limitParam = '50' } = request.query;
+
+      const page = parseInt(pageParam, 10);
+      const limit = Math.min(parseInt(limitParam, 10), 100);
+
+      const task = await findReadableTask(request.params.id, request.userId);
+
+      const query = { taskId: task._id };
+      const skip = (page - 1) * limit;
+
+      const [comments, total] = await Promise.all([
+        Comment.find(query).sort({ createdAt: 1, _id: 1 }).skip(skip).limit(limit).lean(),
+        Comment.countDocuments(query),
+      ]);
+
+      return reply.send({
+        data: comments,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    },
+  );
+
+  // POST /tasks/:id/comments - Comment on a task; @userId mentions are recorded
+  fastify.post<{ Params: TaskParams; Body: CommentBody }>(
+    '/tasks/:id/comments',
+    {
+      schema: {
+        params: idParams('id'),
+        body: commentBodySchema,
+        response: {
+          201: dataResponse('The new comment', commentSchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: TaskParams; Body: CommentBody }>,
+      reply: FastifyReply,
+    ) => {
+      const userId = request.userId;
+      const task = await findReadableTask(request.params.id, userId);
+      const taskId = task._id as Types.ObjectId;
+
+      const comment = await Comment.create({
+        taskId,
+        authorId: userId,
+        body: request.body.body,
+        mentions: await resolveMentions(taskId, userId, request.body.body),
+      });
+
+      await adjustCommentCount(taskId, 1);
+
+      publishTaskEvent(TaskEventType.COMMENTED, task, { comment: comment.toObject() }, userId);
+
+      return reply.status(201).send({ data: comment });
+    },
+  );
+
+  // PATCH /tasks/:id/comments/:commentId - Edit a comment (author only)
+  fastify.patch<{ Params: CommentParams; Body: CommentBody }>(
+    '/tasks/:id/comments/:commentId',
+    {
+      schema: {
+        params: idParams('id', 'commentId'),
+        body: commentBodySchema,
+        response: {
+          200: dataResponse('The edited comment', commentSchema),
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: CommentParams; Body: CommentBody }>,
+      reply: FastifyReply,
+    ) => {
+      const userId = request.userId;
+      const task = await findReadableTask(request.params.id, userId);
+      const taskId = task._id as Types.ObjectId;
+      const comment = await findComment(taskId, request.params.commentId);
+
+      if (comment.authorId !== userId) {
+        throw new ForbiddenError('Only the author can edit a comment');
+      }
+
+      comment.body = request.body.body;
+      comment.mentions = await resolveMentions(taskId, userId, request.body.body);
+      comment.editedAt = new Date();
+      await comment.save();
+
+      return reply.send({ data: comment });
+    },
+  );
+
+  // DELETE /tasks/:id/comments/:commentId - Delete a comment (author, or whoever can delete the task)
+  fastify.delete<{ Params: CommentParams }>(
+    '/tasks/:id/comments/:commentId',
+    {
+      schema: {
+        params: idParams('id', 'commentId'),
+        response: {
+          204: noContentResponse,
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: CommentParams }>, reply: FastifyReply) => {
+      const userId = request.userId;
+      const task = await findReadableTask(request.params.id, userId);
+      const taskId = task._id as Types.ObjectId;
+      const comment = await findComment(taskId, request.params.commentId);
+
+      if (comment.authorId !== userId) {
+        const moderator = await Task.exists({
+          _id: taskId,
+          ...(await taskAccessFilter(userId, TaskAccessLevel.OWNER)),
+        });
+
+        if (!moderator) {
+          throw new ForbiddenError('Only the author or the task owner can delete a comment');
+        }
+      }
+
+      const deleted = await Comment.deleteOne({ _id: comment._id });
+
+      // A concurrent delete already adjusted the count
+      if (deleted.deletedCount > 0) {
+        await adjustCommentCount(taskId, -1);
+      }
+
+      return reply.status(204).send();
+    },
+  );
+}
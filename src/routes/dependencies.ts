@@ -0,0 +1,186 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { type Types } from 'mongoose';
+import { Task } from '../models/Task';
+import { authMiddleware } from '../middleware/auth';
+import { idempotencyMiddleware, saveIdempotentResponse } from '../middleware/idempotency';
+import { NotFoundError } from '../utils/errors';
+import { TaskAccessLevel, resolveAccessError, taskAccessFilter } from '../services/taskAccess';
+import { assertNoDependencyCycle } from '../services/taskGraph';
+import { diffFields, recordAudit } from '../services/audit';
+import { TaskEventType, publishTaskEvent } from '../services/events';
+import { AuditAction } from '../models/AuditEntry';
+import { dataResponse, errorResponses, idParams, noContentResponse } from '../schemas/common';
+import { taskSchema } from '../schemas/task';
+
+interface TaskParams {
+  id: string;
+}
+
+interface DependencyParams extends TaskParams {
+  blockerId: string;
+}
+
+// Fields shown for the tasks on either side of a dependency
+const DEPENDENCY_FIELDS = 'title status dueAt assigneeId';
+
+const dependenciesSchema = {
+  type: 'object',
+  properties: {
+    blockedBy: { type: 'array', items: taskSchema },
+    blocking: { type: 'array', items: taskSchema },
+  },
+};
+
+export async function dependencyRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // Replay retried mutations that carry an Idempotency-Key
+  fastify.addHook('preHandler', idempotencyMiddleware);
+  fastify.addHook('onSend', saveIdempotentResponse);
+
+  // GET /tasks/:id/dependencies - Tasks this task is blocked by, and tasks it is blocking
+  fastify.get<{ Params: TaskParams }>(
+    '/tasks/:id/dependencies',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          200: dataResponse('Blocking and blocked tasks', dependenciesSchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: TaskParams }>, reply: FastifyReply) => {
+      const { id } = request.params;
+      const readable = await taskAccessFilter(request.userId, TaskAccessLevel.READ);
+
+      const task = await Task.findOne({ _id: id, ...readable })
+        .select('blockedBy')
+        .lean();
+
+      if (!task) {
+        throw new NotFoundError('Task not found');
+      }
+
+      const [blockedBy, blocking] = await Promise.all([
+        Task.find({ _id: { $in: task.blockedBy }, ...readable })
+          .select(DEPENDENCY_FIELDS)
+          .lean(),
+        Task.find({ blockedBy: task._id, ...readable })
+          .select(DEPENDENCY_FIELDS)
+          .lean(),
+      ]);
+
+      return reply.send({ data: { blockedBy, blocking } });
+    },
+  );
+
+  // PUT /tasks/:id/dependencies/:blockerId - Mark a task as blocked by another task
+  fastify.put<{ Params: DependencyParams }>(
+    '/tasks/:id/dependencies/:blockerId',
+    {
+      schema: {
+        params: idParams('id', 'blockerId'),
+        response: {
+          200: dataResponse('The blocked task', taskSchema),
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: DependencyParams }>, reply: FastifyReply) => {
+      const { id, blockerId } = request.params;
+      const userId = request.userId;
+
+      const filter = { _id: id, ...(await taskAccessFilter(userId, TaskAccessLevel.WRITE)) };
+
+      const current = await Task.findOne(filter).select('blockedBy').lean();
+
+      if (!current) {
+        throw await resolveAccessError(id, userId);
+      }
+
+      const blocker = await Task.exists({
+        _id: blockerId,
+        ...(await taskAccessFilter(userId, TaskAccessLevel.READ)),
+      });
+
+      if (!blocker) {
+        throw new NotFoundError('Blocking task not found');
+      }
+
+      await assertNoDependencyCycle(id, blockerId);
+
+      const task = await Task.findOneAndUpdate(
+        filter,
+        { $addToSet: { blockedBy: blocker._id } },
+        { new: true },
+      );
+
+      if (!task) {
+        throw await resolveAccessError(id, userId);
+      }
+
+      const changes = diffFields(current, task.toObject(), ['blockedBy']);
+
+      // Adding a dependency that is already there changes nothing
+      if (changes.length > 0) {
+        await recordAudit(task._id as Types.ObjectId, userId, AuditAction.UPDATED, changes);
+        publishTaskEvent(TaskEventType.UPDATED, task, { task: task.toObject(), changes }, userId);
+      }
+
+      return reply.send({ data: task });
+    },
+  );
+
+  // DELETE /tasks/:id/dependencies/:blockerId - Remove a dependency
+  fastify.delete<{ Params: DependencyParams }>(
+    '/tasks/:id/dependencies/:blockerId',
+    {
+      schema: {
+        params: idParams('id', 'blockerId'),
+        response: {
+          204: noContentResponse,
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: DependencyParams }>, reply: FastifyReply) => {
+      const { id, blockerId } = request.params;
+      const userId = request.userId;
+
+      const filter = { _id: id, ...(await taskAccessFilter(userId, TaskAccessLevel.WRITE)) };
+
+      const current = await Task.findOne({ ...filter, blockedBy: blockerId })
+        .select('blockedBy')
+        .lean();
+
+      if (!current) {
+        if (await Task.exists(filter)) {
+          throw new NotFoundError('Dependency not found');
+        }
+        throw await resolveAccessError(id, userId);
+      }
+
+      const task = await Task.findOneAndUpdate(
+        filter,
+        { $pull: { blockedBy: blockerId } },
+        { new: true },
+      );
+
+      if (!task) {
+        throw await resolveAccessError(id, userId);
+      }
+
+      const changes = diffFields(current, task.toObject(), ['blockedBy']);
+
+      // A concurrent request may already have removed it
+      if (changes.length > 0) {
+        await recordAudit(task._id as Types.ObjectId, userId, AuditAction.UPDATED, changes);
+        publishTaskEvent(TaskEventType.UPDATED, task, { task: task.toObject(), changes }, userId);
+      }
+
+      return reply.status(204).send();
+    },
+  );
+}
@@ -0,0 +1,36 @@
+import { type FastifyInstance } from 'fastify';
+import { type FastifyDynamicSwaggerOptions } from '@fastify/swagger';
+import swaggerUi from '@fastify/swagger-ui';
+
+// Options for @fastify/swagger, which builds the OpenAPI document from the route schemas;
+// it must be registered before the routes so that it sees every one of them
+export const openApiOptions: FastifyDynamicSwaggerOptions = {
+  openapi: {
+    openapi: '3.0.3',
+    info: {
+      title: 'Task Management API',
+      description: 'A RESTful task management API built with Bun, Fastify, and MongoDB',
+      version: '1.0.0',
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    },
+    // Every route needs an access token unless its schema says otherwise
+    security: [{ bearerAuth: [] }],
+  },
+  // Group operations by resource, e.g. /api/v1/tasks/{id}/comments under "tasks"
+  transform: ({ schema, url }) => ({
+    schema: { ...schema, tags: schema?.tags ?? [url.split('/')[3] ?? 'default'] },
+    url,
+  }),
+};
+
+export async function docsRoutes(fastify: FastifyInstance) {
+  // GET /openapi.json - The OpenAPI 3 document for every route
+  fastify.get('/openapi.json', { schema: { hide: true } }, async () => fastify.swagger());
+
+  // GET /docs - Interactive API docs
+  await fastify.register(swaggerUi, { routePrefix: '/docs' });
+}
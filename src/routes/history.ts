@@ -0,0 +1,102 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { Task } from '../models/Task';
+import { AuditAction, AuditEntry } from '../models/AuditEntry';
+import { authMiddleware } from '../middleware/auth';
+import { NotFoundError } from '../utils/errors';
+import { TaskAccessLevel, taskAccessFilter } from '../services/taskAccess';
+import { dateTimeSchema, errorResponses, idParams, pageResponse } from '../schemas/common';
+
+interface TaskParams {
+  id: string;
+}
+
+interface HistoryQueryParams {
+  page?: string;
+  limit?: string;
+}
+
+const auditEntrySchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    _id: { type: 'string' },
+    taskId: { type: 'string' },
+    actorId: { type: 'string' },
+    action: { type: 'string', enum: Object.values(AuditAction) },
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string' },
+          before: {},
+          after: {},
+        },
+      },
+    },
+    createdAt: dateTimeSchema,
+  },
+};
+
+export async function historyRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // GET /tasks/:id/history - Page through a task's audit log, newest first
+  fastify.get<{ Params: TaskParams; Querystring: HistoryQueryParams }>(
+    '/tasks/:id/history',
+    {
+      schema: {
+        params: idParams('id'),
+        querystring: {
+          type: 'object',
+          properties: {
+            page: { type: 'string', pattern: '^[1-9][0-9]*$' },
+            limit: { type: 'string', pattern: '^[1-9][0-9]*$' },
+          },
+        },
+        response: {
+          200: pageResponse('A page of audit entries', auditEntrySchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: TaskParams; Querystring: HistoryQueryParams }>,
+      reply: FastifyReply,
+    ) => {
+      const { id } = request.params;
+      const { page: pageParam = '1', limit: limitParam = '50' } = request.query;
+
+      const page = parseInt(pageParam, 10);
+      const limit = Math.min(parseInt(limitParam, 10), 100);
+
+      const visible = await Task.exists({
+        _id: id,
+        ...(await taskAccessFilter(request.userId, TaskAccessLevel.READ)),
+      });
+
+      if (!visible) {
+        throw new NotFoundError('Task not found');
+      }
+
+      const query = { taskId: id };
+      const skip = (page - 1) * limit;
+
+      const [entries, total] = await Promise.all([
+        AuditEntry.find(query).sort({ createdAt: -1, _id: -1 }).skip(skip).limit(limit).lean(),
+        AuditEntry.countDocuments(query),
+      ]);
+
+      return reply.send({
+        data: entries,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    },
+  );
+}
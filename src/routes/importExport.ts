@@ -0,0 +1,160 @@
+import { Readable } from 'node:stream';
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { authMiddleware } from '../middleware/auth';
+import { idempotencyMiddleware, saveIdempotentResponse } from '../middleware/idempotency';
+import {
+  buildTaskListQuery,
+  taskListFilterProperties,
+  type TaskListFilters,
+} from '../services/taskQuery';
+import {
+  EXPORT_CONTENT_TYPES,
+  ExportFormat,
+  IMPORT_FIELDS,
+  ImportFormat,
+  ImportRowStatus,
+  MAX_IMPORT_ROWS,
+  exportTasks,
+  importTasks,
+  type ImportRequest,
+} from '../services/taskTransfer';
+import { dataResponse, errorResponses } from '../schemas/common';
+
+interface ExportQueryParams extends Omit<TaskListFilters, 'fields'> {
+  format?: ExportFormat;
+}
+
+// Imports carry whole files in the body, well beyond the default 1 MB limit
+const IMPORT_BODY_LIMIT = 10 * 1024 * 1024;
+
+// Every list filter except `fields`: exports always have the same columns
+const exportFilterProperties = Object.fromEntries(
+  Object.entries(taskListFilterProperties).filter(([name]) => name !== 'fields'),
+);
+
+const importReportSchema = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: Object.values(ImportFormat) },
+    dryRun: { type: 'boolean' },
+    summary: {
+      type: 'object',
+      properties: {
+        total: { type: 'integer' },
+        succeeded: { type: 'integer' },
+        failed: { type: 'integer' },
+      },
+    },
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          row: { type: 'integer' },
+          id: { type: ['string', 'null'] },
+          status: { type: 'string', enum: Object.values(ImportRowStatus) },
+          error: {
+            type: 'object',
+            properties: {
+              statusCode: { type: 'integer' },
+              message: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+export async function importExportRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // Replay retried mutations that carry an Idempotency-Key
+  fastify.addHook('preHandler', idempotencyMiddleware);
+  fastify.addHook('onSend', saveIdempotentResponse);
+
+  // GET /tasks/export - Stream every task matching the list filters as CSV, JSON or iCalendar
+  fastify.get<{ Querystring: ExportQueryParams }>(
+    '/tasks/export',
+    {
+      schema: {
+        querystring: {
+          type: 'object',
+          properties: {
+            ...exportFilterProperties,
+            format: { type: 'string', enum: Object.values(ExportFormat) },
+          },
+        },
+        response: {
+          200: {
+            description: 'The matching tasks as a file download',
+            content: {
+              'text/csv': { schema: { type: 'string' } },
+              'application/json': { schema: { type: 'array', items: { type: 'object' } } },
+              'text/calendar': { schema: { type: 'string' } },
+            },
+          },
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: ExportQueryParams }>, reply: FastifyReply) => {
+      const { format = ExportFormat.JSON, ...filters } = request.query;
+
+      const query = await buildTaskListQuery(request.userId, filters);
+      const date = new Date().toISOString().slice(0, 10);
+
+      return reply
+        .header('content-type', EXPORT_CONTENT_TYPES[format])
+        .header('content-disposition', `attachment; filename="tasks-${date}.${format}"`)
+        .send(Readable.from(exportTasks(query, format, request.hostname)));
+    },
+  );
+
+  // POST /tasks/import - Create tasks from CSV or JSON rows, or validate them with dryRun
+  fastify.post<{ Body: ImportRequest }>(
+    '/tasks/import',
+    {
+      bodyLimit: IMPORT_BODY_LIMIT,
+      schema: {
+        body: {
+          type: 'object',
+          required: ['format', 'data'],
+          properties: {
+            format: { type: 'string', enum: Object.values(ImportFormat) },
+            data: {
+              anyOf: [
+                { type: 'string', minLength: 1 },
+                { type: 'array', maxItems: MAX_IMPORT_ROWS },
+              ],
+            },
+            mapping: {
+              type: 'object',
+              additionalProperties: {
+                anyOf: [{ type: 'string', enum: [...IMPORT_FIELDS] }, { type: 'null' }],
+              },
+            },
+            dryRun: { type: 'boolean' },
+          },
+          additionalProperties: false,
+        },
+        response: {
+          200: dataResponse(
+            'The report of a dry run, or of an import where every row failed; nothing was created',
+            importReportSchema,
+          ),
+          201: dataResponse('The import report', importReportSchema),
+          ...errorResponses(400, 401, 403),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: ImportRequest }>, reply: FastifyReply) => {
+      const report = await importTasks(request.userId, request.body);
+
+      const created = !report.dryRun && report.summary.succeeded > 0;
+
+      return reply.status(created ? 201 : 200).send({ data: report });
+    },
+  );
+}
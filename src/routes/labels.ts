@@ -0,0 +1,207 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { Label, type ILabel } from '../models/Label';
+import { Task } from '../models/Task';
+import { authMiddleware } from '../middleware/auth';
+import { idempotencyMiddleware, saveIdempotentResponse } from '../middleware/idempotency';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { replaceTaskLabel } from '../services/labels';
+import {
+  dataResponse,
+  dateTimeSchema,
+  errorResponses,
+  idParams,
+  listResponse,
+  noContentResponse,
+} from '../schemas/common';
+
+interface CreateLabelBody {
+  name: string;
+  color?: string | null;
+}
+
+interface UpdateLabelBody {
+  name?: string;
+  color?: string | null;
+}
+
+interface LabelParams {
+  id: string;
+}
+
+const labelProperties = {
+  name: { type: 'string', minLength: 1, maxLength: 50 },
+  color: { type: ['string', 'null'], pattern: '^#[0-9a-fA-F]{6}$' },
+};
+
+const labelSchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    _id: { type: 'string' },
+    userId: { type: 'string' },
+    name: { type: 'string' },
+    color: { type: ['string', 'null'] },
+    createdAt: dateTimeSchema,
+    updatedAt: dateTimeSchema,
+  },
+};
+
+async function findLabel(id: string, userId: string) {
+  const label = await Label.findOne({ _id: id, userId });
+
+  if (!label) {
+    throw new NotFoundError('Label not found');
+  }
+
+  return label;
+}
+
+async function assertNameAvailable(userId: string, name: string) {
+  if (await Label.exists({ userId, name })) {
+    throw new ConflictError(`Label "${name}" already exists`);
+  }
+}
+
+export async function labelRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // Replay retried mutations that carry an Idempotency-Key
+  fastify.addHook('preHandler', idempotencyMiddleware);
+  fastify.addHook('onSend', saveIdempotentResponse);
+
+  // GET /labels - Get the authenticated user's label catalog with usage counts on their tasks
+  fastify.get(
+    '/labels',
+    {
+      schema: {
+        response: {
+          200: listResponse('The label catalog', {
+            ...labelSchema,
+            properties: { ...labelSchema.properties, taskCount: { type: 'integer' } },
+          }),
+          ...errorResponses(401),
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const userId = request.userId;
+
+      const [labels, usage] = await Promise.all([
+        Label.find({ userId }).sort({ name: 1 }).lean(),
+        Task.aggregate<{ _id: string; count: number }>([
+          { $match: { userId, deletedAt: null } },
+          { $unwind: '$labels' },
+          { $group: { _id: '$labels', count: { $sum: 1 } } },
+        ]),
+      ]);
+
+      const counts = new Map(usage.map(({ _id, count }) => [_id, count]));
+
+      return reply.send({
+        data: labels.map((label) => ({ ...label, taskCount: counts.get(label.name) ?? 0 })),
+      });
+    },
+  );
+
+  // POST /labels - Add a label to the catalog
+  fastify.post<{ Body: CreateLabelBody }>(
+    '/labels',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['name'],
+          properties: labelProperties,
+        },
+        response: {
+          201: dataResponse('The new label', labelSchema),
+          ...errorResponses(400, 401, 409),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CreateLabelBody }>, reply: FastifyReply) => {
+      const userId = request.userId;
+      const name = request.body.name.trim();
+
+      await assertNameAvailable(userId, name);
+
+      const label = await Label.create({ userId, name, color: request.body.color ?? null });
+
+      return reply.status(201).send({ data: label });
+    },
+  );
+
+  // PATCH /labels/:id - Rename or recolor a label; a rename is applied to the user's tasks
+  fastify.patch<{ Params: LabelParams; Body: UpdateLabelBody }>(
+    '/labels/:id',
+    {
+      schema: {
+        params: idParams('id'),
+        body: {
+          type: 'object',
+          properties: labelProperties,
+        },
+        response: {
+          200: dataResponse('The updated label', labelSchema),
+          ...errorResponses(400, 401, 404, 409),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: LabelParams; Body: UpdateLabelBody }>,
+      reply: FastifyReply,
+    ) => {
+      const userId = request.userId;
+      const name = request.body.name?.trim();
+      const { color } = request.body;
+
+      const updateData: Partial<Pick<ILabel, 'name' | 'color'>> = {};
+      if (name !== undefined) updateData.name = name;
+      if (color !== undefined) updateData.color = color;
+
+      if (Object.keys(updateData).length === 0) {
+        throw new ValidationError('No valid fields provided for update');
+      }
+
+      const label = await findLabel(request.params.id, userId);
+      const previousName = label.name;
+
+      if (name !== undefined && name !== previousName) {
+        await assertNameAvailable(userId, name);
+      }
+
+      label.set(updateData);
+      await label.save();
+
+      if (label.name !== previousName) {
+        await replaceTaskLabel(userId, previousName, label.name);
+      }
+
+      return reply.send({ data: label });
+    },
+  );
+
+  // DELETE /labels/:id - Remove a label from the catalog and from the user's tasks
+  fastify.delete<{ Params: LabelParams }>(
+    '/labels/:id',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          204: noContentResponse,
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: LabelParams }>, reply: FastifyReply) => {
+      const userId = request.userId;
+      const label = await findLabel(request.params.id, userId);
+
+      await replaceTaskLabel(userId, label.name, null);
+      await label.deleteOne();
+
+      return reply.status(204).send();
+    },
+  );
+}
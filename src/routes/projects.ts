@@ -0,0 +1,478 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { type Types } from 'mongoose';
+import {
+  Project,
+  ProjectRole,
+  PROJECT_MANAGE_ROLES,
+  type WorkflowTransitions,
+} from '../models/Project';
+import { Task, TaskStatus } from '../models/Task';
+import { User } from '../models/User';
+import { AuditAction } from '../models/AuditEntry';
+import { authMiddleware } from '../middleware/auth';
+import { idempotencyMiddleware, saveIdempotentResponse } from '../middleware/idempotency';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { findProjectForUser } from '../services/projectAccess';
+import { getWorkflow } from '../services/workflow';
+import { diffFields, recordAudit } from '../services/audit';
+import { TaskEventType, publishTaskEvent } from '../services/events';
+import { withTransaction } from '../services/transactions';
+import {
+  dataResponse,
+  dateTimeSchema,
+  errorResponses,
+  idParams,
+  listResponse,
+  noContentResponse,
+  objectIdSchema,
+} from '../schemas/common';
+
+interface CreateProjectBody {
+  name: string;
+  description?: string;
+}
+
+interface UpdateProjectBody {
+  name?: string;
+  description?: string;
+}
+
+interface ProjectParams {
+  id: string;
+}
+
+interface MemberParams extends ProjectParams {
+  userId: string;
+}
+
+interface MemberBody {
+  role: ProjectRole;
+}
+
+interface WorkflowBody {
+  transitions: WorkflowTransitions;
+}
+
+// The owner role is assigned on creation and cannot be granted through membership routes
+const ASSIGNABLE_ROLES = [ProjectRole.ADMIN, ProjectRole.MEMBER, ProjectRole.VIEWER];
+
+const transitionsSchema = {
+  type: 'object',
+  properties: Object.fromEntries(
+    Object.values(TaskStatus).map((status) => [
+      status,
+      { type: 'array', items: { type: 'string', enum: Object.values(TaskStatus) } },
+    ]),
+  ),
+};
+
+const projectSchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    _id: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    ownerId: { type: 'string' },
+    members: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          userId: { type: 'string' },
+          role: { type: 'string', enum: Object.values(ProjectRole) },
+          addedAt: dateTimeSchema,
+        },
+      },
+    },
+    workflow: { ...transitionsSchema, type: ['object', 'null'] },
+    createdAt: dateTimeSchema,
+    updatedAt: dateTimeSchema,
+  },
+};
+
+const workflowSchema = {
+  type: 'object',
+  properties: {
+    transitions: transitionsSchema,
+    overrides: { ...transitionsSchema, type: ['object', 'null'] },
+  },
+};
+
+const memberParamsSchema = {
+  type: 'object',
+  required: ['id', 'userId'],
+  properties: {
+    id: objectIdSchema,
+    userId: { type: 'string' },
+  },
+};
+
+export async function projectRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // Replay retried mutations that carry an Idempotency-Key
+  fastify.addHook('preHandler', idempotencyMiddleware);
+  fastify.addHook('onSend', saveIdempotentResponse);
+
+  // GET /projects - Get all projects the authenticated user is a member of
+  fastify.get(
+    '/projects',
+    {
+      schema: {
+        response: {
+          200: listResponse("The user's projects", projectSchema),
+          ...errorResponses(401),
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const projects = await Project.find({ 'members.userId': request.userId })
+        .sort({ createdAt: -1 })
+        .lean();
+
+      return reply.send({ data: projects });
+    },
+  );
+
+  // GET /projects/:id - Get a single project
+  fastify.get<{ Params: ProjectParams }>(
+    '/projects/:id',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          200: dataResponse('The project', projectSchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+      const project = await findProjectForUser(request.params.id, request.userId);
+
+      return reply.send({ data: project });
+    },
+  );
+
+  // POST /projects - Create a project owned by the authenticated user
+  fastify.post<{ Body: CreateProjectBody }>(
+    '/projects',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', minLength: 1 },
+            description: { type: 'string' },
+          },
+        },
+        response: {
+          201: dataResponse('The new project', projectSchema),
+          ...errorResponses(400, 401),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CreateProjectBody }>, reply: FastifyReply) => {
+      const { name, description } = request.body;
+      const userId = request.userId;
+
+      const project = await Project.create({
+        name,
+        description,
+        ownerId: userId,
+        members: [{ userId, role: ProjectRole.OWNER }],
+      });
+
+      return reply.status(201).send({ data: project });
+    },
+  );
+
+  // PATCH /projects/:id - Update a project (owners and admins)
+  fastify.patch<{ Params: ProjectParams; Body: UpdateProjectBody }>(
+    '/projects/:id',
+    {
+      schema: {
+        params: idParams('id'),
+        body: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1 },
+            description: { type: 'string' },
+          },
+        },
+        response: {
+          200: dataResponse('The updated project', projectSchema),
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: ProjectParams; Body: UpdateProjectBody }>,
+      reply: FastifyReply,
+    ) => {
+      const { name, description } = request.body;
+
+      const updateData: UpdateProjectBody = {};
+      if (name !== undefined) updateData.name = name;
+      if (description !== undefined) updateData.description = description;
+
+      if (Object.keys(updateData).length === 0) {
+        throw new ValidationError('No valid fields provided for update');
+      }
+
+      const project = await findProjectForUser(
+        request.params.id,
+        request.userId,
+        PROJECT_MANAGE_ROLES,
+      );
+
+      project.set(updateData);
+      await project.save();
+
+      return reply.send({ data: project });
+    },
+  );
+
+  // DELETE /projects/:id - Delete a project (owner only); its tasks go back to their creators
+  fastify.delete<{ Params: ProjectParams }>(
+    '/projects/:id',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          204: noContentResponse,
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+      const project = await findProjectForUser(request.params.id, request.userId, [
+        ProjectRole.OWNER,
+      ]);
+
+      await withTransaction(async () => {
+        const ids = await Task.distinct('_id', { projectId: project._id });
+
+        for (const id of ids) {
+          const task = await Task.findOneAndUpdate(
+            { _id: id, projectId: project._id },
+            { $set: { projectId: null } },
+            { new: true },
+          );
+
+          if (task) {
+            const changes = diffFields({ projectId: project._id }, task.toObject(), ['projectId']);
+
+            await recordAudit(
+              task._id as Types.ObjectId,
+              request.userId,
+              AuditAction.UPDATED,
+              changes,
+            );
+            publishTaskEvent(
+              TaskEventType.UPDATED,
+              task,
+              { task: task.toObject(), changes },
+              request.userId,
+            );
+          }
+        }
+
+        await project.deleteOne();
+      });
+
+      return reply.status(204).send();
+    },
+  );
+
+  // PUT /projects/:id/members/:userId - Add a member or change their role (owners and admins)
+  fastify.put<{ Params: MemberParams; Body: MemberBody }>(
+    '/projects/:id/members/:userId',
+    {
+      schema: {
+        params: memberParamsSchema,
+        body: {
+          type: 'object',
+          required: ['role'],
+          properties: {
+            role: { type: 'string', enum: ASSIGNABLE_ROLES },
+          },
+        },
+        response: {
+          200: dataResponse('The project with its members', projectSchema),
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: MemberParams; Body: MemberBody }>,
+      reply: FastifyReply,
+    ) => {
+      const { id, userId: memberId } = request.params;
+      const { role } = request.body;
+
+      const project = await findProjectForUser(id, request.userId, PROJECT_MANAGE_ROLES);
+
+      if (memberId === project.ownerId) {
+        throw new ValidationError("The project owner's role cannot be changed");
+      }
+
+      if (!(await User.exists({ userId: memberId }))) {
+        throw new NotFoundError('User not found');
+      }
+
+      const member = project.members.find((m) => m.userId === memberId);
+
+      if (member) {
+        member.role = role;
+      } else {
+        project.members.push({ userId: memberId, role, addedAt: new Date() });
+      }
+
+      await project.save();
+
+      return reply.send({ data: project });
+    },
+  );
+
+  // DELETE /projects/:id/members/:userId - Remove a member (owners and admins, or a member leaving)
+  fastify.delete<{ Params: MemberParams }>(
+    '/projects/:id/members/:userId',
+    {
+      schema: {
+        params: memberParamsSchema,
+        response: {
+          204: noContentResponse,
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: MemberParams }>, reply: FastifyReply) => {
+      const { id, userId: memberId } = request.params;
+      const userId = request.userId;
+
+      const project = await findProjectForUser(
+        id,
+        userId,
+        memberId === userId ? undefined : PROJECT_MANAGE_ROLES,
+      );
+
+      if (memberId === project.ownerId) {
+        throw new ForbiddenError('The project owner cannot be removed');
+      }
+
+      if (!project.members.some((m) => m.userId === memberId)) {
+        throw new NotFoundError('Member not found');
+      }
+
+      project.members = project.members.filter((m) => m.userId !== memberId);
+      await project.save();
+
+      return reply.status(204).send();
+    },
+  );
+
+  // GET /projects/:id/workflow - Effective status transitions for the project's tasks
+  fastify.get<{ Params: ProjectParams }>(
+    '/projects/:id/workflow',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          200: dataResponse('Effective transitions and the overrides behind them', workflowSchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+      const project = await findProjectForUser(request.params.id, request.userId);
+
+      return reply.send({
+        data: {
+          transitions: await getWorkflow(project._id as Types.ObjectId),
+          overrides: project.workflow,
+        },
+      });
+    },
+  );
+
+  // PUT /projects/:id/workflow - Override transitions for some statuses (owners and admins)
+  fastify.put<{ Params: ProjectParams; Body: WorkflowBody }>(
+    '/projects/:id/workflow',
+    {
+      schema: {
+        params: idParams('id'),
+        body: {
+          type: 'object',
+          required: ['transitions'],
+          properties: {
+            transitions: {
+              type: 'object',
+              propertyNames: { enum: Object.values(TaskStatus) },
+              additionalProperties: {
+                type: 'array',
+                items: { type: 'string', enum: Object.values(TaskStatus) },
+                uniqueItems: true,
+              },
+            },
+          },
+        },
+        response: {
+          200: dataResponse('Effective transitions and the overrides behind them', workflowSchema),
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: ProjectParams; Body: WorkflowBody }>,
+      reply: FastifyReply,
+    ) => {
+      const { transitions } = request.body;
+
+      const project = await findProjectForUser(
+        request.params.id,
+        request.userId,
+        PROJECT_MANAGE_ROLES,
+      );
+
+      project.workflow = transitions;
+      project.markModified('workflow');
+      await project.save();
+
+      return reply.send({
+        data: {
+          transitions: await getWorkflow(project._id as Types.ObjectId),
+          overrides: project.workflow,
+        },
+      });
+    },
+  );
+
+  // DELETE /projects/:id/workflow - Go back to the default workflow (owners and admins)
+  fastify.delete<{ Params: ProjectParams }>(
+    '/projects/:id/workflow',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          204: noContentResponse,
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+      const project = await findProjectForUser(
+        request.params.id,
+        request.userId,
+        PROJECT_MANAGE_ROLES,
+      );
+
+      project.workflow = null;
+      await project.save();
+
+      return reply.status(204).send();
+    },
+  );
+}
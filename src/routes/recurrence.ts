@@ -0,0 +1,188 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { Task } from '../models/Task';
+import { RecurrenceTrigger, TaskSeries } from '../models/TaskSeries';
+import { authMiddleware } from '../middleware/auth';
+import { idempotencyMiddleware, saveIdempotentResponse } from '../middleware/idempotency';
+import { NotFoundError } from '../utils/errors';
+import { TaskAccessLevel, resolveAccessError, taskAccessFilter } from '../services/taskAccess';
+import {
+  endSeries,
+  startSeries,
+  upcomingOccurrences,
+  type RecurrenceInput,
+} from '../services/recurrence';
+import {
+  dataResponse,
+  dateTimeSchema,
+  errorResponses,
+  idParams,
+  noContentResponse,
+  nullableDateTimeSchema,
+} from '../schemas/common';
+import { taskSchema } from '../schemas/task';
+
+interface TaskParams {
+  id: string;
+}
+
+// How many upcoming dates GET /tasks/:id/recurrence previews
+const PREVIEW_COUNT = 5;
+
+const seriesSchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    _id: { type: 'string' },
+    userId: { type: 'string' },
+    rule: { type: 'string', description: 'Canonical RRULE text, e.g. FREQ=WEEKLY;BYDAY=MO' },
+    trigger: { type: 'string', enum: Object.values(RecurrenceTrigger) },
+    template: { type: 'object', additionalProperties: true },
+    startsAt: dateTimeSchema,
+    leadTimeMs: { type: ['integer', 'null'] },
+    lastIndex: { type: 'integer' },
+    lastOccursAt: dateTimeSchema,
+    nextOccursAt: nullableDateTimeSchema,
+    endedAt: nullableDateTimeSchema,
+    createdAt: dateTimeSchema,
+    updatedAt: dateTimeSchema,
+  },
+};
+
+const seriesPreviewSchema = {
+  ...seriesSchema,
+  properties: {
+    ...seriesSchema.properties,
+    occurrence: taskSchema.properties.recurrence,
+    upcoming: { type: 'array', items: dateTimeSchema },
+  },
+};
+
+export async function recurrenceRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // Replay retried mutations that carry an Idempotency-Key
+  fastify.addHook('preHandler', idempotencyMiddleware);
+  fastify.addHook('onSend', saveIdempotentResponse);
+
+  // GET /tasks/:id/recurrence - The task's series, with a preview of its next dates
+  fastify.get<{ Params: TaskParams }>(
+    '/tasks/:id/recurrence',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          200: dataResponse('The series and its next dates', seriesPreviewSchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: TaskParams }>, reply: FastifyReply) => {
+      const task = await Task.findOne({
+        _id: request.params.id,
+        ...(await taskAccessFilter(request.userId, TaskAccessLevel.READ)),
+      })
+        .select('recurrence')
+        .lean();
+
+      if (!task) {
+        throw new NotFoundError('Task not found');
+      }
+
+      const series = task.recurrence
+        ? await TaskSeries.findById(task.recurrence.seriesId).lean()
+        : null;
+
+      if (!task.recurrence || !series) {
+        throw new NotFoundError('Task does not recur');
+      }
+
+      return reply.send({
+        data: {
+          ...series,
+          occurrence: task.recurrence,
+          upcoming: series.endedAt
+            ? []
+            : upcomingOccurrences(series, series.lastOccursAt, PREVIEW_COUNT),
+        },
+      });
+    },
+  );
+
+  // PUT /tasks/:id/recurrence - Make a task recur, or change the rule from this occurrence on
+  fastify.put<{ Params: TaskParams; Body: RecurrenceInput }>(
+    '/tasks/:id/recurrence',
+    {
+      schema: {
+        params: idParams('id'),
+        body: {
+          type: 'object',
+          required: ['rule'],
+          properties: {
+            rule: { type: 'string', minLength: 1, maxLength: 500 },
+            trigger: { type: 'string', enum: Object.values(RecurrenceTrigger) },
+          },
+        },
+        response: {
+          200: dataResponse('The new series', seriesSchema),
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: TaskParams; Body: RecurrenceInput }>,
+      reply: FastifyReply,
+    ) => {
+      const { id } = request.params;
+      const userId = request.userId;
+
+      const task = await Task.findOne({
+        _id: id,
+        ...(await taskAccessFilter(userId, TaskAccessLevel.WRITE)),
+      });
+
+      if (!task) {
+        throw await resolveAccessError(id, userId);
+      }
+
+      const series = await startSeries(task, request.body);
+
+      return reply.send({ data: series });
+    },
+  );
+
+  // DELETE /tasks/:id/recurrence - End the series; existing occurrences are kept
+  fastify.delete<{ Params: TaskParams }>(
+    '/tasks/:id/recurrence',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          204: noContentResponse,
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: TaskParams }>, reply: FastifyReply) => {
+      const { id } = request.params;
+      const userId = request.userId;
+
+      const task = await Task.findOne({
+        _id: id,
+        ...(await taskAccessFilter(userId, TaskAccessLevel.WRITE)),
+      })
+        .select('recurrence')
+        .lean();
+
+      if (!task) {
+        throw await resolveAccessError(id, userId);
+      }
+
+      if (!task.recurrence || !(await endSeries(task.recurrence.seriesId))) {
+        throw new NotFoundError('Task has no active recurrence');
+      }
+
+      return reply.status(204).send();
+    },
+  );
+}
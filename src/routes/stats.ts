@@ -0,0 +1,79 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { authMiddleware } from '../middleware/auth';
+import { TaskScope } from '../services/taskAccess';
+import { TaskStatus } from '../models/Task';
+import { StatsInterval, computeTaskStats, type TaskStatsOptions } from '../services/taskStats';
+import { dataResponse, dateOrDateTimeQuerySchema, errorResponses } from '../schemas/common';
+
+const taskStatsSchema = {
+  type: 'object',
+  properties: {
+    range: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', format: 'date-time' },
+        to: { type: 'string', format: 'date-time' },
+        interval: { type: 'string', enum: Object.values(StatsInterval) },
+      },
+    },
+    total: { type: 'integer' },
+    byStatus: {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.values(TaskStatus).map((status) => [status, { type: 'integer' }]),
+      ),
+    },
+    overdue: { type: 'integer' },
+    throughput: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          period: { type: 'string', format: 'date' },
+          created: { type: 'integer' },
+          completed: { type: 'integer' },
+        },
+      },
+    },
+    cycleTime: {
+      type: 'object',
+      properties: {
+        tasks: { type: 'integer' },
+        averageMs: { type: ['number', 'null'] },
+      },
+    },
+  },
+};
+
+export async function statsRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // GET /tasks/stats - Status counts, overdue tasks, throughput and cycle time for a date range
+  fastify.get<{ Querystring: TaskStatsOptions }>(
+    '/tasks/stats',
+    {
+      schema: {
+        querystring: {
+          type: 'object',
+          properties: {
+            from: dateOrDateTimeQuerySchema,
+            to: dateOrDateTimeQuerySchema,
+            interval: { type: 'string', enum: Object.values(StatsInterval) },
+            scope: { type: 'string', enum: Object.values(TaskScope) },
+            projectId: { type: 'string', pattern: '^[a-f0-9]{24}$' },
+          },
+        },
+        response: {
+          200: dataResponse('Task statistics for the range', taskStatsSchema),
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: TaskStatsOptions }>, reply: FastifyReply) => {
+      const stats = await computeTaskStats(request.userId, request.query);
+
+      return reply.send({ data: stats });
+    },
+  );
+}
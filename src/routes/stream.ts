@@ -0,0 +1,77 @@
+import { PassThrough } from 'node:stream';
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { streamAuthMiddleware } from '../middleware/auth';
+import { toEventPayload, type TaskEvent } from '../services/events';
+import { subscribeTaskStream } from '../services/taskStream';
+import { errorResponses } from '../schemas/common';
+
+interface StreamQueryParams {
+  access_token?: string;
+}
+
+// Comment lines keep proxies from closing an idle connection
+const HEARTBEAT_MS = 25 * 1000;
+
+// How long browsers wait before reconnecting a dropped stream
+const RETRY_MS = 5 * 1000;
+
+function formatEvent(event: TaskEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(toEventPayload(event))}\n\n`;
+}
+
+export async function streamRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', streamAuthMiddleware);
+
+  // GET /tasks/stream - Server-Sent Events for every task the authenticated user can read
+  fastify.get<{ Querystring: StreamQueryParams }>(
+    '/tasks/stream',
+    {
+      schema: {
+        querystring: {
+          type: 'object',
+          properties: {
+            access_token: {
+              type: 'string',
+              description: 'Access token, for clients such as EventSource that cannot set headers',
+            },
+          },
+        },
+        response: {
+          200: {
+            description: 'A stream of task events',
+            content: { 'text/event-stream': { schema: { type: 'string' } } },
+          },
+          ...errorResponses(401),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: StreamQueryParams }>, reply: FastifyReply) => {
+      const userId = request.userId;
+
+      // The response stays open, writing an event whenever one arrives
+      const stream = new PassThrough();
+      stream.write(`retry: ${RETRY_MS}\n: connected\n\n`);
+
+      const unsubscribe = subscribeTaskStream(({ event, recipients }) => {
+        if (recipients.includes(userId)) {
+          stream.write(formatEvent(event));
+        }
+      });
+
+      const heartbeat = setInterval(() => stream.write(': keep-alive\n\n'), HEARTBEAT_MS);
+
+      reply.raw.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        stream.end();
+      });
+
+      return reply
+        .header('content-type', 'text/event-stream')
+        .header('cache-control', 'no-cache, no-transform')
+        .header('x-accel-buffering', 'no')
+        .send(stream);
+    },
+  );
+}
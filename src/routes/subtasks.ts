@@ -0,0 +1,54 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { Task } from '../models/Task';
+import { authMiddleware } from '../middleware/auth';
+import { NotFoundError } from '../utils/errors';
+import { TaskAccessLevel, taskAccessFilter } from '../services/taskAccess';
+import { buildTaskTree } from '../services/taskGraph';
+import { dataResponse, errorResponses, idParams } from '../schemas/common';
+import { taskSchema } from '../schemas/task';
+
+interface TaskParams {
+  id: string;
+}
+
+const taskTreeSchema = {
+  ...taskSchema,
+  properties: {
+    ...taskSchema.properties,
+    subtasks: {
+      type: 'array',
+      description: 'Readable subtasks, each nested the same way',
+      items: { type: 'object', additionalProperties: true },
+    },
+  },
+};
+
+export async function subtaskRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // GET /tasks/:id/tree - A task with its subtasks nested at every depth
+  fastify.get<{ Params: TaskParams }>(
+    '/tasks/:id/tree',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          200: dataResponse('The task and its subtasks', taskTreeSchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: TaskParams }>, reply: FastifyReply) => {
+      const readable = await taskAccessFilter(request.userId, TaskAccessLevel.READ);
+
+      const task = await Task.findOne({ _id: request.params.id, ...readable }).lean();
+
+      if (!task) {
+        throw new NotFoundError('Task not found');
+      }
+
+      return reply.send({ data: await buildTaskTree(task, readable) });
+    },
+  );
+}
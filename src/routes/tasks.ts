@@ -1,35 +1,60 @@
 import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
-import { Task, TaskStatus } from '../models/Task';
+import { Task } from '../models/Task';
 import { authMiddleware } from '../middleware/auth';
-import { NotFoundError, ValidationError } from '../utils/errors';
+import { idempotencyMiddleware, saveIdempotentResponse } from '../middleware/idempotency';
+import { NotFoundError } from '../utils/errors';
+import { TaskAccessLevel, taskAccessFilter } from '../services/taskAccess';
+import {
+  createTask,
+  deleteTask,
+  updateTask,
+  type CreateTaskInput,
+  type UpdateTaskInput,
+} from '../services/taskService';
+import { OccurrenceScope } from '../services/recurrence';
+import { buildHighlights, parseSearchTerms } from '../utils/search';
+import { ifMatchVersions, ifNoneMatchHits, taskETag } from '../utils/etag';
+import {
+  dataResponse,
+  errorResponses,
+  idParams,
+  noContentResponse,
+  pageResponse,
+} from '../schemas/common';
+import { createTaskBodySchema, taskSchema, updateTaskBodySchema } from '../schemas/task';
+import {
+  buildTaskListQuery,
+  findTaskPage,
+  taskListFilterProperties,
+  taskPaginationProperties,
+  type TaskListFilters,
+  type TaskPageOptions,
+} from '../services/taskQuery';
 
-interface CreateTaskBody {
-  title: string;
-  description: string;
-  status?: TaskStatus;
+interface TaskParams {
+  id: string;
 }
 
-interface UpdateTaskBody {
-  title?: string;
-  description?: string;
-  status?: TaskStatus;
+interface UpdateQueryParams {
+  occurrences?: OccurrenceScope;
 }
 
-interface TaskParams {
-  id: string;
+interface DeleteQueryParams {
+  permanent?: boolean;
 }
 
-interface RawQueryParams {
-  status?: TaskStatus;
-  page?: string;
-  limit?: string;
-}
+interface RawQueryParams extends TaskListFilters, TaskPageOptions {}
 
 export async function taskRoutes(fastify: FastifyInstance) {
   // Apply auth middleware to all routes
   fastify.addHook('preHandler', authMiddleware);
 
-  // GET /tasks - Get all tasks for the authenticated user
+  // Replay retried mutations that carry an Idempotency-Key
+  fastify.addHook('preHandler', idempotencyMiddleware);
+  fastify.addHook('onSend', saveIdempotentResponse);
+
+  // GET /tasks - Get tasks owned by and/or shared with the authenticated user, with
+  // filtering, sorting, field projection, optional full-text search and page or cursor paging
   fastify.get<{ Querystring: RawQueryParams }>(
     '/tasks',
     {
@@ -37,148 +62,164 @@ export async function taskRoutes(fastify: FastifyInstance) {
         querystring: {
           type: 'object',
           properties: {
-            status: { type: 'string', enum: Object.values(TaskStatus) },
-            page: { type: 'string' },
-            limit: { type: 'string' },
+            ...taskListFilterProperties,
+            ...taskPaginationProperties,
           },
         },
+        response: {
+          200: pageResponse('A page of tasks', taskSchema),
+          ...errorResponses(400, 401, 404),
+        },
       },
     },
     async (request: FastifyRequest<{ Querystring: RawQueryParams }>, reply: FastifyReply) => {
-      const { status, page: pageParam = '1', limit: limitParam = '50' } = request.query;
-      const userId = request.userId;
-
-      const page = parseInt(pageParam, 10);
-      const limit = parseInt(limitParam, 10);
-
-      const query: { userId: string; status?: TaskStatus } = { userId };
-
-      if (status) {
-        query.status = status;
-      }
-
-      const skip = (page - 1) * limit;
+      const { page, limit, after, before, includeTotal, ...filters } = request.query;
+
+      const query = await buildTaskListQuery(request.userId, filters);
+      const { data, pagination } = await findTaskPage(query, {
+        page,
+        limit,
+        after,
+        before,
+        includeTotal,
+      });
 
-      const [tasks, total] = await Promise.all([
-        Task.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
-        Task.countDocuments(query),
-      ]);
+      const terms = filters.q ? parseSearchTerms(filters.q) : [];
 
       return reply.send({
-        data: tasks,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages: Math.ceil(total / limit),
-        },
+        data: filters.q
+          ? data.map((task) => ({
+              ...task,
+              highlights: buildHighlights(task as { title?: string; description?: string }, terms),
+            }))
+          : data,
+        pagination,
       });
     },
   );
 
-  // GET /tasks/:id - Get a single task by ID
+  // GET /tasks/:id - Get a single task by ID; 304 when If-None-Match has its ETag
   fastify.get<{ Params: TaskParams }>(
     '/tasks/:id',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          200: dataResponse('The task', taskSchema),
+          304: { description: 'Not modified', type: 'null' },
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
     async (request: FastifyRequest<{ Params: TaskParams }>, reply: FastifyReply) => {
       const { id } = request.params;
       const userId = request.userId;
 
-      try {
-        const task = await Task.findOne({ _id: id, userId }).lean();
-
-        if (!task) {
-          throw new NotFoundError('Task not found');
-        }
-
-        return reply.send({ data: task });
-      } catch (error) {
-        if ((error as Error).name === 'CastError') {
-          return reply.status(400).send({
-            error: 'Validation Error',
-            message: 'Invalid task ID format',
-          });
-        }
-        throw error;
+      const task = await Task.findOne({
+        _id: id,
+        ...(await taskAccessFilter(userId, TaskAccessLevel.READ)),
+      }).lean();
+
+      if (!task) {
+        throw new NotFoundError('Task not found');
       }
-    },
-  );
 
-  // POST /tasks - Create a new task
-  fastify.post<{ Body: CreateTaskBody }>(
-    '/tasks',
-    async (request: FastifyRequest<{ Body: CreateTaskBody }>, reply: FastifyReply) => {
-      const { title, description, status = TaskStatus.TODO } = request.body;
-      const userId = request.userId;
+      const etag = taskETag(task);
+      reply.header('etag', etag);
 
-      if (!title || !description) {
-        throw new ValidationError('Title and description are required');
+      if (ifNoneMatchHits(request.headers['if-none-match'], etag)) {
+        return reply.status(304).send();
       }
 
-      if (status && !Object.values(TaskStatus).includes(status)) {
-        throw new ValidationError(`Invalid status: ${status}`);
-      }
+      return reply.send({ data: task });
+    },
+  );
 
-      const task = await Task.create({
-        title,
-        description,
-        status,
-        userId,
-      });
+  // POST /tasks - Create a new task
+  fastify.post<{ Body: CreateTaskInput }>(
+    '/tasks',
+    {
+      schema: {
+        body: createTaskBodySchema,
+        response: {
+          201: dataResponse('The created task', taskSchema),
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CreateTaskInput }>, reply: FastifyReply) => {
+      const task = await createTask(request.userId, request.body);
 
-      return reply.status(201).send({ data: task });
+      return reply.status(201).header('etag', taskETag(task)).send({ data: task });
     },
   );
 
-  // PATCH /tasks/:id - Update a task
-  fastify.patch<{ Params: TaskParams; Body: UpdateTaskBody }>(
+  // PATCH /tasks/:id - Update a task; ?occurrences=future also updates later occurrences
+  // of a recurring task, and If-Match makes the update conditional (412 on mismatch)
+  fastify.patch<{ Params: TaskParams; Querystring: UpdateQueryParams; Body: UpdateTaskInput }>(
     '/tasks/:id',
+    {
+      schema: {
+        params: idParams('id'),
+        querystring: {
+          type: 'object',
+          properties: {
+            occurrences: { type: 'string', enum: Object.values(OccurrenceScope) },
+          },
+        },
+        body: updateTaskBodySchema,
+        response: {
+          200: dataResponse('The updated task', taskSchema),
+          ...errorResponses(400, 401, 403, 404, 409, 412, 422),
+        },
+      },
+    },
     async (
-      request: FastifyRequest<{ Params: TaskParams; Body: UpdateTaskBody }>,
+      request: FastifyRequest<{
+        Params: TaskParams;
+        Querystring: UpdateQueryParams;
+        Body: UpdateTaskInput;
+      }>,
       reply: FastifyReply,
     ) => {
-      const { id } = request.params;
-      const { title, description, status } = request.body;
-      const userId = request.userId;
-
-      if (status && !Object.values(TaskStatus).includes(status)) {
-        throw new ValidationError(`Invalid status: ${status}`);
-      }
-
-      const updateData: Partial<UpdateTaskBody> = {};
-      if (title !== undefined) updateData.title = title;
-      if (description !== undefined) updateData.description = description;
-      if (status !== undefined) updateData.status = status;
-
-      if (Object.keys(updateData).length === 0) {
-        throw new ValidationError('No valid fields provided for update');
-      }
-
-      const task = await Task.findOneAndUpdate(
-        { _id: id, userId },
-        { $set: updateData },
-        { new: true, runValidators: true },
-      );
-
-      if (!task) {
-        throw new NotFoundError('Task not found');
-      }
+      const task = await updateTask(request.params.id, request.userId, request.body, {
+        occurrences: request.query.occurrences,
+        versions: ifMatchVersions(request.headers['if-match']),
+      });
 
-      return reply.send({ data: task });
+      return reply.header('etag', taskETag(task)).send({ data: task });
     },
   );
 
-  // DELETE /tasks/:id - Delete a task
-  fastify.delete<{ Params: TaskParams }>(
+  // DELETE /tasks/:id - Move a task to the trash, or erase it with ?permanent=true
+  // (owner or project admins only); honours If-Match like PATCH
+  fastify.delete<{ Params: TaskParams; Querystring: DeleteQueryParams }>(
     '/tasks/:id',
-    async (request: FastifyRequest<{ Params: TaskParams }>, reply: FastifyReply) => {
-      const { id } = request.params;
-      const userId = request.userId;
-
-      const task = await Task.findOneAndDelete({ _id: id, userId });
+    {
+      schema: {
+        params: idParams('id'),
+        querystring: {
+          type: 'object',
+          properties: {
+            permanent: { type: 'boolean' },
+          },
+        },
+        response: {
+          204: noContentResponse,
+          ...errorResponses(400, 401, 403, 404, 412),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: TaskParams; Querystring: DeleteQueryParams }>,
+      reply: FastifyReply,
+    ) => {
+      const { permanent = false } = request.query;
 
-      if (!task) {
-        throw new NotFoundError('Task not found');
-      }
+      await deleteTask(request.params.id, request.userId, {
+        permanent,
+        versions: ifMatchVersions(request.headers['if-match']),
+      });
 
       return reply.status(204).send();
     },
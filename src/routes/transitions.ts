@@ -0,0 +1,172 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { type Types } from 'mongoose';
+import { Task, TaskStatus } from '../models/Task';
+import { authMiddleware } from '../middleware/auth';
+import { idempotencyMiddleware, saveIdempotentResponse } from '../middleware/idempotency';
+import { ConflictError, NotFoundError, PreconditionFailedError } from '../utils/errors';
+import { ifMatchVersions, taskETag } from '../utils/etag';
+import { TaskAccessLevel, resolveAccessError, taskAccessFilter } from '../services/taskAccess';
+import { getWorkflow, planStatusChange } from '../services/workflow';
+import { recordAudit } from '../services/audit';
+import { refreshProgress } from '../services/taskGraph';
+import { TaskEventType, publishTaskEvent } from '../services/events';
+import { advanceOnCompletion, assertCanAdvance } from '../services/recurrence';
+import { versionFilter } from '../services/taskService';
+import { AuditAction } from '../models/AuditEntry';
+import { dataResponse, errorResponses, idParams } from '../schemas/common';
+import { statusChangeSchema, taskSchema } from '../schemas/task';
+
+interface TaskParams {
+  id: string;
+}
+
+interface TransitionBody {
+  to: TaskStatus;
+  comment?: string;
+}
+
+const transitionsSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: Object.values(TaskStatus) },
+    allowed: { type: 'array', items: { type: 'string', enum: Object.values(TaskStatus) } },
+    history: { type: 'array', items: statusChangeSchema },
+  },
+};
+
+export async function transitionRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // Replay retried mutations that carry an Idempotency-Key
+  fastify.addHook('preHandler', idempotencyMiddleware);
+  fastify.addHook('onSend', saveIdempotentResponse);
+
+  // GET /tasks/:id/transitions - Current status, allowed next statuses and status history
+  fastify.get<{ Params: TaskParams }>(
+    '/tasks/:id/transitions',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          200: dataResponse('Where the task can move next', transitionsSchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: TaskParams }>, reply: FastifyReply) => {
+      const { id } = request.params;
+
+      const task = await Task.findOne({
+        _id: id,
+        ...(await taskAccessFilter(request.userId, TaskAccessLevel.READ)),
+      })
+        .select('status projectId statusHistory')
+        .lean();
+
+      if (!task) {
+        throw new NotFoundError('Task not found');
+      }
+
+      const workflow = await getWorkflow(task.projectId);
+
+      return reply.send({
+        data: {
+          status: task.status,
+          allowed: workflow[task.status] ?? [],
+          history: task.statusHistory,
+        },
+      });
+    },
+  );
+
+  // POST /tasks/:id/transitions - Move a task to another status (honours If-Match)
+  fastify.post<{ Params: TaskParams; Body: TransitionBody }>(
+    '/tasks/:id/transitions',
+    {
+      schema: {
+        params: idParams('id'),
+        body: {
+          type: 'object',
+          required: ['to'],
+          properties: {
+            to: { type: 'string', enum: Object.values(TaskStatus) },
+            comment: { type: 'string', maxLength: 500 },
+          },
+        },
+        response: {
+          201: dataResponse('The task after the transition', taskSchema),
+          ...errorResponses(400, 401, 403, 404, 409, 412, 422),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: TaskParams; Body: TransitionBody }>,
+      reply: FastifyReply,
+    ) => {
+      const { id } = request.params;
+      const { to, comment } = request.body;
+      const userId = request.userId;
+
+      const versions = ifMatchVersions(request.headers['if-match']);
+
+      const filter = { _id: id, ...(await taskAccessFilter(userId, TaskAccessLevel.WRITE)) };
+      const current = await Task.findOne(filter)
+        .select('status projectId parentId blockedBy recurrence version')
+        .lean();
+
+      if (!current) {
+        throw await resolveAccessError(id, userId);
+      }
+
+      if (versions && !versions.includes(current.version ?? 0)) {
+        throw new PreconditionFailedError('Task has changed since it was fetched');
+      }
+
+      const change = await planStatusChange(current, to, userId, comment);
+
+      if (!change) {
+        throw new ConflictError(`Task is already "${to}"`);
+      }
+
+      await assertCanAdvance(current, to);
+
+      // Guard against a concurrent change between the checks and the update
+      const task = await Task.findOneAndUpdate(
+        {
+          ...filter,
+          status: current.status,
+          ...(versions ? versionFilter([current.version ?? 0]) : {}),
+        },
+        { $set: { status: to }, $push: { statusHistory: change } },
+        { new: true, runValidators: true },
+      );
+
+      if (!task) {
+        if (versions) {
+          throw new PreconditionFailedError('Task has changed since it was fetched');
+        }
+        throw new ConflictError('Task status was changed concurrently, please retry');
+      }
+
+      const changes = [{ field: 'status', before: change.from, after: change.to }];
+
+      await recordAudit(task._id as Types.ObjectId, userId, AuditAction.UPDATED, changes);
+      await refreshProgress([task.parentId]);
+
+      const snapshot = task.toObject();
+      publishTaskEvent(TaskEventType.UPDATED, task, { task: snapshot, changes }, userId);
+      publishTaskEvent(
+        TaskEventType.STATUS_CHANGED,
+        task,
+        { task: snapshot, from: change.from, to: change.to },
+        userId,
+      );
+
+      // Completing an occurrence of a recurring task creates the next one
+      await advanceOnCompletion(task, userId);
+
+      return reply.status(201).header('etag', taskETag(task)).send({ data: task });
+    },
+  );
+}
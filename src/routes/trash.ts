@@ -0,0 +1,119 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { type Types } from 'mongoose';
+import { Task } from '../models/Task';
+import { AuditAction } from '../models/AuditEntry';
+import { authMiddleware } from '../middleware/auth';
+import { idempotencyMiddleware, saveIdempotentResponse } from '../middleware/idempotency';
+import { TaskAccessLevel, resolveAccessError, taskAccessFilter } from '../services/taskAccess';
+import { recordAudit } from '../services/audit';
+import { refreshProgress } from '../services/taskGraph';
+import { TaskEventType, publishTaskEvent } from '../services/events';
+import { dataResponse, errorResponses, idParams, pageResponse } from '../schemas/common';
+import { taskSchema } from '../schemas/task';
+
+interface TaskParams {
+  id: string;
+}
+
+interface TrashQueryParams {
+  page?: string;
+  limit?: string;
+}
+
+export async function trashRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // Replay retried mutations that carry an Idempotency-Key
+  fastify.addHook('preHandler', idempotencyMiddleware);
+  fastify.addHook('onSend', saveIdempotentResponse);
+
+  // GET /tasks/trash - Get trashed tasks the authenticated user can restore
+  fastify.get<{ Querystring: TrashQueryParams }>(
+    '/tasks/trash',
+    {
+      schema: {
+        querystring: {
+          type: 'object',
+          properties: {
+            page: { type: 'string', pattern: '^[1-9][0-9]*$' },
+            limit: { type: 'string', pattern: '^[1-9][0-9]*$' },
+          },
+        },
+        response: {
+          200: pageResponse('A page of trashed tasks', taskSchema),
+          ...errorResponses(400, 401),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: TrashQueryParams }>, reply: FastifyReply) => {
+      const { page: pageParam = '1', limit: limitParam = '50' } = request.query;
+
+      const page = parseInt(pageParam, 10);
+      const limit = parseInt(limitParam, 10);
+
+      const query = await taskAccessFilter(request.userId, TaskAccessLevel.OWNER, {
+        trashed: true,
+      });
+      const skip = (page - 1) * limit;
+
+      const [tasks, total] = await Promise.all([
+        Task.find(query).sort({ deletedAt: -1 }).skip(skip).limit(limit).lean(),
+        Task.countDocuments(query),
+      ]);
+
+      return reply.send({
+        data: tasks,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    },
+  );
+
+  // POST /tasks/:id/restore - Bring a task back from the trash
+  fastify.post<{ Params: TaskParams }>(
+    '/tasks/:id/restore',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          200: dataResponse('The restored task', taskSchema),
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: TaskParams }>, reply: FastifyReply) => {
+      const { id } = request.params;
+      const userId = request.userId;
+
+      const task = await Task.findOneAndUpdate(
+        {
+          _id: id,
+          ...(await taskAccessFilter(userId, TaskAccessLevel.OWNER, { trashed: true })),
+        },
+        { $set: { deletedAt: null, deletedBy: null } },
+        { new: false },
+      );
+
+      if (!task) {
+        throw await resolveAccessError(id, userId, { trashed: true });
+      }
+
+      await recordAudit(task._id as Types.ObjectId, userId, AuditAction.RESTORED, [
+        { field: 'deletedAt', before: task.deletedAt, after: null },
+      ]);
+      await refreshProgress([task.parentId]);
+
+      task.deletedAt = null;
+      task.deletedBy = null;
+
+      publishTaskEvent(TaskEventType.RESTORED, task, { task: task.toObject() }, userId);
+
+      return reply.send({ data: task });
+    },
+  );
+}
@@ -0,0 +1,223 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { authMiddleware } from '../middleware/auth';
+import { idempotencyMiddleware, saveIdempotentResponse } from '../middleware/idempotency';
+import {
+  taskListFilterProperties,
+  taskPaginationProperties,
+  type TaskPageOptions,
+} from '../services/taskQuery';
+import {
+  MAX_SHARED_USERS,
+  createView,
+  deleteView,
+  findReadableView,
+  listViews,
+  runView,
+  updateView,
+  type CreateViewInput,
+  type UpdateViewInput,
+} from '../services/views';
+import {
+  dataResponse,
+  dateTimeSchema,
+  errorResponses,
+  idParams,
+  noContentResponse,
+  pageResponse,
+} from '../schemas/common';
+import { taskSchema } from '../schemas/task';
+
+interface ViewParams {
+  id: string;
+}
+
+interface ViewListQueryParams {
+  page?: string;
+  limit?: string;
+}
+
+const viewProperties = {
+  name: { type: 'string', minLength: 1, maxLength: 100 },
+  description: { type: 'string', maxLength: 500 },
+  filters: {
+    type: 'object',
+    properties: taskListFilterProperties,
+    additionalProperties: false,
+  },
+  sharedWith: {
+    type: 'array',
+    maxItems: MAX_SHARED_USERS,
+    uniqueItems: true,
+    items: { type: 'string', minLength: 1 },
+  },
+};
+
+const viewSchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    _id: { type: 'string' },
+    userId: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    filters: {
+      type: 'object',
+      additionalProperties: true,
+      description: 'Query parameters of GET /tasks',
+    },
+    sharedWith: { type: 'array', items: { type: 'string' } },
+    createdAt: dateTimeSchema,
+    updatedAt: dateTimeSchema,
+  },
+};
+
+export async function viewRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // Replay retried mutations that carry an Idempotency-Key
+  fastify.addHook('preHandler', idempotencyMiddleware);
+  fastify.addHook('onSend', saveIdempotentResponse);
+
+  // GET /views - Views the authenticated user owns or that were shared with them, by name
+  fastify.get<{ Querystring: ViewListQueryParams }>(
+    '/views',
+    {
+      schema: {
+        querystring: {
+          type: 'object',
+          properties: {
+            page: { type: 'string', pattern: '^[1-9][0-9]*$' },
+            limit: { type: 'string', pattern: '^[1-9][0-9]*$' },
+          },
+        },
+        response: {
+          200: pageResponse('A page of views', viewSchema),
+          ...errorResponses(400, 401),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Querystring: ViewListQueryParams }>, reply: FastifyReply) => {
+      const { page: pageParam = '1', limit: limitParam = '50' } = request.query;
+
+      const page = parseInt(pageParam, 10);
+      const limit = Math.min(parseInt(limitParam, 10), 100);
+
+      return reply.send(await listViews(request.userId, page, limit));
+    },
+  );
+
+  // POST /views - Save a named set of list filters, optionally shared with other users
+  fastify.post<{ Body: CreateViewInput }>(
+    '/views',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['name'],
+          properties: viewProperties,
+          additionalProperties: false,
+        },
+        response: {
+          201: dataResponse('The new view', viewSchema),
+          ...errorResponses(400, 401, 403, 404, 409),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CreateViewInput }>, reply: FastifyReply) => {
+      const view = await createView(request.userId, request.body);
+
+      return reply.status(201).send({ data: view });
+    },
+  );
+
+  // GET /views/:id - Get a view
+  fastify.get<{ Params: ViewParams }>(
+    '/views/:id',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          200: dataResponse('The view', viewSchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: ViewParams }>, reply: FastifyReply) => {
+      const view = await findReadableView(request.params.id, request.userId);
+
+      return reply.send({ data: view });
+    },
+  );
+
+  // PATCH /views/:id - Rename a view, change its filters or who it is shared with (owner only)
+  fastify.patch<{ Params: ViewParams; Body: UpdateViewInput }>(
+    '/views/:id',
+    {
+      schema: {
+        params: idParams('id'),
+        body: {
+          type: 'object',
+          properties: viewProperties,
+          additionalProperties: false,
+        },
+        response: {
+          200: dataResponse('The updated view', viewSchema),
+          ...errorResponses(400, 401, 403, 404, 409),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: ViewParams; Body: UpdateViewInput }>,
+      reply: FastifyReply,
+    ) => {
+      const view = await updateView(request.params.id, request.userId, request.body);
+
+      return reply.send({ data: view });
+    },
+  );
+
+  // DELETE /views/:id - Delete a view, or stop seeing one that was shared with me
+  fastify.delete<{ Params: ViewParams }>(
+    '/views/:id',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          204: noContentResponse,
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: ViewParams }>, reply: FastifyReply) => {
+      await deleteView(request.params.id, request.userId);
+
+      return reply.status(204).send();
+    },
+  );
+
+  // GET /views/:id/tasks - Run a view with page or cursor paging. Shared views run with the
+  // caller's own access, so they only ever list tasks the caller could list themselves
+  fastify.get<{ Params: ViewParams; Querystring: TaskPageOptions }>(
+    '/views/:id/tasks',
+    {
+      schema: {
+        params: idParams('id'),
+        querystring: {
+          type: 'object',
+          properties: taskPaginationProperties,
+        },
+        response: {
+          200: pageResponse('A page of the tasks the view matches', taskSchema),
+          ...errorResponses(400, 401, 403, 404),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: ViewParams; Querystring: TaskPageOptions }>,
+      reply: FastifyReply,
+    ) => {
+      return reply.send(await runView(request.params.id, request.userId, request.query));
+    },
+  );
+}
@@ -0,0 +1,364 @@
+import { type FastifyInstance, type FastifyRequest, type FastifyReply } from 'fastify';
+import { Webhook, type IWebhook } from '../models/Webhook';
+import { DeliveryStatus, WebhookDelivery } from '../models/WebhookDelivery';
+import { authMiddleware } from '../middleware/auth';
+import { idempotencyMiddleware, saveIdempotentResponse } from '../middleware/idempotency';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { generateWebhookSecret } from '../utils/signature';
+import { TaskEventType } from '../services/events';
+import {
+  dataResponse,
+  dateTimeSchema,
+  errorResponses,
+  idParams,
+  listResponse,
+  noContentResponse,
+  nullableDateTimeSchema,
+  pageResponse,
+} from '../schemas/common';
+
+interface CreateWebhookBody {
+  url: string;
+  events: TaskEventType[];
+  secret?: string;
+  active?: boolean;
+}
+
+interface UpdateWebhookBody {
+  url?: string;
+  events?: TaskEventType[];
+  active?: boolean;
+}
+
+interface WebhookParams {
+  id: string;
+}
+
+interface DeliveryParams extends WebhookParams {
+  deliveryId: string;
+}
+
+interface DeliveryQueryParams {
+  page?: string;
+  limit?: string;
+  status?: DeliveryStatus;
+}
+
+const webhookProperties = {
+  url: { type: 'string', minLength: 1, maxLength: 2000 },
+  events: {
+    type: 'array',
+    minItems: 1,
+    uniqueItems: true,
+    items: { type: 'string', enum: Object.values(TaskEventType) },
+  },
+  active: { type: 'boolean' },
+};
+
+const webhookSchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    _id: { type: 'string' },
+    userId: { type: 'string' },
+    url: { type: 'string' },
+    events: { type: 'array', items: { type: 'string', enum: Object.values(TaskEventType) } },
+    secret: { type: 'string', description: 'Only returned when the subscription is created' },
+    active: { type: 'boolean' },
+    createdAt: dateTimeSchema,
+    updatedAt: dateTimeSchema,
+  },
+};
+
+const deliverySchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    _id: { type: 'string' },
+    webhookId: { type: 'string' },
+    userId: { type: 'string' },
+    eventId: { type: 'string' },
+    eventType: { type: 'string', enum: Object.values(TaskEventType) },
+    payload: { type: 'object', additionalProperties: true },
+    status: { type: 'string', enum: Object.values(DeliveryStatus) },
+    attempts: { type: 'integer' },
+    nextAttemptAt: nullableDateTimeSchema,
+    lastAttemptAt: nullableDateTimeSchema,
+    responseStatus: { type: ['integer', 'null'] },
+    error: { type: ['string', 'null'] },
+    createdAt: dateTimeSchema,
+  },
+};
+
+// Deliveries leave the server, so only plain http(s) URLs are accepted
+function assertValidUrl(url: string) {
+  let parsed: URL;
+
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ValidationError('url must be an absolute URL');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new ValidationError('url must use http or https');
+  }
+}
+
+async function findWebhook(id: string, userId: string) {
+  const webhook = await Webhook.findOne({ _id: id, userId });
+
+  if (!webhook) {
+    throw new NotFoundError('Webhook not found');
+  }
+
+  return webhook;
+}
+
+export async function webhookRoutes(fastify: FastifyInstance) {
+  // Apply auth middleware to all routes
+  fastify.addHook('preHandler', authMiddleware);
+
+  // Replay retried mutations that carry an Idempotency-Key
+  fastify.addHook('preHandler', idempotencyMiddleware);
+  fastify.addHook('onSend', saveIdempotentResponse);
+
+  // GET /webhooks - Get the authenticated user's webhook subscriptions
+  fastify.get(
+    '/webhooks',
+    {
+      schema: {
+        response: {
+          200: listResponse("The user's webhook subscriptions", webhookSchema),
+          ...errorResponses(401),
+        },
+      },
+    },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const webhooks = await Webhook.find({ userId: request.userId })
+        .sort({ createdAt: -1 })
+        .lean();
+
+      return reply.send({ data: webhooks });
+    },
+  );
+
+  // POST /webhooks - Subscribe a URL to task events; the signing secret is only returned here
+  fastify.post<{ Body: CreateWebhookBody }>(
+    '/webhooks',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['url', 'events'],
+          properties: {
+            ...webhookProperties,
+            secret: { type: 'string', minLength: 16, maxLength: 200 },
+          },
+        },
+        response: {
+          201: dataResponse('The new subscription, with its signing secret', webhookSchema),
+          ...errorResponses(400, 401),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Body: CreateWebhookBody }>, reply: FastifyReply) => {
+      const { url, events, secret = generateWebhookSecret(), active = true } = request.body;
+
+      assertValidUrl(url);
+
+      const webhook = await Webhook.create({
+        userId: request.userId,
+        url,
+        events,
+        secret,
+        active,
+      });
+
+      return reply.status(201).send({ data: { ...webhook.toObject(), secret } });
+    },
+  );
+
+  // GET /webhooks/:id - Get a single webhook subscription
+  fastify.get<{ Params: WebhookParams }>(
+    '/webhooks/:id',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          200: dataResponse('The subscription', webhookSchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: WebhookParams }>, reply: FastifyReply) => {
+      const webhook = await findWebhook(request.params.id, request.userId);
+
+      return reply.send({ data: webhook });
+    },
+  );
+
+  // PATCH /webhooks/:id - Change a subscription's URL or events, or pause it
+  fastify.patch<{ Params: WebhookParams; Body: UpdateWebhookBody }>(
+    '/webhooks/:id',
+    {
+      schema: {
+        params: idParams('id'),
+        body: {
+          type: 'object',
+          properties: webhookProperties,
+        },
+        response: {
+          200: dataResponse('The updated subscription', webhookSchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: WebhookParams; Body: UpdateWebhookBody }>,
+      reply: FastifyReply,
+    ) => {
+      const { url, events, active } = request.body;
+
+      const updateData: Partial<Pick<IWebhook, 'url' | 'events' | 'active'>> = {};
+      if (url !== undefined) updateData.url = url;
+      if (events !== undefined) updateData.events = events;
+      if (active !== undefined) updateData.active = active;
+
+      if (Object.keys(updateData).length === 0) {
+        throw new ValidationError('No valid fields provided for update');
+      }
+
+      if (url !== undefined) {
+        assertValidUrl(url);
+      }
+
+      const webhook = await Webhook.findOneAndUpdate(
+        { _id: request.params.id, userId: request.userId },
+        { $set: updateData },
+        { new: true, runValidators: true },
+      );
+
+      if (!webhook) {
+        throw new NotFoundError('Webhook not found');
+      }
+
+      return reply.send({ data: webhook });
+    },
+  );
+
+  // DELETE /webhooks/:id - Remove a subscription along with its delivery log
+  fastify.delete<{ Params: WebhookParams }>(
+    '/webhooks/:id',
+    {
+      schema: {
+        params: idParams('id'),
+        response: {
+          204: noContentResponse,
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: WebhookParams }>, reply: FastifyReply) => {
+      const webhook = await Webhook.findOneAndDelete({
+        _id: request.params.id,
+        userId: request.userId,
+      });
+
+      if (!webhook) {
+        throw new NotFoundError('Webhook not found');
+      }
+
+      await WebhookDelivery.deleteMany({ webhookId: webhook._id });
+
+      return reply.status(204).send();
+    },
+  );
+
+  // GET /webhooks/:id/deliveries - Page through a subscription's delivery log, newest first
+  fastify.get<{ Params: WebhookParams; Querystring: DeliveryQueryParams }>(
+    '/webhooks/:id/deliveries',
+    {
+      schema: {
+        params: idParams('id'),
+        querystring: {
+          type: 'object',
+          properties: {
+            page: { type: 'string', pattern: '^[1-9][0-9]*$' },
+            limit: { type: 'string', pattern: '^[1-9][0-9]*$' },
+            status: { type: 'string', enum: Object.values(DeliveryStatus) },
+          },
+        },
+        response: {
+          200: pageResponse('A page of deliveries', deliverySchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (
+      request: FastifyRequest<{ Params: WebhookParams; Querystring: DeliveryQueryParams }>,
+      reply: FastifyReply,
+    ) => {
+      const { page: pageParam = '1', limit: limitParam = '50', status } = request.query;
+
+      const page = parseInt(pageParam, 10);
+      const limit = Math.min(parseInt(limitParam, 10), 100);
+
+      const webhook = await findWebhook(request.params.id, request.userId);
+
+      const query = { webhookId: webhook._id, ...(status && { status }) };
+      const skip = (page - 1) * limit;
+
+      const [deliveries, total] = await Promise.all([
+        WebhookDelivery.find(query)
+          .select('-lockedUntil')
+          .sort({ createdAt: -1, _id: -1 })
+          .skip(skip)
+          .limit(limit)
+          .lean(),
+        WebhookDelivery.countDocuments(query),
+      ]);
+
+      return reply.send({
+        data: deliveries,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    },
+  );
+
+  // POST /webhooks/:id/deliveries/:deliveryId/redeliver - Queue a delivery to be sent again
+  fastify.post<{ Params: DeliveryParams }>(
+    '/webhooks/:id/deliveries/:deliveryId/redeliver',
+    {
+      schema: {
+        params: idParams('id', 'deliveryId'),
+        response: {
+          202: dataResponse('The delivery, queued to be sent again', deliverySchema),
+          ...errorResponses(400, 401, 404),
+        },
+      },
+    },
+    async (request: FastifyRequest<{ Params: DeliveryParams }>, reply: FastifyReply) => {
+      const webhook = await findWebhook(request.params.id, request.userId);
+
+      const delivery = await WebhookDelivery.findOneAndUpdate(
+        { _id: request.params.deliveryId, webhookId: webhook._id },
+        {
+          $set: { status: DeliveryStatus.PENDING, attempts: 0, nextAttemptAt: new Date() },
+        },
+        { new: true },
+      ).select('-lockedUntil');
+
+      if (!delivery) {
+        throw new NotFoundError('Delivery not found');
+      }
+
+      return reply.status(202).send({ data: delivery });
+    },
+  );
+}
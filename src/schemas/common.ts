@@ -0,0 +1,98 @@
+// JSON schemas shared by the route definitions; they validate requests, shape
+// responses and are published as the OpenAPI document
+
+export const objectIdSchema = { type: 'string', pattern: '^[a-f0-9]{24}$' };
+
+export const dateTimeSchema = { type: 'string', format: 'date-time' };
+
+export const nullableDateTimeSchema = { type: ['string', 'null'], format: 'date-time' };
+
+// Query parameters that take either a full timestamp or just a date
+export const dateOrDateTimeQuerySchema = {
+  anyOf: [
+    { type: 'string', format: 'date-time' },
+    { type: 'string', format: 'date' },
+  ],
+};
+
+// The body of every error response, from the global error handler and from Fastify itself
+export const errorSchema = {
+  type: 'object',
+  required: ['error', 'message'],
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+  },
+};
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'Invalid request',
+  401: 'Missing or invalid credentials',
+  403: 'Not allowed',
+  404: 'Not found',
+  409: 'Conflicts with the current state',
+  412: 'If-Match does not match the current version',
+  413: 'Payload too large',
+  415: 'Unsupported media type',
+  422: 'Not allowed by the workflow',
+  429: 'Rate limit exceeded',
+};
+
+// Response schemas for the error status codes a route can return
+export function errorResponses(...statusCodes: number[]): Record<number, object> {
+  return Object.fromEntries(
+    statusCodes.map((statusCode) => [
+      statusCode,
+      { description: ERROR_DESCRIPTIONS[statusCode], ...errorSchema },
+    ]),
+  );
+}
+
+export const noContentResponse = { description: 'No content', type: 'null' };
+
+// Params made of ObjectIds, e.g. idParams('id', 'commentId')
+export function idParams(...names: string[]) {
+  return {
+    type: 'object',
+    required: names,
+    properties: Object.fromEntries(names.map((name) => [name, objectIdSchema])),
+  };
+}
+
+// A `{ data }` envelope around a single resource
+export function dataResponse(description: string, schema: object) {
+  return {
+    description,
+    type: 'object',
+    properties: { data: schema },
+  };
+}
+
+export const paginationSchema = {
+  type: 'object',
+  properties: {
+    page: { type: 'integer' },
+    limit: { type: 'integer' },
+    total: { type: 'integer' },
+    totalPages: { type: 'integer' },
+    nextCursor: { type: ['string', 'null'] },
+    prevCursor: { type: ['string', 'null'] },
+  },
+};
+
+// A `{ data, pagination }` envelope around a page of resources
+export function pageResponse(description: string, itemSchema: object) {
+  return {
+    description,
+    type: 'object',
+    properties: {
+      data: { type: 'array', items: itemSchema },
+      pagination: paginationSchema,
+    },
+  };
+}
+
+// A `{ data }` envelope around a list that is not paginated
+export function listResponse(description: string, itemSchema: object) {
+  return dataResponse(description, { type: 'array', items: itemSchema });
+}
@@ -0,0 +1,112 @@
+import { CollaboratorRole, TaskPriority, TaskStatus } from '../models/Task';
+import { RecurrenceTrigger } from '../models/TaskSeries';
+import { dateTimeSchema, nullableDateTimeSchema, objectIdSchema } from './common';
+
+const nullableObjectIdSchema = { type: ['string', 'null'], pattern: objectIdSchema.pattern };
+
+export const collaboratorSchema = {
+  type: 'object',
+  properties: {
+    userId: { type: 'string' },
+    role: { type: 'string', enum: Object.values(CollaboratorRole) },
+    addedAt: dateTimeSchema,
+  },
+};
+
+export const statusChangeSchema = {
+  type: 'object',
+  properties: {
+    from: { type: ['string', 'null'] },
+    to: { type: 'string' },
+    changedBy: { type: 'string' },
+    changedAt: dateTimeSchema,
+    comment: { type: 'string' },
+  },
+};
+
+// Extra fields pass through: list projections, search highlights and scores add their own
+export const taskSchema = {
+  type: 'object',
+  additionalProperties: true,
+  properties: {
+    _id: { type: 'string' },
+    title: { type: 'string' },
+    description: { type: 'string' },
+    status: { type: 'string', enum: Object.values(TaskStatus) },
+    priority: { type: 'string', enum: Object.values(TaskPriority) },
+    labels: { type: 'array', items: { type: 'string' } },
+    userId: { type: 'string' },
+    assigneeId: { type: ['string', 'null'] },
+    projectId: { type: ['string', 'null'] },
+    parentId: { type: ['string', 'null'] },
+    blockedBy: { type: 'array', items: { type: 'string' } },
+    progress: {
+      type: 'object',
+      properties: {
+        total: { type: 'integer' },
+        done: { type: 'integer' },
+      },
+    },
+    commentCount: { type: 'integer' },
+    recurrence: {
+      type: ['object', 'null'],
+      properties: {
+        seriesId: { type: 'string' },
+        index: { type: 'integer' },
+        occursAt: dateTimeSchema,
+      },
+    },
+    collaborators: {
+      type: 'array',
+      items: collaboratorSchema,
+    },
+    statusHistory: {
+      type: 'array',
+      items: statusChangeSchema,
+    },
+    startAt: nullableDateTimeSchema,
+    dueAt: nullableDateTimeSchema,
+    deletedAt: nullableDateTimeSchema,
+    deletedBy: { type: ['string', 'null'] },
+    version: { type: 'integer' },
+    createdAt: dateTimeSchema,
+    updatedAt: dateTimeSchema,
+  },
+};
+
+// Fields a client can set on create and update; taskService still applies the
+// rules that need the database, such as access to the project and parent
+const taskInputProperties = {
+  title: { type: 'string', minLength: 1, maxLength: 200 },
+  description: { type: 'string', minLength: 1, maxLength: 2000 },
+  status: { type: 'string', enum: Object.values(TaskStatus) },
+  priority: { type: 'string', enum: Object.values(TaskPriority) },
+  labels: { type: 'array', items: { type: 'string' } },
+  assigneeId: { type: ['string', 'null'] },
+  projectId: nullableObjectIdSchema,
+  parentId: nullableObjectIdSchema,
+  startAt: { type: ['string', 'null'], description: 'ISO 8601 date' },
+  dueAt: { type: ['string', 'null'], description: 'ISO 8601 date' },
+};
+
+export const createTaskBodySchema = {
+  type: 'object',
+  required: ['title', 'description'],
+  properties: {
+    ...taskInputProperties,
+    recurrence: {
+      type: 'object',
+      required: ['rule'],
+      properties: {
+        rule: { type: 'string', minLength: 1, description: 'iCalendar RRULE' },
+        trigger: { type: 'string', enum: Object.values(RecurrenceTrigger) },
+      },
+    },
+  },
+};
+
+export const updateTaskBodySchema = {
+  type: 'object',
+  minProperties: 1,
+  properties: taskInputProperties,
+};
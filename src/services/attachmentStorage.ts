@@ -0,0 +1,125 @@
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, rm, stat } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { type Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import mongoose from 'mongoose';
+import { StorageDriver, getStorageConfig } from '../config/storage';
+import { NotFoundError } from '../utils/errors';
+
+/**
+ * Where attachment contents live. Files are addressed by their attachment's id;
+ * metadata (name, type, size) stays in the Attachment collection.
+ */
+export interface AttachmentStorage {
+  save(key: string, content: Readable, contentType: string): Promise<void>;
+  // Throws NotFoundError when the file is missing
+  open(key: string): Promise<Readable>;
+  // Removing a missing file is not an error
+  remove(key: string): Promise<void>;
+}
+
+// Keys are attachment ids; anything else could escape the storage directory
+function assertValidKey(key: string) {
+  if (!/^[0-9a-f]{24}$/.test(key)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+export class LocalAttachmentStorage implements AttachmentStorage {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = resolve(directory);
+  }
+
+  private pathFor(key: string): string {
+    assertValidKey(key);
+
+    // Spread files over subdirectories by the last two characters of their key
+    return join(this.directory, key.slice(-2), key);
+  }
+
+  async save(key: string, content: Readable): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(join(path, '..'), { recursive: true });
+
+    try {
+      await pipeline(content, createWriteStream(path, { flags: 'wx' }));
+    } catch (error) {
+      await rm(path, { force: true });
+      throw error;
+    }
+  }
+
+  async open(key: string): Promise<Readable> {
+    const path = this.pathFor(key);
+
+    try {
+      await stat(path);
+    } catch {
+      throw new NotFoundError('Attachment file not found');
+    }
+
+    return createReadStream(path);
+  }
+
+  async remove(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+}
+
+export class GridFSAttachmentStorage implements AttachmentStorage {
+  private bucket() {
+    return new mongoose.mongo.GridFSBucket(mongoose.connection.db!, {
+      bucketName: 'attachments',
+    });
+  }
+
+  async save(key: string, content: Readable, contentType: string): Promise<void> {
+    assertValidKey(key);
+    const id = new mongoose.mongo.ObjectId(key);
+    const upload = this.bucket().openUploadStreamWithId(id, key, { metadata: { contentType } });
+
+    try {
+      await pipeline(content, upload);
+    } catch (error) {
+      await this.remove(key);
+      throw error;
+    }
+  }
+
+  async open(key: string): Promise<Readable> {
+    assertValidKey(key);
+    const id = new mongoose.mongo.ObjectId(key);
+    const bucket = this.bucket();
+
+    if (!(await bucket.find({ _id: id }).hasNext())) {
+      throw new NotFoundError('Attachment file not found');
+    }
+
+    return bucket.openDownloadStream(id);
+  }
+
+  async remove(key: string): Promise<void> {
+    assertValidKey(key);
+    const id = new mongoose.mongo.ObjectId(key);
+    const bucket = this.bucket();
+
+    // delete() throws for a missing file; an aborted upload may also have left chunks only
+    if (await bucket.find({ _id: id }).hasNext()) {
+      await bucket.delete(id);
+    } else {
+      await mongoose.connection.db!.collection('attachments.chunks').deleteMany({ files_id: id });
+    }
+  }
+}
+
+export function attachmentStorage(driver: StorageDriver): AttachmentStorage {
+  switch (driver) {
+    case StorageDriver.LOCAL:
+      return new LocalAttachmentStorage(getStorageConfig().directory);
+    case StorageDriver.GRIDFS:
+      return new GridFSAttachmentStorage();
+  }
+}
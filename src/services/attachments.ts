@@ -0,0 +1,97 @@
+import { Readable } from 'node:stream';
+import { type MultipartFile } from '@fastify/multipart';
+import { type FilterQuery, type Types } from 'mongoose';
+import { getStorageConfig } from '../config/storage';
+import { Attachment, type IAttachment } from '../models/Attachment';
+import { PayloadTooLargeError, UnsupportedMediaTypeError, ValidationError } from '../utils/errors';
+import { attachmentStorage } from './attachmentStorage';
+
+function isAllowedType(contentType: string, allowedTypes: string[]): boolean {
+  const type = contentType.toLowerCase();
+  const family = `${type.split('/')[0]}/*`;
+
+  return allowedTypes.includes(type) || allowedTypes.includes(family);
+}
+
+/**
+ * Stores an uploaded file with the configured storage driver and records it on
+ * the task. Files over the size limit are rejected with a 413 and nothing is kept.
+ */
+export async function storeAttachment(
+  taskId: Types.ObjectId,
+  uploaderId: string,
+  file: MultipartFile,
+): Promise<IAttachment> {
+  const { driver, allowedTypes, maxFileBytes } = getStorageConfig();
+  const contentType = file.mimetype || 'application/octet-stream';
+
+  if (!isAllowedType(contentType, allowedTypes)) {
+    // The rest of the upload still has to be read before the response can be sent
+    file.file.resume();
+    throw new UnsupportedMediaTypeError(`Files of type ${contentType} are not accepted`);
+  }
+
+  const filename = file.filename.trim();
+
+  if (!filename) {
+    file.file.resume();
+    throw new ValidationError('The file needs a name');
+  }
+
+  const attachment = new Attachment({
+    taskId,
+    uploaderId,
+    filename,
+    contentType,
+    size: 0,
+    storage: driver,
+  });
+
+  let size = 0;
+  async function* counted(source: AsyncIterable<Buffer>) {
+    for await (const chunk of source) {
+      size += chunk.length;
+      yield chunk;
+    }
+  }
+
+  const storage = attachmentStorage(driver);
+  const key = String(attachment._id);
+  await storage.save(key, Readable.from(counted(file.file)), contentType);
+
+  // The multipart parser cuts a file off at the size limit instead of failing the stream
+  if (file.file.truncated) {
+    await storage.remove(key);
+    throw new PayloadTooLargeError(`Files cannot exceed ${maxFileBytes} bytes`);
+  }
+
+  attachment.size = size;
+
+  try {
+    await attachment.save();
+  } catch (error) {
+    await storage.remove(key);
+    throw error;
+  }
+
+  return attachment;
+}
+
+export async function openAttachment(attachment: IAttachment): Promise<Readable> {
+  return attachmentStorage(attachment.storage).open(String(attachment._id));
+}
+
+// Deletes attachments along with their files; used for single deletes and task erasure
+export async function removeAttachments(filter: FilterQuery<IAttachment>): Promise<number> {
+  const attachments = await Attachment.find(filter).select('storage').lean();
+
+  for (const attachment of attachments) {
+    await attachmentStorage(attachment.storage).remove(String(attachment._id));
+  }
+
+  const result = await Attachment.deleteMany({
+    _id: { $in: attachments.map((attachment) => attachment._id) },
+  });
+
+  return result.deletedCount;
+}
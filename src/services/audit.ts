@@ -0,0 +1,51 @@
+import { type Types } from 'mongoose';
+import { AuditEntry, AuditAction, type IFieldChange } from '../models/AuditEntry';
+
+// Task fields captured in created/deleted snapshots
+export const AUDITED_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'labels',
+  'assigneeId',
+  'projectId',
+  'parentId',
+  'startAt',
+  'dueAt',
+];
+
+function normalize(value: unknown): unknown {
+  // ObjectIds and Dates are stored as their JSON representation so diffs compare by value
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+// Field-level diff between two versions of a document, limited to the given fields
+export function diffFields(before: object, after: object, fields: string[]): IFieldChange[] {
+  const changes: IFieldChange[] = [];
+
+  for (const field of fields) {
+    const previous = normalize((before as Record<string, unknown>)[field]);
+    const next = normalize((after as Record<string, unknown>)[field]);
+
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes.push({ field, before: previous, after: next });
+    }
+  }
+
+  return changes;
+}
+
+export async function recordAudit(
+  taskId: Types.ObjectId | string,
+  actorId: string,
+  action: AuditAction,
+  changes: IFieldChange[],
+): Promise<void> {
+  // Updates that end up changing nothing are not worth an entry
+  if (action === AuditAction.UPDATED && changes.length === 0) {
+    return;
+  }
+
+  await AuditEntry.create({ taskId, actorId, action, changes });
+}
@@ -0,0 +1,231 @@
+import { Task } from '../models/Task';
+import { AppError, ValidationError } from '../utils/errors';
+import { buildTaskListQuery, type TaskListFilters } from './taskQuery';
+import {
+  createTask,
+  deleteTask,
+  updateTask,
+  type CreateTaskInput,
+  type UpdateTaskInput,
+} from './taskService';
+import { transactionsSupported, withTransaction } from './transactions';
+
+export enum BulkAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+}
+
+export enum BulkItemStatus {
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  // Atomic batches only: undone because another item failed, or never attempted
+  ROLLED_BACK = 'rolled_back',
+  SKIPPED = 'skipped',
+}
+
+export const MAX_BULK_ITEMS = 500;
+
+export interface BulkRequest {
+  action: BulkAction;
+  items?: CreateTaskInput[];
+  ids?: string[];
+  filter?: TaskListFilters;
+  changes?: UpdateTaskInput;
+  permanent?: boolean;
+  atomic?: boolean;
+}
+
+export interface BulkItemResult {
+  index: number;
+  id: string | null;
+  status: BulkItemStatus;
+  error?: { statusCode: number; message: string };
+}
+
+export interface BulkReport {
+  action: BulkAction;
+  atomic: boolean;
+  transactional: boolean;
+  committed: boolean;
+  summary: { total: number; succeeded: number; failed: number };
+  results: BulkItemResult[];
+}
+
+// Thrown inside an atomic batch to roll the transaction back after an item failed
+class BulkAbort extends Error {}
+
+// Per-item errors are reported rather than thrown; unexpected ones are not described
+export function describeError(error: unknown): { statusCode: number; message: string } {
+  if (error instanceof AppError) {
+    return { statusCode: error.statusCode, message: error.message };
+  }
+
+  const { name, message } = error as Error;
+
+  if (name === 'CastError') {
+    return { statusCode: 400, message: 'Invalid task ID format' };
+  }
+
+  if (name === 'ValidationError') {
+    return { statusCode: 400, message };
+  }
+
+  return { statusCode: 500, message: 'An unexpected error occurred' };
+}
+
+// The tasks an update or delete applies to: explicit ids, or those matching a list filter
+async function resolveTargets(userId: string, request: BulkRequest): Promise<string[]> {
+  const { ids, filter } = request;
+
+  if ((ids === undefined) === (filter === undefined)) {
+    throw new ValidationError('Provide either ids or filter');
+  }
+
+  if (ids) {
+    return ids;
+  }
+
+  const query = await buildTaskListQuery(userId, filter as TaskListFilters);
+  const matches = await Task.find(query.filter)
+    .select('_id')
+    .limit(MAX_BULK_ITEMS + 1)
+    .lean();
+
+  if (matches.length > MAX_BULK_ITEMS) {
+    throw new ValidationError(
+      `The filter matches more than ${MAX_BULK_ITEMS} tasks, narrow it down or pass ids`,
+    );
+  }
+
+  return matches.map((task) => String(task._id));
+}
+
+// One function per item, returning the id of the task it touched
+async function planOperations(
+  userId: string,
+  request: BulkRequest,
+): Promise<{ id: string | null; run: () => Promise<string> }[]> {
+  switch (request.action) {
+    case BulkAction.CREATE:
+      if (!request.items || request.items.length === 0) {
+        throw new ValidationError('items is required for create');
+      }
+
+      return request.items.map((item) => ({
+        id: null,
+        run: async () => String((await createTask(userId, item))._id),
+      }));
+    case BulkAction.UPDATE: {
+      const { changes } = request;
+
+      if (!changes || Object.keys(changes).length === 0) {
+        throw new ValidationError('changes is required for update');
+      }
+
+      return (await resolveTargets(userId, request)).map((id) => ({
+        id,
+        run: async () => {
+          await updateTask(id, userId, changes);
+          return id;
+        },
+      }));
+    }
+    case BulkAction.DELETE:
+      return (await resolveTargets(userId, request)).map((id) => ({
+        id,
+        run: async () => {
+          await deleteTask(id, userId, { permanent: request.permanent });
+          return id;
+        },
+      }));
+  }
+}
+
+/**
+ * Runs one action over many tasks with the same rules as the single-task routes.
+ *
+ * By default every item succeeds or fails on its own, each in its own transaction
+ * where the deployment supports them. With `atomic`, the whole batch runs in one
+ * transaction and the first failure rolls everything back; this needs a replica set.
+ */
+export async function runBulkOperation(userId: string, request: BulkRequest): Promise<BulkReport> {
+  const { action, atomic = false } = request;
+  const transactional = await transactionsSupported();
+
+  if (atomic && !transactional) {
+    throw new ValidationError('Atomic bulk operations need MongoDB transactions (a replica set)');
+  }
+
+  const operations = await planOperations(userId, request);
+  let results: BulkItemResult[] = [];
+  let committed = true;
+
+  if (atomic) {
+    try {
+      await withTransaction(async () => {
+        // The transaction may be retried, so results start over on each attempt
+        results = operations.map(({ id }, index) => ({
+          index,
+          id,
+          status: BulkItemStatus.SKIPPED,
+        }));
+
+        for (const [index, operation] of operations.entries()) {
+          try {
+            const id = await operation.run();
+            results[index] = { index, id, status: BulkItemStatus.SUCCEEDED };
+          } catch (error) {
+            results[index] = {
+              index,
+              id: operation.id,
+              status: BulkItemStatus.FAILED,
+              error: describeError(error),
+            };
+            throw new BulkAbort();
+          }
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof BulkAbort)) {
+        throw error;
+      }
+
+      committed = false;
+      results = results.map((result) =>
+        result.status === BulkItemStatus.SUCCEEDED
+          ? { ...result, status: BulkItemStatus.ROLLED_BACK }
+          : result,
+      );
+    }
+  } else {
+    for (const [index, operation] of operations.entries()) {
+      try {
+        const id = await withTransaction(operation.run);
+        results.push({ index, id, status: BulkItemStatus.SUCCEEDED });
+      } catch (error) {
+        results.push({
+          index,
+          id: operation.id,
+          status: BulkItemStatus.FAILED,
+          error: describeError(error),
+        });
+      }
+    }
+  }
+
+  const count = (status: BulkItemStatus) => results.filter((r) => r.status === status).length;
+
+  return {
+    action,
+    atomic,
+    transactional,
+    committed,
+    summary: {
+      total: results.length,
+      succeeded: count(BulkItemStatus.SUCCEEDED),
+      failed: count(BulkItemStatus.FAILED),
+    },
+    results,
+  };
+}
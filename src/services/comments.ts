@@ -0,0 +1,65 @@
+import { type Types } from 'mongoose';
+import { Task } from '../models/Task';
+import { User } from '../models/User';
+import { TaskAccessLevel, taskAccessFilter } from './taskAccess';
+
+const MAX_MENTIONS = 20;
+
+// `@` followed by a user id, not preceded by a character that could be part of one (e.g. emails)
+const MENTION_PATTERN = /(?<![A-Za-z0-9_.-])@([A-Za-z0-9_.-]{3,64})/g;
+
+// User ids mentioned in a comment body, in order of first appearance
+export function extractMentions(body: string): string[] {
+  const mentions = [...body.matchAll(MENTION_PATTERN)].map(([, userId]) =>
+    // A sentence ending right after a mention is not part of the user id
+    (userId as string).replace(/[.-]+$/, ''),
+  );
+
+  return [...new Set(mentions)];
+}
+
+/**
+ * The users a comment mentions who exist and can read the task, so a mention
+ * never reveals a task to someone outside it. The author is left out.
+ */
+export async function resolveMentions(
+  taskId: Types.ObjectId,
+  authorId: string,
+  body: string,
+): Promise<string[]> {
+  const candidates = extractMentions(body)
+    .filter((userId) => userId !== authorId)
+    .slice(0, MAX_MENTIONS);
+
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const existing = await User.find({ userId: { $in: candidates } })
+    .select('userId')
+    .lean();
+  const known = new Set(existing.map((user) => user.userId));
+
+  const readable = await Promise.all(
+    candidates
+      .filter((userId) => known.has(userId))
+      .map(async (userId) => {
+        const visible = await Task.exists({
+          _id: taskId,
+          ...(await taskAccessFilter(userId, TaskAccessLevel.READ)),
+        });
+
+        return visible ? userId : null;
+      }),
+  );
+
+  return readable.filter((userId): userId is string => userId !== null);
+}
+
+// Keeps a task's comment count in step without touching its updatedAt or version
+export async function adjustCommentCount(taskId: Types.ObjectId, delta: number): Promise<void> {
+  await Task.updateOne({ _id: taskId }, { $inc: { commentCount: delta } }).setOptions({
+    timestamps: false,
+    skipVersion: true,
+  });
+}
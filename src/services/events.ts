@@ -0,0 +1,123 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import { type ITask } from '../models/Task';
+import { Project } from '../models/Project';
+
+export enum TaskEventType {
+  CREATED = 'task.created',
+  UPDATED = 'task.updated',
+  STATUS_CHANGED = 'task.status_changed',
+  DELETED = 'task.deleted',
+  RESTORED = 'task.restored',
+  REMINDER = 'task.reminder',
+  COMMENTED = 'task.commented',
+}
+
+export interface TaskEvent {
+  id: string;
+  type: TaskEventType;
+  taskId: string;
+  // Owner and project, so consumers can work out who should hear about it
+  userId: string;
+  projectId: string | null;
+  // Users attached to the task itself: owner, assignee and collaborators
+  audience: string[];
+  // Who caused the event; null for scheduled events such as reminders
+  actorId: string | null;
+  occurredAt: Date;
+  data: Record<string, unknown>;
+}
+
+export type TaskEventListener = (event: TaskEvent) => void;
+
+type EventSource = Pick<ITask, 'userId' | 'projectId'> &
+  Partial<Pick<ITask, 'assigneeId' | 'collaborators'>> & { _id: unknown };
+
+// In-process bus for task events; each instance only sees the events it publishes
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+// Events published inside collectTaskEvents() are held back instead of dispatched
+const pending = new AsyncLocalStorage<TaskEvent[]>();
+
+export function publishTaskEvent(
+  type: TaskEventType,
+  task: EventSource,
+  data: Record<string, unknown> = {},
+  actorId: string | null = null,
+): TaskEvent {
+  const audience = new Set([task.userId, ...(task.collaborators ?? []).map((c) => c.userId)]);
+  if (task.assigneeId) audience.add(task.assigneeId);
+
+  const event: TaskEvent = {
+    id: randomUUID(),
+    type,
+    taskId: String(task._id),
+    userId: task.userId,
+    projectId: task.projectId ? String(task.projectId) : null,
+    audience: [...audience],
+    actorId,
+    occurredAt: new Date(),
+    data,
+  };
+
+  const buffer = pending.getStore();
+
+  if (buffer) {
+    buffer.push(event);
+  } else {
+    dispatchTaskEvent(event);
+  }
+
+  return event;
+}
+
+export function dispatchTaskEvent(event: TaskEvent): void {
+  bus.emit('event', event);
+}
+
+/**
+ * Runs `fn` and returns the events it published instead of dispatching them, so
+ * a transaction can dispatch them once it has committed and drop them if not.
+ */
+export async function collectTaskEvents<T>(
+  fn: () => Promise<T>,
+): Promise<{ result: T; events: TaskEvent[] }> {
+  const events: TaskEvent[] = [];
+  const result = await pending.run(events, fn);
+
+  return { result, events };
+}
+
+// The public shape of an event, as sent to webhooks and streaming clients
+export function toEventPayload(event: TaskEvent): Record<string, unknown> {
+  return {
+    id: event.id,
+    type: event.type,
+    occurredAt: event.occurredAt,
+    taskId: event.taskId,
+    projectId: event.projectId,
+    actorId: event.actorId,
+    data: event.data,
+  };
+}
+
+// Registers a listener for every task event; returns a function that removes it
+export function subscribeTaskEvents(listener: TaskEventListener): () => void {
+  bus.on('event', listener);
+
+  return () => bus.off('event', listener);
+}
+
+// Everyone who can read the task an event is about: its audience plus the project's members
+export async function resolveEventRecipients(event: TaskEvent): Promise<string[]> {
+  if (!event.projectId) {
+    return event.audience;
+  }
+
+  const project = await Project.findById(event.projectId).select('members.userId').lean();
+  const members = project?.members.map((member) => member.userId) ?? [];
+
+  return [...new Set([...event.audience, ...members])];
+}
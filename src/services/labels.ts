@@ -0,0 +1,87 @@
+import { type Types } from 'mongoose';
+import { Label } from '../models/Label';
+import { Task } from '../models/Task';
+import { AuditAction } from '../models/AuditEntry';
+import { ValidationError } from '../utils/errors';
+import { diffFields, recordAudit } from './audit';
+import { TaskEventType, publishTaskEvent } from './events';
+
+const MAX_LABELS = 20;
+const MAX_LABEL_LENGTH = 50;
+
+// Validates labels from a request body; trims them and drops duplicates
+export function normalizeLabels(value: unknown): string[] {
+  if (!Array.isArray(value) || value.some((label) => typeof label !== 'string')) {
+    throw new ValidationError('labels must be an array of strings');
+  }
+
+  const labels = [...new Set((value as string[]).map((label) => label.trim()))];
+
+  if (labels.some((label) => label.length === 0 || label.length > MAX_LABEL_LENGTH)) {
+    throw new ValidationError(`Labels must be 1 to ${MAX_LABEL_LENGTH} characters long`);
+  }
+
+  if (labels.length > MAX_LABELS) {
+    throw new ValidationError(`A task cannot have more than ${MAX_LABELS} labels`);
+  }
+
+  return labels;
+}
+
+// Adds labels used on a task to the user's catalog, keeping existing entries as they are
+export async function rememberLabels(userId: string, labels: string[]): Promise<void> {
+  if (labels.length === 0) {
+    return;
+  }
+
+  await Label.bulkWrite(
+    labels.map((name) => ({
+      updateOne: {
+        filter: { userId, name },
+        update: { $setOnInsert: { userId, name } },
+        upsert: true,
+      },
+    })),
+    { ordered: false },
+  );
+}
+
+/**
+ * Renames a label on every task the user owns, or removes it when `nextName` is null,
+ * with an audit entry and a task.updated event for each task like any other edit.
+ */
+export async function replaceTaskLabel(
+  userId: string,
+  previousName: string,
+  nextName: string | null,
+): Promise<void> {
+  const ids = await Task.distinct('_id', { userId, labels: previousName });
+
+  for (const id of ids) {
+    // Re-read and retry when the task's labels change between the read and the write
+    for (;;) {
+      const current = await Task.findOne({ _id: id, labels: previousName }).lean();
+
+      if (!current) {
+        break;
+      }
+
+      const labels = current.labels.filter((label) => label !== previousName);
+      if (nextName !== null && !labels.includes(nextName)) labels.push(nextName);
+
+      const task = await Task.findOneAndUpdate(
+        { _id: id, labels: current.labels },
+        { $set: { labels } },
+        { new: true },
+      );
+
+      if (task) {
+        const changes = diffFields(current, task.toObject(), ['labels']);
+
+        await recordAudit(task._id as Types.ObjectId, userId, AuditAction.UPDATED, changes);
+        publishTaskEvent(TaskEventType.UPDATED, task, { task: task.toObject(), changes }, userId);
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { type Types } from 'mongoose';
+import { Project, ProjectRole, type IProject } from '../models/Project';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+
+// Ids of the projects where the user holds one of the given roles (any role when omitted)
+export async function memberProjectIds(
+  userId: string,
+  roles?: ProjectRole[],
+): Promise<Types.ObjectId[]> {
+  const membership = roles ? { userId, role: { $in: roles } } : { userId };
+  const projects = await Project.find({ members: { $elemMatch: membership } })
+    .select('_id')
+    .lean();
+
+  return projects.map((project) => project._id as Types.ObjectId);
+}
+
+/**
+ * Loads a project the user is a member of. Non-members get a 404 so project
+ * ids are not leaked; members without one of the required roles get a 403.
+ */
+export async function findProjectForUser(
+  projectId: string,
+  userId: string,
+  roles?: ProjectRole[],
+): Promise<IProject> {
+  const project = await Project.findOne({ _id: projectId, 'members.userId': userId });
+
+  if (!project) {
+    throw new NotFoundError('Project not found');
+  }
+
+  const member = project.members.find((m) => m.userId === userId);
+
+  if (roles && (!member || !roles.includes(member.role))) {
+    throw new ForbiddenError('You do not have permission to perform this action on this project');
+  }
+
+  return project;
+}
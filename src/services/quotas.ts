@@ -0,0 +1,12 @@
+import { Task } from '../models/Task';
+import { getLimitsConfig } from '../config/limits';
+import { QuotaExceededError } from '../utils/errors';
+
+// Tasks in the trash still count, otherwise trashing would be a way around the cap
+export async function assertTaskQuota(userId: string): Promise<void> {
+  const { maxTasksPerUser } = getLimitsConfig();
+
+  if (maxTasksPerUser > 0 && (await Task.countDocuments({ userId })) >= maxTasksPerUser) {
+    throw new QuotaExceededError(`Task limit of ${maxTasksPerUser} reached`);
+  }
+}
@@ -0,0 +1,97 @@
+import { RateLimitCounter } from '../models/RateLimitCounter';
+import { RateLimitStoreType } from '../config/limits';
+
+export interface RateLimitHit {
+  // Requests counted for the key in the current window, this one included
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Counts requests per key in fixed windows. The memory store only sees the
+ * requests of its own process; deployments running several instances need a
+ * shared store so a client cannot multiply its limit by the number of instances.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number, now?: Date): Promise<RateLimitHit>;
+}
+
+function windowBounds(windowMs: number, now: Date): { start: number; resetAt: Date } {
+  const start = Math.floor(now.getTime() / windowMs) * windowMs;
+
+  return { start, resetAt: new Date(start + windowMs) };
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; resetAt: Date }>();
+  private nextSweep = 0;
+
+  async increment(key: string, windowMs: number, now = new Date()): Promise<RateLimitHit> {
+    this.sweep(now);
+
+    const { resetAt } = windowBounds(windowMs, now);
+    const current = this.counters.get(key);
+
+    if (current && current.resetAt.getTime() === resetAt.getTime()) {
+      current.count += 1;
+      return { ...current };
+    }
+
+    this.counters.set(key, { count: 1, resetAt });
+
+    return { count: 1, resetAt };
+  }
+
+  // Drops counters of finished windows, at most once a second
+  private sweep(now: Date): void {
+    if (now.getTime() < this.nextSweep) {
+      return;
+    }
+
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+
+    this.nextSweep = now.getTime() + 1000;
+  }
+}
+
+export class MongoRateLimitStore implements RateLimitStore {
+  async increment(key: string, windowMs: number, now = new Date()): Promise<RateLimitHit> {
+    const { start, resetAt } = windowBounds(windowMs, now);
+    const id = `${key}:${start}`;
+
+    const bump = () =>
+      RateLimitCounter.findOneAndUpdate(
+        { _id: id },
+        { $inc: { count: 1 }, $setOnInsert: { expiresAt: resetAt } },
+        { upsert: true, new: true },
+      ).lean();
+
+    let counter;
+
+    try {
+      counter = await bump();
+    } catch (error) {
+      // Two instances upserting the same new counter: the loser just increments it
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+
+      counter = await bump();
+    }
+
+    return { count: counter?.count ?? 1, resetAt };
+  }
+}
+
+export function rateLimitStore(type: RateLimitStoreType): RateLimitStore {
+  switch (type) {
+    case RateLimitStoreType.MEMORY:
+      return new MemoryRateLimitStore();
+    case RateLimitStoreType.MONGO:
+      return new MongoRateLimitStore();
+  }
+}
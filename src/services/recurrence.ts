@@ -0,0 +1,274 @@
+import { type Types } from 'mongoose';
+import { Task, TaskStatus, type ITask } from '../models/Task';
+import {
+  RecurrenceTrigger,
+  TaskSeries,
+  type ISeriesTemplate,
+  type ITaskSeries,
+} from '../models/TaskSeries';
+import { AuditAction } from '../models/AuditEntry';
+import { ValidationError } from '../utils/errors';
+import { formatRecurrenceRule, occurrencesAfter, parseRecurrenceRule } from '../utils/rrule';
+import { AUDITED_FIELDS, diffFields, recordAudit } from './audit';
+import { TaskEventType, publishTaskEvent } from './events';
+import { rememberLabels } from './labels';
+import { assertTaskQuota } from './quotas';
+import { withTransaction } from './transactions';
+
+export interface RecurrenceInput {
+  rule: string;
+  trigger?: RecurrenceTrigger;
+}
+
+export enum OccurrenceScope {
+  THIS = 'this',
+  FUTURE = 'future',
+}
+
+// Task fields copied into the series template, and so into every later occurrence
+export const TEMPLATE_FIELDS = [
+  'title',
+  'description',
+  'priority',
+  'labels',
+  'assigneeId',
+  'projectId',
+] as const;
+
+type SeriesPosition = Pick<ITaskSeries, 'rule' | 'startsAt' | 'lastIndex'>;
+
+/**
+ * The next `limit` dates of a series after `after`, stopping where COUNT or UNTIL
+ * end the rule.
+ */
+export function upcomingOccurrences(series: SeriesPosition, after: Date, limit = 1): Date[] {
+  const rule = parseRecurrenceRule(series.rule);
+  const remaining = rule.count === null ? limit : rule.count - series.lastIndex - 1;
+
+  if (remaining <= 0) {
+    return [];
+  }
+
+  return occurrencesAfter(rule, series.startsAt, after, Math.min(limit, remaining));
+}
+
+function templateOf(task: Pick<ITask, (typeof TEMPLATE_FIELDS)[number]>): ISeriesTemplate {
+  return {
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    labels: task.labels,
+    assigneeId: task.assigneeId,
+    projectId: task.projectId,
+  };
+}
+
+// Checks a recurrence before anything is written; returns the canonical rule
+export function assertValidRecurrence(
+  { rule, trigger = RecurrenceTrigger.COMPLETION }: RecurrenceInput,
+  dueAt: Date | null,
+): string {
+  if (!Object.values(RecurrenceTrigger).includes(trigger)) {
+    throw new ValidationError(`Invalid recurrence trigger: ${trigger}`);
+  }
+
+  if (!dueAt) {
+    throw new ValidationError('A recurring task needs a due date');
+  }
+
+  return formatRecurrenceRule(parseRecurrenceRule(rule));
+}
+
+/**
+ * Makes a task the first occurrence of a new series, owned like the task by its owner.
+ * A task already in a series ends that series first, so a rule change applies from
+ * this occurrence on.
+ */
+export async function startSeries(
+  task: ITask,
+  { rule, trigger = RecurrenceTrigger.COMPLETION }: RecurrenceInput,
+): Promise<ITaskSeries> {
+  const canonical = assertValidRecurrence({ rule, trigger }, task.dueAt);
+  const dueAt = task.dueAt as Date;
+
+  if (task.recurrence) {
+    await endSeries(task.recurrence.seriesId);
+  }
+
+  const position = { rule: canonical, startsAt: dueAt, lastIndex: 0 };
+
+  const series = await TaskSeries.create({
+    userId: task.userId,
+    rule: canonical,
+    trigger,
+    template: templateOf(task),
+    startsAt: dueAt,
+    leadTimeMs: task.startAt ? dueAt.getTime() - task.startAt.getTime() : null,
+    lastIndex: 0,
+    lastOccursAt: dueAt,
+    nextOccursAt: upcomingOccurrences(position, dueAt)[0] ?? null,
+  });
+
+  task.recurrence = { seriesId: series._id as Types.ObjectId, index: 0, occursAt: dueAt };
+  await task.save();
+
+  return series;
+}
+
+// Stops a series; its existing occurrences are kept
+export async function endSeries(seriesId: Types.ObjectId): Promise<ITaskSeries | null> {
+  return TaskSeries.findOneAndUpdate(
+    { _id: seriesId, endedAt: null },
+    { $set: { endedAt: new Date(), nextOccursAt: null } },
+    { new: true },
+  );
+}
+
+// An "all future occurrences" edit: later occurrences are created from the edited task
+export async function updateSeriesTemplate(
+  task: Pick<ITask, 'recurrence' | (typeof TEMPLATE_FIELDS)[number]>,
+): Promise<void> {
+  if (!task.recurrence) {
+    throw new ValidationError('The task is not part of a recurring series');
+  }
+
+  await TaskSeries.updateOne(
+    { _id: task.recurrence.seriesId, endedAt: null },
+    { $set: { template: templateOf(task) } },
+  );
+}
+
+/**
+ * Creates occurrence `expectedIndex + 1` of a series. The series is claimed with
+ * a conditional update first, so each occurrence is only ever created once even
+ * if a task is completed twice or several schedulers run. The claim, the new task
+ * and its audit entry are written in one transaction, so a failure in between
+ * does not leave the series advanced without its occurrence. Returns null when
+ * the series has ended or another caller got there first.
+ */
+export async function createNextOccurrence(
+  seriesId: Types.ObjectId,
+  expectedIndex: number,
+  actorId: string,
+  now = new Date(),
+): Promise<ITask | null> {
+  return withTransaction(() => insertNextOccurrence(seriesId, expectedIndex, actorId, now));
+}
+
+async function insertNextOccurrence(
+  seriesId: Types.ObjectId,
+  expectedIndex: number,
+  actorId: string,
+  now: Date,
+): Promise<ITask | null> {
+  const series = await TaskSeries.findOne({
+    _id: seriesId,
+    lastIndex: expectedIndex,
+    endedAt: null,
+  }).lean();
+
+  if (!series) {
+    return null;
+  }
+
+  // Occurrences count towards the owner's quota like any other task they create
+  await assertTaskQuota(series.userId);
+
+  // Completing an occurrence late skips the dates that have already gone by
+  const after =
+    series.trigger === RecurrenceTrigger.COMPLETION && now > series.lastOccursAt
+      ? now
+      : series.lastOccursAt;
+  const occursAt = upcomingOccurrences(series, after)[0] ?? null;
+  const index = expectedIndex + 1;
+  const following = occursAt
+    ? (upcomingOccurrences({ ...series, lastIndex: index }, occursAt)[0] ?? null)
+    : null;
+
+  const claimed = await TaskSeries.findOneAndUpdate(
+    { _id: seriesId, lastIndex: expectedIndex, endedAt: null },
+    {
+      $set: occursAt
+        ? {
+            lastIndex: index,
+            lastOccursAt: occursAt,
+            nextOccursAt: following,
+            endedAt: following ? null : now,
+          }
+        : { nextOccursAt: null, endedAt: now },
+    },
+  );
+
+  if (!claimed || !occursAt) {
+    return null;
+  }
+
+  const { template } = series;
+  const task = await Task.create({
+    ...template,
+    status: TaskStatus.TODO,
+    userId: series.userId,
+    startAt: series.leadTimeMs !== null ? new Date(occursAt.getTime() - series.leadTimeMs) : null,
+    dueAt: occursAt,
+    recurrence: { seriesId, index, occursAt },
+    statusHistory: [{ from: null, to: TaskStatus.TODO, changedBy: actorId }],
+  });
+
+  await recordAudit(
+    task._id as Types.ObjectId,
+    actorId,
+    AuditAction.CREATED,
+    diffFields({}, task.toObject(), AUDITED_FIELDS),
+  );
+  await rememberLabels(series.userId, template.labels);
+
+  publishTaskEvent(TaskEventType.CREATED, task, { task: task.toObject() }, actorId);
+
+  return task;
+}
+
+/**
+ * Completing an occurrence of a completion-triggered series creates the next one, so
+ * the status change is refused up front while the series owner is at the task limit.
+ */
+export async function assertCanAdvance(
+  task: Pick<ITask, 'recurrence'>,
+  status: TaskStatus,
+): Promise<void> {
+  if (!task.recurrence || status !== TaskStatus.DONE) {
+    return;
+  }
+
+  const series = await TaskSeries.findOne({
+    _id: task.recurrence.seriesId,
+    trigger: RecurrenceTrigger.COMPLETION,
+    endedAt: null,
+  })
+    .select('userId')
+    .lean();
+
+  if (series) {
+    await assertTaskQuota(series.userId);
+  }
+}
+
+// Creates the next occurrence when a task of a completion-triggered series is done
+export async function advanceOnCompletion(
+  task: Pick<ITask, 'recurrence' | 'status'>,
+  actorId: string,
+): Promise<ITask | null> {
+  if (!task.recurrence || task.status !== TaskStatus.DONE) {
+    return null;
+  }
+
+  const series = await TaskSeries.exists({
+    _id: task.recurrence.seriesId,
+    trigger: RecurrenceTrigger.COMPLETION,
+  });
+
+  if (!series) {
+    return null;
+  }
+
+  return createNextOccurrence(task.recurrence.seriesId, task.recurrence.index, actorId);
+}
@@ -0,0 +1,39 @@
+import { ValidationError } from '../utils/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface TaskSchedule {
+  startAt: Date | null;
+  dueAt: Date | null;
+}
+
+// Parses an optional ISO date from a request body; null clears the field
+export function parseScheduleDate(value: unknown, field: string): Date | null | undefined {
+  if (value === undefined || value === null) {
+    return value;
+  }
+
+  const date = typeof value === 'string' ? new Date(value) : new Date(NaN);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`${field} must be an ISO 8601 date`);
+  }
+
+  return date;
+}
+
+// A date-only upper bound covers the whole of that (UTC) day rather than stopping at its midnight
+export function parseRangeEnd(to: string): Date {
+  const end = new Date(to);
+
+  return DATE_ONLY.test(to) ? new Date(end.getTime() + DAY_MS - 1) : end;
+}
+
+// A task cannot be due before it starts
+export function assertValidSchedule({ startAt, dueAt }: TaskSchedule): void {
+  if (startAt && dueAt && startAt.getTime() > dueAt.getTime()) {
+    throw new ValidationError('startAt must not be after dueAt');
+  }
+}
@@ -0,0 +1,102 @@
+import { type FilterQuery } from 'mongoose';
+import { Task, CollaboratorRole, type ITask } from '../models/Task';
+import { PROJECT_MANAGE_ROLES, PROJECT_WRITE_ROLES } from '../models/Project';
+import { ForbiddenError, NotFoundError, type AppError } from '../utils/errors';
+import { memberProjectIds } from './projectAccess';
+
+export enum TaskAccessLevel {
+  READ = 'read',
+  WRITE = 'write',
+  OWNER = 'owner',
+}
+
+export enum TaskScope {
+  OWNED = 'owned',
+  SHARED = 'shared',
+  ASSIGNED = 'assigned',
+  ALL = 'all',
+}
+
+/**
+ * Mongo filter matching the tasks a user may access at the given level:
+ * - READ: owner, assignee, any collaborator or any member of the task's project
+ * - WRITE: owner, assignee, editor collaborators or project owners/admins/members
+ * - OWNER: owner or project owners/admins (delete, re-share, move between projects)
+ *
+ * Tasks in the trash are excluded unless `trashed` is set, in which case only
+ * trashed tasks match.
+ */
+export async function taskAccessFilter(
+  userId: string,
+  level: TaskAccessLevel,
+  { trashed = false }: { trashed?: boolean } = {},
+): Promise<FilterQuery<ITask>> {
+  const deletedAt = trashed ? { $ne: null } : null;
+
+  switch (level) {
+    case TaskAccessLevel.OWNER:
+      return {
+        deletedAt,
+        $or: [
+          { userId },
+          { projectId: { $in: await memberProjectIds(userId, PROJECT_MANAGE_ROLES) } },
+        ],
+      };
+    case TaskAccessLevel.WRITE:
+      return {
+        deletedAt,
+        $or: [
+          { userId },
+          { assigneeId: userId },
+          { collaborators: { $elemMatch: { userId, role: CollaboratorRole.EDITOR } } },
+          { projectId: { $in: await memberProjectIds(userId, PROJECT_WRITE_ROLES) } },
+        ],
+      };
+    case TaskAccessLevel.READ:
+      return {
+        deletedAt,
+        $or: [
+          { userId },
+          { assigneeId: userId },
+          { 'collaborators.userId': userId },
+          { projectId: { $in: await memberProjectIds(userId) } },
+        ],
+      };
+  }
+}
+
+// Mongo filter for the task list, by ownership scope
+export async function taskScopeFilter(
+  userId: string,
+  scope: TaskScope,
+): Promise<FilterQuery<ITask>> {
+  switch (scope) {
+    case TaskScope.OWNED:
+      return { userId, deletedAt: null };
+    case TaskScope.SHARED:
+      return { 'collaborators.userId': userId, deletedAt: null };
+    case TaskScope.ASSIGNED:
+      return { assigneeId: userId, deletedAt: null };
+    case TaskScope.ALL:
+      return taskAccessFilter(userId, TaskAccessLevel.READ);
+  }
+}
+
+/**
+ * Called after an access-scoped query matched nothing, to tell a task the user
+ * cannot see at all (404) from one they can see but not modify (403).
+ */
+export async function resolveAccessError(
+  taskId: string,
+  userId: string,
+  options: { trashed?: boolean } = {},
+): Promise<AppError> {
+  const visible = await Task.exists({
+    _id: taskId,
+    ...(await taskAccessFilter(userId, TaskAccessLevel.READ, options)),
+  });
+
+  return visible
+    ? new ForbiddenError('You do not have permission to perform this action on this task')
+    : new NotFoundError('Task not found');
+}
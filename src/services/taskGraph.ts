@@ -0,0 +1,183 @@
+import { Types, type FilterQuery } from 'mongoose';
+import { OPEN_STATUSES, Task, type ITask } from '../models/Task';
+import { AuditAction } from '../models/AuditEntry';
+import { ValidationError } from '../utils/errors';
+import { diffFields, recordAudit } from './audit';
+import { TaskEventType, publishTaskEvent } from './events';
+
+type TaskId = Types.ObjectId | string;
+
+export type TaskTreeNode = Record<string, unknown> & { subtasks: TaskTreeNode[] };
+
+// Ids reachable from a task by repeatedly following `field` (parentId or blockedBy)
+async function reachableIds(start: TaskId, field: 'parentId' | 'blockedBy'): Promise<string[]> {
+  const [result] = await Task.aggregate<{ reached: { _id: Types.ObjectId }[] }>([
+    { $match: { _id: new Types.ObjectId(String(start)) } },
+    {
+      $graphLookup: {
+        from: Task.collection.name,
+        startWith: `$${field}`,
+        connectFromField: field,
+        connectToField: '_id',
+        as: 'reached',
+      },
+    },
+    { $project: { 'reached._id': 1 } },
+  ]);
+
+  return (result?.reached ?? []).map((task) => String(task._id));
+}
+
+// A task cannot become a subtask of itself or of one of its own subtasks
+export async function assertValidParent(taskId: TaskId | null, parentId: TaskId): Promise<void> {
+  if (!taskId) {
+    return;
+  }
+
+  if (String(taskId) === String(parentId)) {
+    throw new ValidationError('A task cannot be its own parent');
+  }
+
+  const ancestors = await reachableIds(parentId, 'parentId');
+
+  if (ancestors.includes(String(taskId))) {
+    throw new ValidationError('A task cannot be moved under one of its own subtasks');
+  }
+}
+
+// Rejects a "blocked by" link that would close a loop of tasks waiting on each other
+export async function assertNoDependencyCycle(taskId: TaskId, blockerId: TaskId): Promise<void> {
+  if (String(taskId) === String(blockerId)) {
+    throw new ValidationError('A task cannot block itself');
+  }
+
+  const upstream = await reachableIds(blockerId, 'blockedBy');
+
+  if (upstream.includes(String(taskId))) {
+    throw new ValidationError('This dependency would create a cycle');
+  }
+}
+
+// Blockers of a task that are still open; trashed blockers no longer count
+export async function countOpenBlockers(blockedBy: TaskId[]): Promise<number> {
+  if (blockedBy.length === 0) {
+    return 0;
+  }
+
+  return Task.countDocuments({
+    _id: { $in: blockedBy },
+    status: { $in: OPEN_STATUSES },
+    deletedAt: null,
+  });
+}
+
+// Recomputes the subtask rollup of the given parents from their live subtasks
+export async function refreshProgress(parentIds: (TaskId | null | undefined)[]): Promise<void> {
+  const ids = [...new Set(parentIds.filter(Boolean).map(String))];
+
+  for (const id of ids) {
+    const [counts] = await Task.aggregate<{ total: number; done: number }>([
+      { $match: { parentId: new Types.ObjectId(id), deletedAt: null } },
+      {
+        $group: {
+          _id: null,
+          total: { $sum: 1 },
+          done: { $sum: { $cond: [{ $in: ['$status', OPEN_STATUSES] }, 0, 1] } },
+        },
+      },
+    ]);
+
+    await Task.updateOne(
+      { _id: id },
+      { $set: { progress: { total: counts?.total ?? 0, done: counts?.done ?? 0 } } },
+    ).setOptions({ timestamps: false, skipVersion: true });
+  }
+}
+
+// Clears references to permanently deleted tasks and updates their parents' rollups
+export async function detachDeletedTasks(
+  tasks: { _id: unknown; parentId: Types.ObjectId | null }[],
+  actorId: string,
+): Promise<void> {
+  if (tasks.length === 0) {
+    return;
+  }
+
+  const ids = tasks.map((task) => task._id);
+  const deleted = new Set(ids.map(String));
+  const referencing = await Task.distinct('_id', {
+    $or: [{ parentId: { $in: ids } }, { blockedBy: { $in: ids } }],
+  });
+
+  for (const id of referencing) {
+    // Re-read and retry when the task's references change between the read and the write
+    for (;;) {
+      const current = await Task.findOne({ _id: id }).select('parentId blockedBy').lean();
+
+      if (!current) {
+        break;
+      }
+
+      const parentId =
+        current.parentId && deleted.has(String(current.parentId)) ? null : current.parentId;
+      const blockedBy = current.blockedBy.filter((taskId) => !deleted.has(String(taskId)));
+
+      const task = await Task.findOneAndUpdate(
+        { _id: id, parentId: current.parentId, blockedBy: current.blockedBy },
+        { $set: { parentId, blockedBy } },
+        { new: true },
+      );
+
+      if (task) {
+        const changes = diffFields(current, task.toObject(), ['parentId', 'blockedBy']);
+
+        await recordAudit(task._id as Types.ObjectId, actorId, AuditAction.UPDATED, changes);
+        publishTaskEvent(TaskEventType.UPDATED, task, { task: task.toObject(), changes }, actorId);
+        break;
+      }
+    }
+  }
+
+  await refreshProgress(tasks.map((task) => task.parentId));
+}
+
+/**
+ * Loads a task's subtasks at every depth and nests them under `subtasks`.
+ * Only subtasks matching `visible` (the caller's read access) are included,
+ * along with everything below them.
+ */
+export async function buildTaskTree(
+  root: Record<string, unknown>,
+  visible: FilterQuery<ITask>,
+): Promise<TaskTreeNode> {
+  const [result] = await Task.aggregate<{ descendants: Record<string, unknown>[] }>([
+    { $match: { _id: root['_id'] } },
+    {
+      $graphLookup: {
+        from: Task.collection.name,
+        startWith: '$_id',
+        connectFromField: '_id',
+        connectToField: 'parentId',
+        as: 'descendants',
+        restrictSearchWithMatch: visible,
+      },
+    },
+    { $project: { descendants: 1 } },
+  ]);
+
+  const children = new Map<string, Record<string, unknown>[]>();
+
+  for (const task of result?.descendants ?? []) {
+    const parent = String(task['parentId']);
+    children.set(parent, [...(children.get(parent) ?? []), task]);
+  }
+
+  const attach = (node: Record<string, unknown>): TaskTreeNode => ({
+    ...node,
+    subtasks: (children.get(String(node['_id'])) ?? [])
+      .sort((a, b) => Number(a['createdAt']) - Number(b['createdAt']))
+      .map(attach),
+  });
+
+  return attach(root);
+}
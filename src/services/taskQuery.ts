@@ -0,0 +1,379 @@
+import { type FilterQuery, type ProjectionType, type SortOrder } from 'mongoose';
+import { OPEN_STATUSES, Task, TaskPriority, TaskStatus, type ITask } from '../models/Task';
+import { TaskScope, taskScopeFilter } from './taskAccess';
+import { findProjectForUser } from './projectAccess';
+import { parseRangeEnd } from './schedule';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { ValidationError } from '../utils/errors';
+import { dateOrDateTimeQuerySchema } from '../schemas/common';
+
+// Fields the list can be sorted by; each is backed by a `{ userId, <field> }` index
+export const TASK_SORT_FIELDS = ['createdAt', 'updatedAt', 'dueAt', 'priority', 'title', 'status'];
+
+// Sort fields backed by a different stored field
+const SORT_KEYS: Record<string, string> = { priority: 'priorityRank' };
+
+// Sort fields holding dates, so cursor values are turned back into Dates
+const DATE_SORT_FIELDS = ['createdAt', 'updatedAt', 'dueAt'];
+
+// Fields that can be requested through `fields=`
+export const TASK_PROJECTABLE_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'labels',
+  'userId',
+  'assigneeId',
+  'projectId',
+  'parentId',
+  'blockedBy',
+  'progress',
+  'commentCount',
+  'recurrence',
+  'collaborators',
+  'statusHistory',
+  'startAt',
+  'dueAt',
+  'version',
+  'createdAt',
+  'updatedAt',
+];
+
+export interface TaskListFilters {
+  q?: string;
+  status?: TaskStatus[];
+  priority?: TaskPriority[];
+  labels?: string[];
+  assigneeId?: string;
+  scope?: TaskScope;
+  projectId?: string;
+  parentId?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  dueAfter?: string;
+  dueBefore?: string;
+  overdue?: boolean;
+  sort?: string;
+  fields?: string;
+}
+
+const fieldListPattern = `^(${TASK_PROJECTABLE_FIELDS.join('|')})(,(${TASK_PROJECTABLE_FIELDS.join('|')}))*$`;
+
+// JSON schema properties for the list filters, shared by every endpoint that lists tasks
+export const taskListFilterProperties = {
+  q: { type: 'string', minLength: 1, maxLength: 200 },
+  status: {
+    type: 'array',
+    items: { type: 'string', enum: Object.values(TaskStatus) },
+  },
+  priority: {
+    type: 'array',
+    items: { type: 'string', enum: Object.values(TaskPriority) },
+  },
+  labels: {
+    type: 'array',
+    items: { type: 'string', minLength: 1 },
+  },
+  assigneeId: { type: 'string', minLength: 1 },
+  scope: { type: 'string', enum: Object.values(TaskScope) },
+  projectId: { type: 'string', pattern: '^[a-f0-9]{24}$' },
+  parentId: { type: 'string', pattern: '^([a-f0-9]{24}|none)$' },
+  createdAfter: dateOrDateTimeQuerySchema,
+  createdBefore: dateOrDateTimeQuerySchema,
+  updatedAfter: dateOrDateTimeQuerySchema,
+  updatedBefore: dateOrDateTimeQuerySchema,
+  dueAfter: dateOrDateTimeQuerySchema,
+  dueBefore: dateOrDateTimeQuerySchema,
+  overdue: { type: 'boolean' },
+  sort: {
+    type: 'string',
+    enum: TASK_SORT_FIELDS.flatMap((field) => [field, `-${field}`]),
+  },
+  fields: { type: 'string', pattern: fieldListPattern },
+};
+
+export interface TaskListQuery {
+  filter: FilterQuery<ITask>;
+  sort: Record<string, SortOrder | { $meta: 'textScore' }>;
+  projection: ProjectionType<ITask>;
+  // Primary sort key for cursors; null when ranking by search relevance
+  sortField: string | null;
+  sortDirection: 1 | -1;
+  // Fields fetched only to build cursors, removed before results are returned
+  cursorOnlyFields: string[];
+}
+
+export interface TaskPageOptions {
+  page?: string;
+  limit?: string;
+  after?: string;
+  before?: string;
+  includeTotal?: boolean;
+}
+
+// JSON schema properties for page-number and cursor pagination
+export const taskPaginationProperties = {
+  page: { type: 'string' },
+  limit: { type: 'string' },
+  after: { type: 'string', minLength: 1 },
+  before: { type: 'string', minLength: 1 },
+  includeTotal: { type: 'boolean' },
+};
+
+type LeanTask = Record<string, unknown> & { _id: unknown };
+
+export interface TaskPage {
+  data: LeanTask[];
+  pagination: Record<string, unknown>;
+}
+
+function dateRange(after?: string, before?: string): Record<string, Date> | null {
+  if (!after && !before) {
+    return null;
+  }
+
+  const range: Record<string, Date> = {};
+  if (after) range['$gte'] = new Date(after);
+  if (before) range['$lte'] = parseRangeEnd(before);
+
+  return range;
+}
+
+/**
+ * Turns list filters into the Mongo filter, sort and projection for the
+ * authenticated user. Without an explicit sort, full-text searches are ranked by
+ * relevance and everything else is newest first; `_id` breaks ties so paging is
+ * stable.
+ */
+export async function buildTaskListQuery(
+  userId: string,
+  filters: TaskListFilters,
+): Promise<TaskListQuery> {
+  const { q, status, scope = TaskScope.OWNED, projectId, sort: sortParam, fields } = filters;
+
+  let filter: FilterQuery<ITask>;
+
+  // Project members see every task in the project, regardless of scope
+  if (projectId) {
+    await findProjectForUser(projectId, userId);
+    filter = { projectId, deletedAt: null };
+  } else {
+    filter = await taskScopeFilter(userId, scope);
+  }
+
+  if (status && status.length > 0) {
+    filter.status = { $in: status };
+  }
+
+  if (filters.priority && filters.priority.length > 0) {
+    filter.priority = { $in: filters.priority };
+  }
+
+  // Tasks carrying every one of the given labels
+  if (filters.labels && filters.labels.length > 0) {
+    filter.labels = { $all: filters.labels };
+  }
+
+  if (filters.assigneeId) {
+    filter.assigneeId = filters.assigneeId;
+  }
+
+  // Subtasks of a task, or top-level tasks only with `none`
+  if (filters.parentId) {
+    filter.parentId = filters.parentId === 'none' ? null : filters.parentId;
+  }
+
+  const created = dateRange(filters.createdAfter, filters.createdBefore);
+  if (created) filter.createdAt = created;
+
+  const updated = dateRange(filters.updatedAfter, filters.updatedBefore);
+  if (updated) filter.updatedAt = updated;
+
+  const due: Record<string, Date> = dateRange(filters.dueAfter, filters.dueBefore) ?? {};
+
+  // Overdue: past its due date and still open
+  if (filters.overdue) {
+    due['$lt'] = new Date();
+    filter.status = {
+      $in: (status?.length ? status : OPEN_STATUSES).filter((s) => OPEN_STATUSES.includes(s)),
+    };
+  }
+
+  if (Object.keys(due).length > 0) filter.dueAt = due;
+
+  let projection: Record<string, unknown> = {};
+  let sortField: string | null = 'createdAt';
+  let sortDirection: 1 | -1 = -1;
+  let cursorOnlyFields: string[] = [];
+
+  if (q) {
+    filter.$text = { $search: q };
+    projection = { score: { $meta: 'textScore' } };
+    sortField = null;
+  }
+
+  if (sortParam) {
+    sortDirection = sortParam.startsWith('-') ? -1 : 1;
+    const name = sortDirection === -1 ? sortParam.slice(1) : sortParam;
+    sortField = SORT_KEYS[name] ?? name;
+  }
+
+  if (fields) {
+    // The sort field is always fetched so cursors can be built from the results
+    const selected = fields.split(',');
+    if (sortField && !selected.includes(sortField)) {
+      cursorOnlyFields = [sortField];
+    }
+    const fetched = [...selected, ...cursorOnlyFields];
+    projection = { ...projection, ...Object.fromEntries(fetched.map((f) => [f, 1])) };
+  }
+
+  const sort: TaskListQuery['sort'] = sortField
+    ? { [sortField]: sortDirection, _id: sortDirection }
+    : { score: { $meta: 'textScore' }, createdAt: -1, _id: -1 };
+
+  return {
+    filter,
+    sort,
+    projection: projection as ProjectionType<ITask>,
+    sortField,
+    sortDirection,
+    cursorOnlyFields,
+  };
+}
+
+// Matches documents strictly after (field, id) in the given direction; nulls sort first
+function keysetFilter(
+  field: string,
+  direction: 1 | -1,
+  value: unknown,
+  id: string,
+): FilterQuery<ITask> {
+  const tie = { [field]: value, _id: { [direction === 1 ? '$gt' : '$lt']: id } };
+
+  if (value === null) {
+    return direction === 1 ? { $or: [tie, { [field]: { $ne: null } }] } : tie;
+  }
+
+  const beyond =
+    direction === 1
+      ? { [field]: { $gt: value } }
+      : { $or: [{ [field]: { $lt: value } }, { [field]: null }] };
+
+  return { $or: [beyond, tie] };
+}
+
+function cursorFor(task: LeanTask, field: string): string {
+  return encodeCursor(field, task[field], task._id);
+}
+
+function stripFields(tasks: LeanTask[], fields: string[]): LeanTask[] {
+  for (const task of tasks) {
+    for (const field of fields) {
+      delete task[field];
+    }
+  }
+
+  return tasks;
+}
+
+/**
+ * Runs a list query with either page numbers (`page`, always counted) or
+ * cursors (`after`/`before`, counted only with `includeTotal`). Page results also
+ * carry a `nextCursor` so clients can switch to cursor paging at any point.
+ */
+export async function findTaskPage(
+  query: TaskListQuery,
+  options: TaskPageOptions,
+): Promise<TaskPage> {
+  const { page: pageParam = '1', limit: limitParam = '50', after, before, includeTotal } = options;
+  const limit = parseInt(limitParam, 10);
+  const { filter, sort, projection, sortField, sortDirection, cursorOnlyFields } = query;
+
+  if (!after && !before) {
+    const page = parseInt(pageParam, 10);
+    const skip = (page - 1) * limit;
+
+    const [tasks, total] = await Promise.all([
+      Task.find(filter, projection).sort(sort).skip(skip).limit(limit).lean<LeanTask[]>(),
+      Task.countDocuments(filter),
+    ]);
+
+    const last = tasks.at(-1);
+    const nextCursor =
+      sortField && last && skip + tasks.length < total ? cursorFor(last, sortField) : null;
+
+    return {
+      data: stripFields(tasks, cursorOnlyFields),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        nextCursor,
+      },
+    };
+  }
+
+  if (after && before) {
+    throw new ValidationError('Use either after or before, not both');
+  }
+
+  if (!sortField) {
+    throw new ValidationError('Cursor pagination requires a sort when searching');
+  }
+
+  const cursor = decodeCursor((after ?? before) as string);
+
+  if (cursor.field !== sortField) {
+    throw new ValidationError('Cursor does not match the current sort');
+  }
+
+  const value =
+    cursor.value !== null && DATE_SORT_FIELDS.includes(sortField)
+      ? new Date(cursor.value)
+      : cursor.value;
+
+  // Paging backwards walks the list in reverse, then flips the results
+  const reverse = Boolean(before);
+  const direction = (reverse ? -sortDirection : sortDirection) as 1 | -1;
+
+  const [tasks, total] = await Promise.all([
+    Task.find(
+      {
+        ...filter,
+        $and: [...(filter.$and ?? []), keysetFilter(sortField, direction, value, cursor.id)],
+      },
+      projection,
+    )
+      .sort({ [sortField]: direction, _id: direction })
+      .limit(limit + 1)
+      .lean<LeanTask[]>(),
+    includeTotal ? Task.countDocuments(filter) : Promise.resolve(undefined),
+  ]);
+
+  const hasMore = tasks.length > limit;
+  const data = tasks.slice(0, limit);
+
+  if (reverse) {
+    data.reverse();
+  }
+
+  const first = data[0];
+  const last = data.at(-1);
+  const nextCursor = last && (reverse || hasMore) ? cursorFor(last, sortField) : null;
+  const prevCursor = first && (!reverse || hasMore) ? cursorFor(first, sortField) : null;
+
+  return {
+    data: stripFields(data, cursorOnlyFields),
+    pagination: {
+      limit,
+      ...(total !== undefined && { total }),
+      nextCursor,
+      prevCursor,
+    },
+  };
+}
@@ -0,0 +1,432 @@
+import { type FilterQuery, type Types, type UpdateQuery } from 'mongoose';
+import { Task, TaskPriority, TaskStatus, type ITask } from '../models/Task';
+import { User } from '../models/User';
+import { PROJECT_WRITE_ROLES, Project, type IProject } from '../models/Project';
+import { AuditEntry, AuditAction } from '../models/AuditEntry';
+import { Comment } from '../models/Comment';
+import { removeAttachments } from './attachments';
+import {
+  ConflictError,
+  ForbiddenError,
+  PreconditionFailedError,
+  ValidationError,
+} from '../utils/errors';
+import { TaskAccessLevel, resolveAccessError, taskAccessFilter } from './taskAccess';
+import { findProjectForUser } from './projectAccess';
+import { assertTaskQuota } from './quotas';
+import { planStatusChange } from './workflow';
+import { assertValidSchedule, parseScheduleDate } from './schedule';
+import { normalizeLabels, rememberLabels } from './labels';
+import { assertValidParent, detachDeletedTasks, refreshProgress } from './taskGraph';
+import { AUDITED_FIELDS, diffFields, recordAudit } from './audit';
+import { TaskEventType, publishTaskEvent } from './events';
+import {
+  OccurrenceScope,
+  advanceOnCompletion,
+  assertCanAdvance,
+  assertValidRecurrence,
+  startSeries,
+  updateSeriesTemplate,
+  type RecurrenceInput,
+} from './recurrence';
+
+export interface CreateTaskInput {
+  title: string;
+  description: string;
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  labels?: string[];
+  assigneeId?: string | null;
+  projectId?: string;
+  parentId?: string;
+  startAt?: string | null;
+  dueAt?: string | null;
+  recurrence?: RecurrenceInput;
+}
+
+export interface UpdateTaskInput {
+  title?: string;
+  description?: string;
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  labels?: string[];
+  assigneeId?: string | null;
+  projectId?: string | null;
+  parentId?: string | null;
+  startAt?: string | null;
+  dueAt?: string | null;
+}
+
+function assertValidPriority(priority: TaskPriority | undefined) {
+  if (priority && !Object.values(TaskPriority).includes(priority)) {
+    throw new ValidationError(`Invalid priority: ${priority}`);
+  }
+}
+
+// Adding or moving a subtask changes the parent's progress, so it takes write access
+async function assertParentWritable(parentId: string, userId: string) {
+  const parent = await Task.exists({
+    _id: parentId,
+    ...(await taskAccessFilter(userId, TaskAccessLevel.WRITE)),
+  });
+
+  if (!parent) {
+    throw await resolveAccessError(parentId, userId);
+  }
+}
+
+// Matches tasks at one of the given versions; tasks written before versioning count as 0
+export function versionFilter(versions: number[]): FilterQuery<ITask> {
+  return { version: { $in: versions.includes(0) ? [...versions, null] : versions } };
+}
+
+async function assertAssigneeExists(assigneeId: string | null | undefined) {
+  if (assigneeId && !(await User.exists({ userId: assigneeId }))) {
+    throw new ValidationError(`Unknown assignee: ${assigneeId}`);
+  }
+}
+
+// Project tasks can only be assigned to the project's members
+function assertProjectAssignee(project: IProject, assigneeId: string | null) {
+  if (assigneeId && !project.members.some((member) => member.userId === assigneeId)) {
+    throw new ValidationError(`Assignee is not a member of the project: ${assigneeId}`);
+  }
+}
+
+/**
+ * Assignees get write access to the task, so handing it to someone who cannot already
+ * see it (as its owner, a collaborator or a project member) is an owner-level action.
+ */
+async function assertCanAssign(taskId: string, userId: string, assigneeId: string) {
+  const [owned, visible] = await Promise.all([
+    Task.exists({ _id: taskId, ...(await taskAccessFilter(userId, TaskAccessLevel.OWNER)) }),
+    Task.exists({ _id: taskId, ...(await taskAccessFilter(assigneeId, TaskAccessLevel.READ)) }),
+  ]);
+
+  if (!owned && !visible) {
+    throw new ForbiddenError('Only the task owner can assign it to a user without access');
+  }
+}
+
+/**
+ * Runs every check createTask makes and returns the unsaved, schema-validated task,
+ * so callers such as import dry runs can find out whether creating it would work.
+ */
+export async function prepareTask(userId: string, input: CreateTaskInput) {
+  const {
+    title,
+    description,
+    status = TaskStatus.TODO,
+    priority = TaskPriority.MEDIUM,
+    assigneeId = null,
+    projectId,
+    parentId = null,
+  } = input;
+
+  if (!title || !description) {
+    throw new ValidationError('Title and description are required');
+  }
+
+  if (status && !Object.values(TaskStatus).includes(status)) {
+    throw new ValidationError(`Invalid status: ${status}`);
+  }
+
+  assertValidPriority(priority);
+  const labels = input.labels !== undefined ? normalizeLabels(input.labels) : [];
+  await assertAssigneeExists(assigneeId);
+
+  const startAt = parseScheduleDate(input.startAt, 'startAt') ?? null;
+  const dueAt = parseScheduleDate(input.dueAt, 'dueAt') ?? null;
+  assertValidSchedule({ startAt, dueAt });
+
+  if (input.recurrence) {
+    assertValidRecurrence(input.recurrence, dueAt);
+  }
+
+  if (projectId) {
+    const project = await findProjectForUser(projectId, userId, PROJECT_WRITE_ROLES);
+    assertProjectAssignee(project, assigneeId);
+  }
+
+  if (parentId) {
+    await assertParentWritable(parentId, userId);
+  }
+
+  const task = new Task({
+    title,
+    description,
+    status,
+    priority,
+    labels,
+    userId,
+    assigneeId,
+    projectId: projectId ?? null,
+    parentId,
+    startAt,
+    dueAt,
+    statusHistory: [{ from: null, to: status, changedBy: userId }],
+  });
+
+  await task.validate();
+
+  return task;
+}
+
+// Creates a task owned by the user, with its initial status history and audit entry
+export async function createTask(userId: string, input: CreateTaskInput) {
+  const task = await prepareTask(userId, input);
+
+  await assertTaskQuota(userId);
+  await task.save();
+
+  await recordAudit(
+    task._id as Types.ObjectId,
+    userId,
+    AuditAction.CREATED,
+    diffFields({}, task.toObject(), AUDITED_FIELDS),
+  );
+  await rememberLabels(userId, task.labels);
+  await refreshProgress([task.parentId]);
+
+  if (input.recurrence) {
+    await startSeries(task, input.recurrence);
+  }
+
+  publishTaskEvent(TaskEventType.CREATED, task, { task: task.toObject() }, userId);
+
+  return task;
+}
+
+/**
+ * Applies a partial update with the same checks as PATCH /tasks/:id: access level,
+ * workflow, schedule and subtask rules. Status changes are guarded against
+ * concurrent updates. For a recurring task, `occurrences: 'future'` also changes
+ * the occurrences created after it. With `versions` (from If-Match), the update
+ * only applies if the task is still at one of them.
+ */
+export async function updateTask(
+  id: string,
+  userId: string,
+  input: UpdateTaskInput,
+  {
+    occurrences = OccurrenceScope.THIS,
+    versions = null,
+  }: { occurrences?: OccurrenceScope; versions?: number[] | null } = {},
+) {
+  const { title, description, status, priority, assigneeId, projectId, parentId } = input;
+
+  if (status && !Object.values(TaskStatus).includes(status)) {
+    throw new ValidationError(`Invalid status: ${status}`);
+  }
+
+  assertValidPriority(priority);
+  const labels = input.labels !== undefined ? normalizeLabels(input.labels) : undefined;
+  await assertAssigneeExists(assigneeId);
+
+  const startAt = parseScheduleDate(input.startAt, 'startAt');
+  const dueAt = parseScheduleDate(input.dueAt, 'dueAt');
+
+  const updateData: Record<string, unknown> = {};
+  if (title !== undefined) updateData['title'] = title;
+  if (description !== undefined) updateData['description'] = description;
+  if (status !== undefined) updateData['status'] = status;
+  if (priority !== undefined) updateData['priority'] = priority;
+  if (labels !== undefined) updateData['labels'] = labels;
+  if (assigneeId !== undefined) updateData['assigneeId'] = assigneeId;
+  if (projectId !== undefined) updateData['projectId'] = projectId;
+  if (parentId !== undefined) updateData['parentId'] = parentId;
+  if (startAt !== undefined) updateData['startAt'] = startAt;
+  if (dueAt !== undefined) updateData['dueAt'] = dueAt;
+
+  if (Object.keys(updateData).length === 0) {
+    throw new ValidationError('No valid fields provided for update');
+  }
+
+  const project = projectId
+    ? await findProjectForUser(projectId, userId, PROJECT_WRITE_ROLES)
+    : null;
+
+  if (parentId) {
+    await assertParentWritable(parentId, userId);
+    await assertValidParent(id, parentId);
+  }
+
+  // Moving a task between projects is an owner-level action
+  const accessLevel = projectId !== undefined ? TaskAccessLevel.OWNER : TaskAccessLevel.WRITE;
+  const filter: FilterQuery<ITask> = {
+    _id: id,
+    ...(await taskAccessFilter(userId, accessLevel)),
+  };
+  const update: UpdateQuery<ITask> = { $set: { ...updateData } };
+
+  const current = await Task.findOne(filter).lean();
+
+  if (!current) {
+    throw await resolveAccessError(id, userId);
+  }
+
+  if (assigneeId && assigneeId !== current.assigneeId && accessLevel !== TaskAccessLevel.OWNER) {
+    await assertCanAssign(id, userId, assigneeId);
+  }
+
+  // A new assignee, or a move into another project, must leave the task with a member as assignee
+  const assigneeChanged = assigneeId !== undefined && assigneeId !== current.assigneeId;
+
+  if (assigneeChanged || projectId) {
+    const target =
+      project ??
+      (projectId === undefined && current.projectId
+        ? await Project.findById(current.projectId)
+        : null);
+
+    if (target) {
+      assertProjectAssignee(target, assigneeId !== undefined ? assigneeId : current.assigneeId);
+    }
+  }
+
+  if (versions) {
+    if (!versions.includes(current.version ?? 0)) {
+      throw new PreconditionFailedError('Task has changed since it was fetched');
+    }
+
+    // Guard against a concurrent update between the check and this one
+    Object.assign(filter, versionFilter([current.version ?? 0]));
+  }
+
+  if (occurrences === OccurrenceScope.FUTURE && !current.recurrence) {
+    throw new ValidationError('Only recurring tasks have future occurrences');
+  }
+
+  if (startAt !== undefined || dueAt !== undefined) {
+    assertValidSchedule({
+      startAt: startAt !== undefined ? startAt : current.startAt,
+      dueAt: dueAt !== undefined ? dueAt : current.dueAt,
+    });
+  }
+
+  // A new due date gets a new reminder
+  if (dueAt !== undefined && dueAt?.getTime() !== current.dueAt?.getTime()) {
+    update.$set = { ...update.$set, reminderSentAt: null };
+  }
+
+  const change = status !== undefined ? await planStatusChange(current, status, userId) : null;
+
+  if (change) {
+    await assertCanAdvance(current, change.to);
+    update.$push = { statusHistory: change };
+    // Guard against a concurrent status change between the check and the update
+    filter.status = current.status;
+  }
+
+  const task = await Task.findOneAndUpdate(filter, update, {
+    new: true,
+    runValidators: true,
+  });
+
+  if (!task) {
+    if (versions) {
+      throw new PreconditionFailedError('Task has changed since it was fetched');
+    }
+    if (filter.status) {
+      throw new ConflictError('Task status was changed concurrently, please retry');
+    }
+    throw await resolveAccessError(id, userId);
+  }
+
+  const changes = diffFields(current, task.toObject(), Object.keys(updateData));
+
+  await recordAudit(task._id as Types.ObjectId, userId, AuditAction.UPDATED, changes);
+  await rememberLabels(userId, labels ?? []);
+  await refreshProgress([current.parentId, task.parentId]);
+
+  if (occurrences === OccurrenceScope.FUTURE) {
+    await updateSeriesTemplate(task);
+  }
+
+  if (changes.length > 0) {
+    publishTaskEvent(TaskEventType.UPDATED, task, { task: task.toObject(), changes }, userId);
+  }
+
+  if (change) {
+    publishTaskEvent(
+      TaskEventType.STATUS_CHANGED,
+      task,
+      { task: task.toObject(), from: change.from, to: change.to },
+      userId,
+    );
+
+    await advanceOnCompletion(task, userId);
+  }
+
+  return task;
+}
+
+// Tells a failed If-Match apart from a task that is missing or not accessible
+async function resolveDeleteError(
+  id: string,
+  userId: string,
+  filter: FilterQuery<ITask>,
+  versions: number[] | null,
+) {
+  if (versions && (await Task.exists(filter))) {
+    return new PreconditionFailedError('Task has changed since it was fetched');
+  }
+
+  return resolveAccessError(id, userId);
+}
+
+/**
+ * Moves a task to the trash, or erases it and its audit log when `permanent` is set.
+ * With `versions` (from If-Match), only a task still at one of them is deleted.
+ */
+export async function deleteTask(
+  id: string,
+  userId: string,
+  { permanent = false, versions = null }: { permanent?: boolean; versions?: number[] | null } = {},
+): Promise<void> {
+  const precondition = versions ? versionFilter(versions) : {};
+
+  if (permanent) {
+    // Erasure also covers tasks already in the trash, their audit trail, comments and attachments
+    const accessFilters = await Promise.all([
+      taskAccessFilter(userId, TaskAccessLevel.OWNER),
+      taskAccessFilter(userId, TaskAccessLevel.OWNER, { trashed: true }),
+    ]);
+    const filter = { _id: id, $or: accessFilters };
+    const task = await Task.findOneAndDelete({ ...filter, ...precondition });
+
+    if (!task) {
+      throw await resolveDeleteError(id, userId, filter, versions);
+    }
+
+    await AuditEntry.deleteMany({ taskId: task._id });
+    await Comment.deleteMany({ taskId: task._id });
+    await removeAttachments({ taskId: task._id });
+    await detachDeletedTasks([task], userId);
+
+    publishTaskEvent(TaskEventType.DELETED, task, { permanent: true }, userId);
+
+    return;
+  }
+
+  const filter = { _id: id, ...(await taskAccessFilter(userId, TaskAccessLevel.OWNER)) };
+  const task = await Task.findOneAndUpdate(
+    { ...filter, ...precondition },
+    { $set: { deletedAt: new Date(), deletedBy: userId } },
+    { new: true },
+  );
+
+  if (!task) {
+    throw await resolveDeleteError(id, userId, filter, versions);
+  }
+
+  await recordAudit(
+    task._id as Types.ObjectId,
+    userId,
+    AuditAction.DELETED,
+    diffFields({ deletedAt: null }, task.toObject(), ['deletedAt']),
+  );
+  await refreshProgress([task.parentId]);
+
+  publishTaskEvent(TaskEventType.DELETED, task, { permanent: false }, userId);
+}
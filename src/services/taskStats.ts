@@ -0,0 +1,221 @@
+import { type FilterQuery, type PipelineStage } from 'mongoose';
+import { OPEN_STATUSES, Task, TaskStatus, type ITask } from '../models/Task';
+import { ValidationError } from '../utils/errors';
+import { TaskScope, taskScopeFilter } from './taskAccess';
+import { findProjectForUser } from './projectAccess';
+import { parseRangeEnd } from './schedule';
+
+export enum StatsInterval {
+  DAY = 'day',
+  WEEK = 'week',
+}
+
+export interface TaskStatsOptions {
+  from?: string;
+  to?: string;
+  interval?: StatsInterval;
+  scope?: TaskScope;
+  projectId?: string;
+}
+
+export interface ThroughputBucket {
+  // Start of the day or week (Monday), UTC
+  period: string;
+  created: number;
+  completed: number;
+}
+
+export interface TaskStats {
+  range: { from: Date; to: Date; interval: StatsInterval };
+  total: number;
+  byStatus: Record<TaskStatus, number>;
+  overdue: number;
+  throughput: ThroughputBucket[];
+  // From first moving to "In Progress" to the last move to "Done", for tasks done in range
+  cycleTime: { tasks: number; averageMs: number | null };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_STATS_DAYS = 30;
+
+// Keeps the throughput series, and the scan behind it, to a sensible size
+export const MAX_STATS_BUCKETS = 366;
+
+// Start of the UTC day or ISO week (Monday) containing `date`
+function bucketStart(date: Date, interval: StatsInterval): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+  if (interval === StatsInterval.WEEK) {
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  }
+
+  return day;
+}
+
+function bucketKeys(from: Date, to: Date, interval: StatsInterval): string[] {
+  const step = interval === StatsInterval.WEEK ? 7 * DAY_MS : DAY_MS;
+  const keys: string[] = [];
+
+  for (let t = bucketStart(from, interval).getTime(); t <= to.getTime(); t += step) {
+    keys.push(new Date(t).toISOString().slice(0, 10));
+  }
+
+  return keys;
+}
+
+function truncate(field: string, interval: StatsInterval) {
+  return {
+    $dateToString: {
+      format: '%Y-%m-%d',
+      date: { $dateTrunc: { date: field, unit: interval, startOfWeek: 'monday' } },
+    },
+  };
+}
+
+/**
+ * Aggregates the tasks in a scope (owned by default, or a project's) in a single
+ * pipeline: status counts and overdue tasks as they are now, plus created and
+ * completed counts per day or week and the average cycle time within a date
+ * range. Completions come from the status history, so a task reopened and done
+ * again counts twice. Defaults to the last 30 days.
+ */
+export async function computeTaskStats(
+  userId: string,
+  options: TaskStatsOptions,
+): Promise<TaskStats> {
+  const { interval = StatsInterval.DAY, scope = TaskScope.OWNED, projectId } = options;
+  const now = new Date();
+  const to = options.to ? parseRangeEnd(options.to) : now;
+  const from = options.from
+    ? new Date(options.from)
+    : new Date(to.getTime() - DEFAULT_STATS_DAYS * DAY_MS);
+
+  if (from.getTime() > to.getTime()) {
+    throw new ValidationError('from must not be after to');
+  }
+
+  const keys = bucketKeys(from, to, interval);
+
+  if (keys.length > MAX_STATS_BUCKETS) {
+    throw new ValidationError(
+      `The range spans more than ${MAX_STATS_BUCKETS} ${interval}s, narrow it down or use a longer interval`,
+    );
+  }
+
+  // Aggregations skip schema casting, so the project id goes in as an ObjectId
+  const match: FilterQuery<ITask> = projectId
+    ? { projectId: (await findProjectForUser(projectId, userId))._id, deletedAt: null }
+    : await taskScopeFilter(userId, scope);
+
+  const range = { $gte: from, $lte: to };
+
+  const pipeline: PipelineStage[] = [
+    { $match: match },
+    {
+      $facet: {
+        byStatus: [{ $group: { _id: '$status', count: { $sum: 1 } } }],
+        overdue: [
+          { $match: { status: { $in: OPEN_STATUSES }, dueAt: { $ne: null, $lt: now } } },
+          { $count: 'count' },
+        ],
+        created: [
+          { $match: { createdAt: range } },
+          { $group: { _id: truncate('$createdAt', interval), count: { $sum: 1 } } },
+        ],
+        completed: [
+          { $unwind: '$statusHistory' },
+          { $match: { 'statusHistory.to': TaskStatus.DONE, 'statusHistory.changedAt': range } },
+          {
+            $group: {
+              _id: truncate('$statusHistory.changedAt', interval),
+              count: { $sum: 1 },
+            },
+          },
+        ],
+        cycleTime: [
+          {
+            $project: {
+              startedAt: {
+                $min: {
+                  $map: {
+                    input: {
+                      $filter: {
+                        input: '$statusHistory',
+                        cond: { $eq: ['$$this.to', TaskStatus.IN_PROGRESS] },
+                      },
+                    },
+                    in: '$$this.changedAt',
+                  },
+                },
+              },
+              completedAt: {
+                $max: {
+                  $map: {
+                    input: {
+                      $filter: {
+                        input: '$statusHistory',
+                        cond: { $eq: ['$$this.to', TaskStatus.DONE] },
+                      },
+                    },
+                    in: '$$this.changedAt',
+                  },
+                },
+              },
+            },
+          },
+          {
+            $match: {
+              completedAt: range,
+              startedAt: { $ne: null },
+              $expr: { $lte: ['$startedAt', '$completedAt'] },
+            },
+          },
+          {
+            $group: {
+              _id: null,
+              tasks: { $sum: 1 },
+              averageMs: { $avg: { $subtract: ['$completedAt', '$startedAt'] } },
+            },
+          },
+        ],
+      },
+    },
+  ];
+
+  const [facets] = await Task.aggregate<{
+    byStatus: { _id: TaskStatus; count: number }[];
+    overdue: { count: number }[];
+    created: { _id: string; count: number }[];
+    completed: { _id: string; count: number }[];
+    cycleTime: { tasks: number; averageMs: number }[];
+  }>(pipeline);
+
+  const byStatus = Object.fromEntries(
+    Object.values(TaskStatus).map((status) => [status, 0]),
+  ) as Record<TaskStatus, number>;
+
+  for (const { _id, count } of facets?.byStatus ?? []) {
+    byStatus[_id] = count;
+  }
+
+  const created = new Map(facets?.created.map(({ _id, count }) => [_id, count]));
+  const completed = new Map(facets?.completed.map(({ _id, count }) => [_id, count]));
+  const cycleTime = facets?.cycleTime[0];
+
+  return {
+    range: { from, to, interval },
+    total: Object.values(byStatus).reduce((sum, count) => sum + count, 0),
+    byStatus,
+    overdue: facets?.overdue[0]?.count ?? 0,
+    throughput: keys.map((period) => ({
+      period,
+      created: created.get(period) ?? 0,
+      completed: completed.get(period) ?? 0,
+    })),
+    cycleTime: {
+      tasks: cycleTime?.tasks ?? 0,
+      averageMs: cycleTime ? Math.round(cycleTime.averageMs) : null,
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { EventEmitter } from 'node:events';
+import { type FastifyBaseLogger } from 'fastify';
+import { TaskEventRecord, type ITaskEventRecord } from '../models/TaskEventRecord';
+import { resolveEventRecipients, subscribeTaskEvents, type TaskEvent } from './events';
+import { transactionsSupported } from './transactions';
+
+export interface StreamedTaskEvent {
+  event: TaskEvent;
+  // Users allowed to see the event, resolved once for every open stream
+  recipients: string[];
+}
+
+export type StreamListener = (streamed: StreamedTaskEvent) => void;
+
+const hub = new EventEmitter();
+hub.setMaxListeners(0);
+
+// Registers a listener for events to push to streaming clients; returns a function that removes it
+export function subscribeTaskStream(listener: StreamListener): () => void {
+  hub.on('event', listener);
+
+  return () => hub.off('event', listener);
+}
+
+async function broadcast(event: TaskEvent): Promise<void> {
+  const recipients = await resolveEventRecipients(event);
+
+  hub.emit('event', { event, recipients });
+}
+
+function fromRecord(record: ITaskEventRecord): TaskEvent {
+  return {
+    id: record.eventId,
+    type: record.type,
+    taskId: record.taskId,
+    userId: record.userId,
+    projectId: record.projectId,
+    audience: record.audience,
+    actorId: record.actorId,
+    occurredAt: record.occurredAt,
+    data: record.data ?? {},
+  };
+}
+
+/**
+ * Feeds task events to streaming clients. On a replica set, every instance writes
+ * the events it publishes to a collection and streams what all instances wrote
+ * back through a change stream, so clients see changes made on any instance. A
+ * standalone server has no change streams, so only this instance's events are
+ * streamed. Returns a function that stops the relay.
+ */
+export async function startTaskStreamRelay(log: FastifyBaseLogger): Promise<() => Promise<void>> {
+  const relayFailed = (error: Error) => {
+    log.error({ error: error.message }, 'Relaying a task event failed');
+  };
+
+  // Change streams have the same requirement as transactions
+  if (!(await transactionsSupported())) {
+    const unsubscribe = subscribeTaskEvents((event) => {
+      broadcast(event).catch(relayFailed);
+    });
+
+    return async () => unsubscribe();
+  }
+
+  const changeStream = TaskEventRecord.watch<ITaskEventRecord>([
+    { $match: { operationType: 'insert' } },
+  ]);
+
+  changeStream.on('change', (change: { fullDocument: ITaskEventRecord }) => {
+    broadcast(fromRecord(change.fullDocument)).catch(relayFailed);
+  });
+  changeStream.on('error', relayFailed);
+
+  const unsubscribe = subscribeTaskEvents((event) => {
+    const { id, ...rest } = event;
+
+    TaskEventRecord.create({ eventId: id, ...rest }).catch(relayFailed);
+  });
+
+  return async () => {
+    unsubscribe();
+    await changeStream.close();
+  };
+}
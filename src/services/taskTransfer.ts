@@ -0,0 +1,445 @@
+import { Task, TaskPriority, TaskStatus } from '../models/Task';
+import { ValidationError } from '../utils/errors';
+import { formatCsvRow, parseCsv, unescapeCsvCell } from '../utils/csv';
+import { escapeICalText, formatICalDate, formatICalLine } from '../utils/ical';
+import { describeError } from './bulkTasks';
+import { normalizeLabels } from './labels';
+import { type TaskListQuery } from './taskQuery';
+import { createTask, prepareTask, type CreateTaskInput } from './taskService';
+import { withTransaction } from './transactions';
+
+export enum ExportFormat {
+  CSV = 'csv',
+  JSON = 'json',
+  ICS = 'ics',
+}
+
+export enum ImportFormat {
+  CSV = 'csv',
+  JSON = 'json',
+}
+
+export enum ImportRowStatus {
+  CREATED = 'created',
+  // Dry runs only: the row would have been created
+  VALID = 'valid',
+  FAILED = 'failed',
+}
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ExportFormat.JSON]: 'application/json; charset=utf-8',
+  [ExportFormat.ICS]: 'text/calendar; charset=utf-8',
+};
+
+// Fields written by CSV and JSON exports, in column order
+const EXPORT_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'labels',
+  'assigneeId',
+  'projectId',
+  'parentId',
+  'startAt',
+  'dueAt',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+// Task fields an import can set
+export const IMPORT_FIELDS = [
+  'title',
+  'description',
+  'status',
+  'priority',
+  'labels',
+  'assigneeId',
+  'projectId',
+  'startAt',
+  'dueAt',
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Column names recognised without a mapping, compared lowercase without separators;
+// they cover this API's own exports and common Trello/Todoist-style columns
+const FIELD_ALIASES: Record<string, ImportField> = {
+  title: 'title',
+  name: 'title',
+  cardname: 'title',
+  content: 'title',
+  task: 'title',
+  summary: 'title',
+  description: 'description',
+  desc: 'description',
+  carddescription: 'description',
+  notes: 'description',
+  status: 'status',
+  state: 'status',
+  priority: 'priority',
+  labels: 'labels',
+  label: 'labels',
+  tags: 'labels',
+  categories: 'labels',
+  assigneeid: 'assigneeId',
+  assignee: 'assigneeId',
+  responsible: 'assigneeId',
+  projectid: 'projectId',
+  startat: 'startAt',
+  start: 'startAt',
+  startdate: 'startAt',
+  dueat: 'dueAt',
+  due: 'dueAt',
+  duedate: 'dueAt',
+  deadline: 'dueAt',
+};
+
+const STATUS_ALIASES: Record<string, TaskStatus> = {
+  todo: TaskStatus.TODO,
+  open: TaskStatus.TODO,
+  new: TaskStatus.TODO,
+  inprogress: TaskStatus.IN_PROGRESS,
+  doing: TaskStatus.IN_PROGRESS,
+  started: TaskStatus.IN_PROGRESS,
+  done: TaskStatus.DONE,
+  complete: TaskStatus.DONE,
+  completed: TaskStatus.DONE,
+  closed: TaskStatus.DONE,
+  archived: TaskStatus.ARCHIVED,
+};
+
+// Todoist-style p1 (highest) to p4
+const PRIORITY_ALIASES: Record<string, TaskPriority> = {
+  p1: TaskPriority.URGENT,
+  p2: TaskPriority.HIGH,
+  p3: TaskPriority.MEDIUM,
+  p4: TaskPriority.LOW,
+};
+
+const ICAL_STATUSES: Record<TaskStatus, string> = {
+  [TaskStatus.TODO]: 'NEEDS-ACTION',
+  [TaskStatus.IN_PROGRESS]: 'IN-PROCESS',
+  [TaskStatus.DONE]: 'COMPLETED',
+  [TaskStatus.ARCHIVED]: 'CANCELLED',
+};
+
+// iCalendar priorities run from 1 (highest) to 9
+const ICAL_PRIORITIES: Record<TaskPriority, number> = {
+  [TaskPriority.URGENT]: 1,
+  [TaskPriority.HIGH]: 3,
+  [TaskPriority.MEDIUM]: 5,
+  [TaskPriority.LOW]: 9,
+};
+
+type ExportedTask = Record<string, unknown> & { _id: unknown };
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  return Array.isArray(value) ? value.join(';') : String(value);
+}
+
+function formatVTodo(task: ExportedTask, host: string): string {
+  const status = task['status'] as TaskStatus;
+  const labels = task['labels'] as string[];
+  const dates: [string, unknown][] = [
+    ['DTSTAMP', task['updatedAt']],
+    ['CREATED', task['createdAt']],
+    ['LAST-MODIFIED', task['updatedAt']],
+    ['DTSTART', task['startAt']],
+    ['DUE', task['dueAt']],
+  ];
+
+  let lines = 'BEGIN:VTODO\r\n' + formatICalLine('UID', `${String(task._id)}@${host}`);
+
+  for (const [name, date] of dates) {
+    if (date instanceof Date) {
+      lines += formatICalLine(name, formatICalDate(date));
+    }
+  }
+
+  lines += formatICalLine('SUMMARY', escapeICalText(String(task['title'])));
+  lines += formatICalLine('DESCRIPTION', escapeICalText(String(task['description'])));
+  lines += formatICalLine('STATUS', ICAL_STATUSES[status]);
+  lines += formatICalLine('PRIORITY', String(ICAL_PRIORITIES[task['priority'] as TaskPriority]));
+
+  if (labels.length > 0) {
+    lines += formatICalLine('CATEGORIES', labels.map(escapeICalText).join(','));
+  }
+
+  return `${lines}END:VTODO\r\n`;
+}
+
+/**
+ * Streams every task matching a list query in the given format, reading them
+ * through a cursor so exports of any size use constant memory. `host` makes the
+ * iCalendar UIDs globally unique.
+ */
+export async function* exportTasks(
+  query: TaskListQuery,
+  format: ExportFormat,
+  host: string,
+): AsyncGenerator<string> {
+  const cursor = Task.find(query.filter)
+    .select(['_id', ...EXPORT_FIELDS])
+    .sort(query.sort)
+    .lean<ExportedTask[]>()
+    .cursor();
+
+  if (format === ExportFormat.CSV) {
+    yield formatCsvRow(['id', ...EXPORT_FIELDS]);
+  } else if (format === ExportFormat.JSON) {
+    yield '[';
+  } else {
+    yield 'BEGIN:VCALENDAR\r\nVERSION:2.0\r\nPRODID:-//Task Management API//EN\r\n';
+  }
+
+  let first = true;
+
+  for await (const task of cursor) {
+    if (format === ExportFormat.CSV) {
+      yield formatCsvRow([
+        String(task._id),
+        ...EXPORT_FIELDS.map((field) => csvValue(task[field])),
+      ]);
+    } else if (format === ExportFormat.JSON) {
+      const { _id, ...fields } = task;
+      yield `${first ? '' : ','}\n${JSON.stringify({ id: _id, ...fields })}`;
+    } else {
+      yield formatVTodo(task, host);
+    }
+
+    first = false;
+  }
+
+  if (format === ExportFormat.JSON) {
+    yield first ? ']\n' : '\n]\n';
+  } else if (format === ExportFormat.ICS) {
+    yield 'END:VCALENDAR\r\n';
+  }
+}
+
+export interface ImportRequest {
+  format: ImportFormat;
+  // CSV text, or an array of objects for JSON
+  data: string | unknown[];
+  // Source column or key -> task field; null ignores the column
+  mapping?: Record<string, ImportField | null>;
+  dryRun?: boolean;
+}
+
+export interface ImportRowResult {
+  // 1-based position among the data rows (the CSV header is not counted)
+  row: number;
+  id: string | null;
+  status: ImportRowStatus;
+  error?: { statusCode: number; message: string };
+}
+
+export interface ImportReport {
+  format: ImportFormat;
+  dryRun: boolean;
+  summary: { total: number; succeeded: number; failed: number };
+  results: ImportRowResult[];
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function resolveField(
+  key: string,
+  mapping: Record<string, ImportField | null>,
+): ImportField | null {
+  if (key in mapping) {
+    return mapping[key] ?? null;
+  }
+
+  return FIELD_ALIASES[normalizeKey(key)] ?? null;
+}
+
+function normalizeValue(field: ImportField, value: unknown): unknown {
+  if (typeof value === 'string') {
+    value = value.trim();
+
+    if (value === '') {
+      return undefined;
+    }
+  }
+
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+
+  switch (field) {
+    case 'status':
+      return typeof value === 'string'
+        ? (Object.values(TaskStatus).find((s) => s.toLowerCase() === value.toLowerCase()) ??
+            STATUS_ALIASES[normalizeKey(value)] ??
+            value)
+        : value;
+    case 'priority':
+      return typeof value === 'string'
+        ? (PRIORITY_ALIASES[value.toLowerCase()] ?? value.toLowerCase())
+        : value;
+    case 'labels':
+      if (Array.isArray(value)) {
+        // Trello-style label objects carry the name in `name`
+        return value.map((label) =>
+          typeof label === 'object' && label !== null ? (label as { name?: unknown }).name : label,
+        );
+      }
+
+      return typeof value === 'string'
+        ? value
+            .split(/[,;]/)
+            .map((label) => label.trim())
+            .filter((label) => label.length > 0)
+        : value;
+    default:
+      return value;
+  }
+}
+
+// Maps one source row onto task input, checking each value's type; unknown columns are ignored
+function toTaskInput(
+  row: Record<string, unknown>,
+  mapping: Record<string, ImportField | null>,
+): CreateTaskInput {
+  const input: Partial<CreateTaskInput> = {};
+
+  for (const [key, raw] of Object.entries(row)) {
+    const field = resolveField(key, mapping);
+    const value = field ? normalizeValue(field, raw) : undefined;
+
+    if (!field || value === undefined) {
+      continue;
+    }
+
+    if (field === 'labels') {
+      input.labels = normalizeLabels(value);
+      continue;
+    }
+
+    if (typeof value !== 'string') {
+      throw new ValidationError(`${field} must be a string`);
+    }
+
+    // Statuses and priorities are checked against their enums by prepareTask
+    if (field === 'status') {
+      input.status = value as TaskStatus;
+    } else if (field === 'priority') {
+      input.priority = value as TaskPriority;
+    } else {
+      input[field] = value;
+    }
+  }
+
+  const { title, description } = input;
+
+  if (!title || !description) {
+    throw new ValidationError('Title and description are required');
+  }
+
+  return { ...input, title, description };
+}
+
+function readRows(format: ImportFormat, data: string | unknown[]): unknown[] {
+  if (format === ImportFormat.JSON) {
+    if (!Array.isArray(data)) {
+      throw new ValidationError('data must be an array of objects for JSON imports');
+    }
+
+    return data;
+  }
+
+  if (typeof data !== 'string') {
+    throw new ValidationError('data must be CSV text for CSV imports');
+  }
+
+  let records: string[][];
+
+  try {
+    records = parseCsv(data);
+  } catch (error) {
+    throw new ValidationError(`Invalid CSV: ${(error as Error).message}`);
+  }
+
+  const [header = [], ...body] = records;
+
+  return body.map((record) =>
+    Object.fromEntries(header.map((column, i) => [column, unescapeCsvCell(record[i] ?? '')])),
+  );
+}
+
+/**
+ * Creates a task per CSV or JSON row with the same rules as POST /tasks. Rows
+ * succeed or fail on their own and every failure is reported with its row
+ * number. A dry run runs the same checks without writing anything.
+ */
+export async function importTasks(userId: string, request: ImportRequest): Promise<ImportReport> {
+  const { format, mapping = {}, dryRun = false } = request;
+  const rows = readRows(format, request.data);
+
+  if (rows.length === 0) {
+    throw new ValidationError('There are no rows to import');
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ValidationError(`Imports are limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const results: ImportRowResult[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    const number = index + 1;
+
+    if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+      results.push({
+        row: number,
+        id: null,
+        status: ImportRowStatus.FAILED,
+        error: { statusCode: 400, message: 'Row must be an object' },
+      });
+      continue;
+    }
+
+    try {
+      const input = toTaskInput(row as Record<string, unknown>, mapping);
+
+      if (dryRun) {
+        await prepareTask(userId, input);
+        results.push({ row: number, id: null, status: ImportRowStatus.VALID });
+      } else {
+        const task = await withTransaction(() => createTask(userId, input));
+        results.push({ row: number, id: String(task._id), status: ImportRowStatus.CREATED });
+      }
+    } catch (error) {
+      results.push({
+        row: number,
+        id: null,
+        status: ImportRowStatus.FAILED,
+        error: describeError(error),
+      });
+    }
+  }
+
+  const failed = results.filter((result) => result.status === ImportRowStatus.FAILED).length;
+
+  return {
+    format,
+    dryRun,
+    summary: { total: results.length, succeeded: results.length - failed, failed },
+    results,
+  };
+}
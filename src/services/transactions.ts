@@ -0,0 +1,43 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import mongoose from 'mongoose';
+import { collectTaskEvents, dispatchTaskEvent, type TaskEvent } from './events';
+
+let supported: boolean | undefined;
+
+// Set while a withTransaction() callback runs, so nested calls join the outer transaction
+const active = new AsyncLocalStorage<boolean>();
+
+// Transactions need a replica set or a sharded cluster; a standalone server has neither
+export async function transactionsSupported(): Promise<boolean> {
+  if (supported === undefined) {
+    const hello = await mongoose.connection.db!.admin().command({ hello: 1 });
+    supported = Boolean(hello['setName']) || hello['msg'] === 'isdbgrid';
+  }
+
+  return supported;
+}
+
+/**
+ * Runs `fn` in a transaction when the deployment supports them, otherwise runs it
+ * as is. Every query made inside joins the transaction automatically, and task
+ * events published inside are only dispatched once it has committed. Called inside
+ * another transaction, `fn` simply becomes part of it.
+ */
+export async function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  if (active.getStore() || !(await transactionsSupported())) {
+    return fn();
+  }
+
+  let events: TaskEvent[] = [];
+
+  const result = await mongoose.connection.transaction(async () => {
+    // A retried attempt starts with a fresh buffer
+    const collected = await active.run(true, () => collectTaskEvents(fn));
+    events = collected.events;
+    return collected.result;
+  });
+
+  events.forEach(dispatchTaskEvent);
+
+  return result;
+}
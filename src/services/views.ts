@@ -0,0 +1,184 @@
+import { SavedView, type ISavedView } from '../models/SavedView';
+import { User } from '../models/User';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { buildHighlights, parseSearchTerms } from '../utils/search';
+import {
+  buildTaskListQuery,
+  findTaskPage,
+  type TaskListFilters,
+  type TaskPageOptions,
+} from './taskQuery';
+
+export interface CreateViewInput {
+  name: string;
+  description?: string;
+  filters?: TaskListFilters;
+  sharedWith?: string[];
+}
+
+export type UpdateViewInput = Partial<CreateViewInput>;
+
+export const MAX_SHARED_USERS = 50;
+
+// Views the user owns or that were shared with them
+function readableViews(userId: string) {
+  return { $or: [{ userId }, { sharedWith: userId }] };
+}
+
+export async function findReadableView(id: string, userId: string) {
+  const view = await SavedView.findOne({ _id: id, ...readableViews(userId) });
+
+  if (!view) {
+    throw new NotFoundError('View not found');
+  }
+
+  return view;
+}
+
+async function findOwnView(id: string, userId: string) {
+  const view = await findReadableView(id, userId);
+
+  if (view.userId !== userId) {
+    throw new ForbiddenError('Only the owner can change a view');
+  }
+
+  return view;
+}
+
+async function assertNameAvailable(userId: string, name: string) {
+  if (await SavedView.exists({ userId, name })) {
+    throw new ConflictError(`View "${name}" already exists`);
+  }
+}
+
+async function assertShareable(userId: string, sharedWith: string[]) {
+  if (sharedWith.includes(userId)) {
+    throw new ValidationError('You cannot share a view with yourself');
+  }
+
+  const users = await User.find({ userId: { $in: sharedWith } })
+    .select('userId')
+    .lean();
+  const known = new Set(users.map((user) => user.userId));
+  const unknown = sharedWith.find((id) => !known.has(id));
+
+  if (unknown) {
+    throw new ValidationError(`Unknown user: ${unknown}`);
+  }
+}
+
+// The unique index settles a race between two requests that both passed assertNameAvailable
+async function saveWithUniqueName<T>(name: string, write: () => Promise<T>): Promise<T> {
+  try {
+    return await write();
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      throw new ConflictError(`View "${name}" already exists`);
+    }
+    throw error;
+  }
+}
+
+// A page of the views the user owns or that were shared with them, by name
+export async function listViews(userId: string, page: number, limit: number) {
+  const query = readableViews(userId);
+  const skip = (page - 1) * limit;
+
+  const [views, total] = await Promise.all([
+    SavedView.find(query).sort({ name: 1, _id: 1 }).skip(skip).limit(limit).lean(),
+    SavedView.countDocuments(query),
+  ]);
+
+  return {
+    data: views,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  };
+}
+
+export async function createView(userId: string, input: CreateViewInput) {
+  const { description = '', filters = {}, sharedWith = [] } = input;
+  const name = input.name.trim();
+
+  await assertNameAvailable(userId, name);
+  await assertShareable(userId, sharedWith);
+  // Rejects filters the owner could not run, such as a project they are not in
+  await buildTaskListQuery(userId, filters);
+
+  return saveWithUniqueName(name, () =>
+    SavedView.create({ userId, name, description, filters, sharedWith }),
+  );
+}
+
+// Renames a view, changes its filters or who it is shared with; owner only
+export async function updateView(id: string, userId: string, input: UpdateViewInput) {
+  const { description, filters, sharedWith } = input;
+  const name = input.name?.trim();
+
+  const updateData: Partial<Pick<ISavedView, 'name' | 'description' | 'filters' | 'sharedWith'>> =
+    {};
+  if (name !== undefined) updateData.name = name;
+  if (description !== undefined) updateData.description = description;
+  if (filters !== undefined) updateData.filters = filters;
+  if (sharedWith !== undefined) updateData.sharedWith = sharedWith;
+
+  if (Object.keys(updateData).length === 0) {
+    throw new ValidationError('No valid fields provided for update');
+  }
+
+  const view = await findOwnView(id, userId);
+
+  if (name !== undefined && name !== view.name) {
+    await assertNameAvailable(userId, name);
+  }
+
+  if (sharedWith !== undefined) {
+    await assertShareable(userId, sharedWith);
+  }
+
+  if (filters !== undefined) {
+    await buildTaskListQuery(userId, filters);
+  }
+
+  view.set(updateData);
+
+  return saveWithUniqueName(view.name, () => view.save());
+}
+
+// Deletes the user's own view, or takes them off the audience of one shared with them
+export async function deleteView(id: string, userId: string): Promise<void> {
+  const view = await findReadableView(id, userId);
+
+  if (view.userId === userId) {
+    await view.deleteOne();
+  } else {
+    await SavedView.updateOne({ _id: view._id }, { $pull: { sharedWith: userId } });
+  }
+}
+
+/**
+ * Runs a view with page or cursor paging. Shared views run with the caller's own
+ * access, so they only ever list tasks the caller could list themselves.
+ */
+export async function runView(id: string, userId: string, options: TaskPageOptions) {
+  const { filters } = await findReadableView(id, userId);
+
+  const query = await buildTaskListQuery(userId, filters);
+  const { data, pagination } = await findTaskPage(query, options);
+
+  const terms = filters.q ? parseSearchTerms(filters.q) : [];
+
+  return {
+    data: filters.q
+      ? data.map((task) => ({
+          ...task,
+          highlights: buildHighlights(task as { title?: string; description?: string }, terms),
+        }))
+      : data,
+    pagination,
+  };
+}
@@ -0,0 +1,195 @@
+import { type Types } from 'mongoose';
+import { Webhook } from '../models/Webhook';
+import { DeliveryStatus, WebhookDelivery, type IWebhookDelivery } from '../models/WebhookDelivery';
+import { signWebhookPayload } from '../utils/signature';
+import { resolveEventRecipients, toEventPayload, type TaskEvent } from './events';
+
+export interface WebhookRetryPolicy {
+  // Attempts before a delivery is given up on, counting the first one
+  maxAttempts: number;
+  // Delay before the first retry; each later retry waits twice as long as the previous one
+  baseDelayMs: number;
+  timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: WebhookRetryPolicy = {
+  maxAttempts: 6,
+  baseDelayMs: 30 * 1000,
+  timeoutMs: 10 * 1000,
+};
+
+const BATCH_SIZE = 50;
+
+export function retryDelay(attempts: number, policy: WebhookRetryPolicy): number {
+  return policy.baseDelayMs * 2 ** (attempts - 1);
+}
+
+/**
+ * Queues a delivery of `event` to every active subscription that asked for its
+ * type and whose owner can read the task. Returns the number queued.
+ */
+export async function enqueueWebhookDeliveries(event: TaskEvent): Promise<number> {
+  const recipients = await resolveEventRecipients(event);
+  const webhooks = await Webhook.find({
+    userId: { $in: recipients },
+    active: true,
+    events: event.type,
+  })
+    .select('userId')
+    .lean();
+
+  if (webhooks.length === 0) {
+    return 0;
+  }
+
+  const payload = toEventPayload(event);
+
+  await WebhookDelivery.insertMany(
+    webhooks.map((webhook) => ({
+      webhookId: webhook._id,
+      userId: webhook.userId,
+      eventId: event.id,
+      eventType: event.type,
+      payload,
+    })),
+  );
+
+  return webhooks.length;
+}
+
+// Takes the next due delivery, locking it for long enough to send it once
+async function claimDueDelivery(now: Date, policy: WebhookRetryPolicy, skip: Types.ObjectId[]) {
+  return WebhookDelivery.findOneAndUpdate(
+    {
+      // A delivery is attempted at most once per run, even if its retry is already due
+      _id: { $nin: skip },
+      status: DeliveryStatus.PENDING,
+      nextAttemptAt: { $lte: now },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+    },
+    { $set: { lockedUntil: new Date(now.getTime() + policy.timeoutMs * 2) } },
+    { sort: { nextAttemptAt: 1 }, new: true },
+  );
+}
+
+// Sends one delivery; any 2xx response counts as delivered
+async function sendDelivery(
+  delivery: IWebhookDelivery,
+  url: string,
+  secret: string,
+  policy: WebhookRetryPolicy,
+): Promise<{ responseStatus: number | null; error: string | null }> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'user-agent': 'task-manager-webhooks',
+        'x-webhook-id': delivery.eventId,
+        'x-webhook-event': delivery.eventType,
+        'x-webhook-timestamp': String(timestamp),
+        'x-webhook-signature': signWebhookPayload(secret, timestamp, body),
+      },
+      body,
+      // Redirects are not followed, so a delivery only ever reaches the registered URL
+      redirect: 'manual',
+      signal: AbortSignal.timeout(policy.timeoutMs),
+    });
+
+    // Nobody reads the body, but it has to be drained to release the connection
+    await response.arrayBuffer().catch(() => undefined);
+
+    return {
+      responseStatus: response.status,
+      error: response.ok ? null : `Receiver responded with HTTP ${response.status}`,
+    };
+  } catch (error) {
+    const { name, message } = error as Error;
+
+    return {
+      responseStatus: null,
+      error: name === 'TimeoutError' ? 'Receiver did not respond in time' : message,
+    };
+  }
+}
+
+/**
+ * Sends every delivery that is due, rescheduling failed ones with exponential
+ * backoff until the policy's attempts run out. Deliveries are claimed one at a
+ * time, so several instances can run this side by side. Returns the number sent.
+ */
+export async function deliverDueWebhooks(
+  policy: WebhookRetryPolicy = DEFAULT_RETRY_POLICY,
+  now = new Date(),
+): Promise<number> {
+  const handled: Types.ObjectId[] = [];
+  let sent = 0;
+
+  while (handled.length < BATCH_SIZE) {
+    const delivery = await claimDueDelivery(now, policy, handled);
+
+    if (!delivery) {
+      break;
+    }
+
+    handled.push(delivery._id as Types.ObjectId);
+
+    const webhook = await Webhook.findById(delivery.webhookId).select('+secret').lean();
+    const attempts = delivery.attempts + 1;
+    const attemptedAt = new Date();
+
+    if (!webhook || !webhook.active) {
+      await WebhookDelivery.updateOne(
+        { _id: delivery._id },
+        {
+          $set: {
+            status: DeliveryStatus.FAILED,
+            error: 'Webhook is disabled',
+            nextAttemptAt: null,
+            lockedUntil: null,
+          },
+        },
+      );
+      continue;
+    }
+
+    const { responseStatus, error } = await sendDelivery(
+      delivery,
+      webhook.url,
+      webhook.secret,
+      policy,
+    );
+
+    let status = DeliveryStatus.PENDING;
+    let nextAttemptAt: Date | null = new Date(attemptedAt.getTime() + retryDelay(attempts, policy));
+
+    if (!error) {
+      status = DeliveryStatus.SUCCEEDED;
+      nextAttemptAt = null;
+    } else if (attempts >= policy.maxAttempts) {
+      status = DeliveryStatus.FAILED;
+      nextAttemptAt = null;
+    }
+
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      {
+        $set: {
+          status,
+          attempts,
+          nextAttemptAt,
+          lastAttemptAt: attemptedAt,
+          responseStatus,
+          error,
+          lockedUntil: null,
+        },
+      },
+    );
+    sent++;
+  }
+
+  return sent;
+}
@@ -0,0 +1,65 @@
+import { type Types } from 'mongoose';
+import { TaskStatus, type IStatusChange } from '../models/Task';
+import { Project } from '../models/Project';
+import { InvalidTransitionError } from '../utils/errors';
+import { countOpenBlockers } from './taskGraph';
+
+export type Workflow = Record<TaskStatus, TaskStatus[]>;
+
+// Default transition graph: archived tasks can only be reopened as "To do"
+export const DEFAULT_WORKFLOW: Workflow = {
+  [TaskStatus.TODO]: [TaskStatus.IN_PROGRESS, TaskStatus.DONE, TaskStatus.ARCHIVED],
+  [TaskStatus.IN_PROGRESS]: [TaskStatus.TODO, TaskStatus.DONE, TaskStatus.ARCHIVED],
+  [TaskStatus.DONE]: [TaskStatus.IN_PROGRESS, TaskStatus.ARCHIVED],
+  [TaskStatus.ARCHIVED]: [TaskStatus.TODO],
+};
+
+// Resolves the workflow for a task: the default graph with any project overrides applied
+export async function getWorkflow(projectId: Types.ObjectId | null): Promise<Workflow> {
+  if (!projectId) {
+    return DEFAULT_WORKFLOW;
+  }
+
+  const project = await Project.findById(projectId).select('workflow').lean();
+
+  return { ...DEFAULT_WORKFLOW, ...(project?.workflow ?? {}) };
+}
+
+/**
+ * Checks a status change against the task's workflow and returns the history
+ * entry to record, or null when the status does not actually change. A task
+ * cannot be done while any of its blockers is still open.
+ */
+export async function planStatusChange(
+  task: { status: TaskStatus; projectId: Types.ObjectId | null; blockedBy?: Types.ObjectId[] },
+  to: TaskStatus,
+  userId: string,
+  comment?: string,
+): Promise<IStatusChange | null> {
+  if (task.status === to) {
+    return null;
+  }
+
+  const workflow = await getWorkflow(task.projectId);
+  const allowed = workflow[task.status] ?? [];
+
+  if (!allowed.includes(to)) {
+    throw new InvalidTransitionError(
+      `Cannot move task from "${task.status}" to "${to}". Allowed: ${
+        allowed.map((status) => `"${status}"`).join(', ') || 'none'
+      }`,
+    );
+  }
+
+  if (to === TaskStatus.DONE) {
+    const openBlockers = await countOpenBlockers(task.blockedBy ?? []);
+
+    if (openBlockers > 0) {
+      throw new InvalidTransitionError(
+        `Cannot move task to "${to}" while it is blocked by ${openBlockers} open task(s)`,
+      );
+    }
+  }
+
+  return { from: task.status, to, changedBy: userId, changedAt: new Date(), comment };
+}
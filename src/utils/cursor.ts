@@ -0,0 +1,35 @@
+import { ValidationError } from './errors';
+
+/**
+ * Position of a document in a sorted list: the value of the sort field and the
+ * document id that breaks ties. Encoded as base64url JSON so clients treat it as
+ * an opaque string.
+ */
+export interface Cursor {
+  field: string;
+  value: string | number | null;
+  id: string;
+}
+
+export function encodeCursor(field: string, value: unknown, id: unknown): string {
+  const normalized =
+    value instanceof Date ? value.toISOString() : (value as string | number | null | undefined);
+
+  return Buffer.from(JSON.stringify({ f: field, v: normalized ?? null, i: String(id) })).toString(
+    'base64url',
+  );
+}
+
+export function decodeCursor(cursor: string): Cursor {
+  try {
+    const { f, v, i } = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+
+    if (typeof f !== 'string' || typeof i !== 'string' || !/^[a-f0-9]{24}$/.test(i)) {
+      throw new Error('Malformed cursor');
+    }
+
+    return { field: f, value: v, id: i };
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+}
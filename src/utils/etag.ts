@@ -0,0 +1,75 @@
+import { createHash } from 'node:crypto';
+
+interface TaskRepresentation {
+  version?: number;
+  commentCount?: number;
+  progress?: { total: number; done: number };
+  reminderSentAt?: Date | null;
+}
+
+/**
+ * Strong ETag for a task: its version, which If-Match compares against, plus a digest
+ * of the bookkeeping fields written without a version bump (comment count, subtask
+ * progress, reminder), so a cached copy goes stale when any of them changes.
+ */
+export function taskETag(task: TaskRepresentation): string {
+  const digest = createHash('sha1')
+    .update(
+      JSON.stringify([
+        task.commentCount ?? 0,
+        task.progress?.total ?? 0,
+        task.progress?.done ?? 0,
+        task.reminderSentAt?.getTime() ?? null,
+      ]),
+    )
+    .digest('base64url')
+    .slice(0, 12);
+
+  return `"${task.version ?? 0}-${digest}"`;
+}
+
+// The entity tags listed in an If-Match or If-None-Match header; '*' matches any
+function parseETagList(header: string): string[] | '*' {
+  if (header.trim() === '*') {
+    return '*';
+  }
+
+  return header
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+}
+
+/**
+ * The task versions an If-Match header allows, or null when any version will do
+ * (no header, or `*`). Only the version part of a tag counts, so bookkeeping that
+ * does not bump the version never fails a write; a bare `"3"` is accepted too.
+ * Weak tags never match, as If-Match requires strong comparison.
+ */
+export function ifMatchVersions(header: string | undefined): number[] | null {
+  if (header === undefined) {
+    return null;
+  }
+
+  const tags = parseETagList(header);
+
+  if (tags === '*') {
+    return null;
+  }
+
+  return tags
+    .map((tag) => /^"(\d+)(?:-[\w-]+)?"$/.exec(tag)?.[1])
+    .filter((version): version is string => version !== undefined)
+    .map(Number);
+}
+
+// Whether an If-None-Match header matches the current ETag (weak comparison)
+export function ifNoneMatchHits(header: string | undefined, etag: string): boolean {
+  if (header === undefined) {
+    return false;
+  }
+
+  const tags = parseETagList(header);
+
+  return tags === '*' || tags.some((tag) => tag.replace(/^W\//, '') === etag);
+}
@@ -0,0 +1,46 @@
+// Escapes a TEXT value (RFC 5545 section 3.3.11)
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// UTC date-time in the basic format, e.g. 20240603T090000Z
+export function formatICalDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Formats one content line, folded so no line exceeds 75 octets; continuation
+ * lines start with a space. Multi-byte characters are never split.
+ */
+export function formatICalLine(name: string, value: string): string {
+  const line = `${name}:${value}`;
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const max = lines.length === 0 ? 75 : 74;
+
+    if (octets + size > max) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+
+    current += char;
+    octets += size;
+  }
+
+  lines.push(current);
+
+  return `${lines.join('\r\n ')}\r\n`;
+}
@@ -0,0 +1,240 @@
+import { ValidationError } from './errors';
+
+export enum Frequency {
+  DAILY = 'DAILY',
+  WEEKLY = 'WEEKLY',
+  MONTHLY = 'MONTHLY',
+  YEARLY = 'YEARLY',
+}
+
+/**
+ * The subset of RFC 5545 recurrence rules the API understands. Rules are evaluated
+ * in UTC against the series start, which always counts as the first occurrence.
+ */
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  // Weekdays, 0 = Sunday; WEEKLY, or every such weekday of the month for MONTHLY
+  byDay: number[];
+  // Days of the month, negative values counting back from the end; MONTHLY only
+  byMonthDay: number[];
+  count: number | null;
+  until: Date | null;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stops rules that can never match again (e.g. BYMONTHDAY=30 every February) from looping forever
+const MAX_PERIODS = 10000;
+
+function invalid(message: string): never {
+  throw new ValidationError(`Invalid recurrence rule: ${message}`);
+}
+
+function parsePositiveInt(value: string, name: string): number {
+  if (!/^[1-9][0-9]*$/.test(value)) {
+    invalid(`${name} must be a positive integer`);
+  }
+
+  return parseInt(value, 10);
+}
+
+// UNTIL is a UTC date (20241231) or date-time (20241231T235959Z)
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+
+  if (!match) {
+    invalid('UNTIL must look like 20241231 or 20241231T235959Z');
+  }
+
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59'] = match;
+  const until = new Date(Date.UTC(+year!, +month! - 1, +day!, +hours, +minutes, +seconds));
+
+  if (until.getUTCDate() !== +day!) {
+    invalid('UNTIL is not a valid date');
+  }
+
+  return until;
+}
+
+// Parses `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE`, with or without an `RRULE:` prefix
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+
+  for (const part of text
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')) {
+    const [key, value] = part.split('=');
+
+    if (!key || !value) {
+      invalid(`"${part}" is not KEY=VALUE`);
+    }
+
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as Frequency | undefined;
+
+  if (!freq || !Object.values(Frequency).includes(freq)) {
+    invalid(`FREQ must be one of ${Object.values(Frequency).join(', ')}`);
+  }
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    count: null,
+    until: null,
+  };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parsePositiveInt(value, 'INTERVAL');
+        break;
+      case 'COUNT':
+        rule.count = parsePositiveInt(value, 'COUNT');
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      case 'BYDAY':
+        if (freq !== Frequency.WEEKLY && freq !== Frequency.MONTHLY) {
+          invalid('BYDAY needs FREQ=WEEKLY or FREQ=MONTHLY');
+        }
+        rule.byDay = value.split(',').map((day) => {
+          const index = WEEKDAYS.indexOf(day);
+          return index === -1 ? invalid(`unknown weekday "${day}"`) : index;
+        });
+        break;
+      case 'BYMONTHDAY':
+        if (freq !== Frequency.MONTHLY) {
+          invalid('BYMONTHDAY needs FREQ=MONTHLY');
+        }
+        rule.byMonthDay = value.split(',').map((day) => {
+          const number = /^-?[1-9][0-9]?$/.test(day) ? parseInt(day, 10) : 0;
+          return Math.abs(number) >= 1 && Math.abs(number) <= 31
+            ? number
+            : invalid(`BYMONTHDAY "${day}" must be 1 to 31 or -1 to -31`);
+        });
+        break;
+      default:
+        invalid(`${key} is not supported`);
+    }
+  }
+
+  if (rule.count !== null && rule.until !== null) {
+    invalid('COUNT and UNTIL cannot be combined');
+  }
+
+  if (rule.byDay.length > 0 && rule.byMonthDay.length > 0) {
+    invalid('BYDAY and BYMONTHDAY cannot be combined');
+  }
+
+  return rule;
+}
+
+// Canonical text of a rule, as stored and returned by the API
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.map((d) => WEEKDAYS[d]).join(',')}`);
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== null) {
+    parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]|\.\d{3}/g, '')}`);
+  }
+
+  return parts.join(';');
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Every date the rule produces in the period'th repetition, in order, at the start's time of day
+function periodDates(rule: RecurrenceRule, start: Date, period: number): Date[] {
+  const time = start.getTime() % DAY_MS;
+  const at = (year: number, month: number, day: number) =>
+    new Date(Date.UTC(year, month, day) + time);
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case Frequency.DAILY:
+      return [new Date(start.getTime() + step * DAY_MS)];
+    case Frequency.WEEKLY: {
+      // Weeks start on Monday
+      const offset = (start.getUTCDay() + 6) % 7;
+      const monday = start.getTime() - offset * DAY_MS + step * 7 * DAY_MS;
+      const days = rule.byDay.length > 0 ? rule.byDay : [start.getUTCDay()];
+
+      return days
+        .map((day) => new Date(monday + ((day + 6) % 7) * DAY_MS))
+        .sort((a, b) => a.getTime() - b.getTime());
+    }
+    case Frequency.MONTHLY: {
+      const year = start.getUTCFullYear() + Math.floor((start.getUTCMonth() + step) / 12);
+      const month = (start.getUTCMonth() + step) % 12;
+      const length = daysInMonth(year, month);
+      let days: number[];
+
+      if (rule.byDay.length > 0) {
+        days = [];
+        for (let day = 1; day <= length; day++) {
+          if (rule.byDay.includes(new Date(Date.UTC(year, month, day)).getUTCDay())) {
+            days.push(day);
+          }
+        }
+      } else {
+        // Days the month does not have are skipped, as in RFC 5545
+        days = (rule.byMonthDay.length > 0 ? rule.byMonthDay : [start.getUTCDate()])
+          .map((day) => (day < 0 ? length + day + 1 : day))
+          .filter((day) => day >= 1 && day <= length);
+      }
+
+      return [...new Set(days)].sort((a, b) => a - b).map((day) => at(year, month, day));
+    }
+    case Frequency.YEARLY: {
+      const year = start.getUTCFullYear() + step;
+      const month = start.getUTCMonth();
+      const day = start.getUTCDate();
+
+      // February 29 only comes around in leap years
+      return day <= daysInMonth(year, month) ? [at(year, month, day)] : [];
+    }
+  }
+}
+
+/**
+ * The first `limit` occurrences strictly after `after`, for a series starting at
+ * `start`. COUNT is not applied here, since it depends on how many occurrences
+ * the series has already produced; UNTIL is.
+ */
+export function occurrencesAfter(
+  rule: RecurrenceRule,
+  start: Date,
+  after: Date,
+  limit = 1,
+): Date[] {
+  const dates: Date[] = [];
+
+  for (let period = 0; period < MAX_PERIODS && dates.length < limit; period++) {
+    for (const date of periodDates(rule, start, period)) {
+      if (rule.until && date > rule.until) {
+        return dates;
+      }
+
+      if (date > after && date >= start && dates.length < limit) {
+        dates.push(date);
+      }
+    }
+  }
+
+  return dates;
+}
@@ -0,0 +1,92 @@
+const SNIPPET_LENGTH = 160;
+
+export interface SearchHighlights {
+  title?: string;
+  description?: string;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Extracts the terms to highlight from a MongoDB $text search string:
+ * quoted phrases are kept whole and negated terms ("-foo") are dropped.
+ */
+export function parseSearchTerms(q: string): string[] {
+  const terms: string[] = [];
+
+  for (const [, phrase, word] of q.matchAll(/"([^"]+)"|(\S+)/g)) {
+    if (phrase) {
+      terms.push(phrase.trim());
+    } else if (word && !word.startsWith('-')) {
+      terms.push(word);
+    }
+  }
+
+  return terms.filter(Boolean);
+}
+
+/**
+ * Returns an HTML-escaped snippet of `text` around the first match, with every
+ * match wrapped in <mark>, or null when no term occurs in the text. Terms match
+ * word prefixes so stemmed hits ("task" in "tasks") are highlighted too.
+ */
+export function highlight(text: string, terms: string[]): string | null {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const pattern = new RegExp(`\\b(?:${terms.map(escapeRegExp).join('|')})\\w*`, 'gi');
+  const first = pattern.exec(text);
+
+  if (!first) {
+    return null;
+  }
+
+  let start = 0;
+  let end = text.length;
+
+  if (text.length > SNIPPET_LENGTH) {
+    start = Math.max(0, first.index - SNIPPET_LENGTH / 4);
+    end = Math.min(text.length, start + SNIPPET_LENGTH);
+  }
+
+  const snippet = text.slice(start, end);
+  let result = '';
+  let cursor = 0;
+
+  // matchAll starts from lastIndex, which the exec() above moved
+  pattern.lastIndex = 0;
+  for (const match of snippet.matchAll(pattern)) {
+    result += escapeHtml(snippet.slice(cursor, match.index));
+    result += `<mark>${escapeHtml(match[0])}</mark>`;
+    cursor = match.index + match[0].length;
+  }
+  result += escapeHtml(snippet.slice(cursor));
+
+  return `${start > 0 ? '…' : ''}${result}${end < text.length ? '…' : ''}`;
+}
+
+// Highlights for the searchable fields present on a (possibly projected) task
+export function buildHighlights(
+  task: { title?: string; description?: string },
+  terms: string[],
+): SearchHighlights {
+  const highlights: SearchHighlights = {};
+  const title = task.title ? highlight(task.title, terms) : null;
+  const description = task.description ? highlight(task.description, terms) : null;
+
+  if (title) highlights.title = title;
+  if (description) highlights.description = description;
+
+  return highlights;
+}
@@ -0,0 +1,75 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { getAuthConfig } from '../config/auth';
+
+export interface AccessTokenPayload {
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+const JWT_HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+// Issues a signed HS256 JWT whose subject is the user's id
+export function signAccessToken(userId: string): string {
+  const { jwtSecret, accessTokenTtlSeconds } = getAuthConfig();
+  const now = Math.floor(Date.now() / 1000);
+
+  const payload: AccessTokenPayload = { sub: userId, iat: now, exp: now + accessTokenTtlSeconds };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = sign(`${JWT_HEADER}.${encodedPayload}`, jwtSecret);
+
+  return `${JWT_HEADER}.${encodedPayload}.${signature}`;
+}
+
+// Returns the payload of a valid, unexpired token, or null otherwise
+export function verifyAccessToken(token: string): AccessTokenPayload | null {
+  const parts = token.split('.');
+
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [header, encodedPayload, signature] = parts as [string, string, string];
+
+  if (header !== JWT_HEADER) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${header}.${encodedPayload}`, getAuthConfig().jwtSecret));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(encodedPayload, 'base64url').toString(),
+    ) as AccessTokenPayload;
+
+    if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number') {
+      return null;
+    }
+
+    if (payload.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// Refresh tokens are opaque random strings; only their hash is persisted
+export function generateRefreshToken(): string {
+  return randomBytes(48).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
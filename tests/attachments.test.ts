@@ -0,0 +1,153 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { attachmentRoutes } from '../src/routes/attachments';
+import { Task, CollaboratorRole } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { Attachment } from '../src/models/Attachment';
+import { authHeaders } from './helpers';
+import './setup';
+
+const BOUNDARY = 'test-boundary';
+
+// A multipart/form-data request carrying one file
+function upload(filename: string, contentType: string, content: string) {
+  return {
+    headers: { 'content-type': `multipart/form-data; boundary=${BOUNDARY}` },
+    payload:
+      `--${BOUNDARY}\r\n` +
+      `Content-Disposition: form-data; name="file"; filename="${filename}"\r\n` +
+      `Content-Type: ${contentType}\r\n\r\n` +
+      `${content}\r\n` +
+      `--${BOUNDARY}--\r\n`,
+  };
+}
+
+describe('Task attachments', () => {
+  let app: FastifyInstance;
+  let directory: string;
+  let taskId: string;
+  const ownerId = 'attach-owner';
+  const viewerId = 'attach-viewer';
+  let ownerHeaders: { authorization: string };
+  let viewerHeaders: { authorization: string };
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'attachments-'));
+    process.env['ATTACHMENT_STORAGE'] = 'local';
+    process.env['ATTACHMENTS_DIR'] = directory;
+    process.env['ATTACHMENT_MAX_BYTES'] = '64';
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+    delete process.env['ATTACHMENT_STORAGE'];
+    delete process.env['ATTACHMENTS_DIR'];
+    delete process.env['ATTACHMENT_MAX_BYTES'];
+  });
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+    await Attachment.deleteMany({});
+
+    ownerHeaders = await authHeaders(ownerId);
+    viewerHeaders = await authHeaders(viewerId);
+
+    const task = await Task.create({
+      title: 'With files',
+      description: 'Has attachments',
+      userId: ownerId,
+      collaborators: [{ userId: viewerId, role: CollaboratorRole.VIEWER }],
+    });
+    taskId = String(task._id);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    app.register(attachmentRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function attach(headers: { authorization: string }, request: ReturnType<typeof upload>) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v1/tasks/${taskId}/attachments`,
+      headers: { ...headers, ...request.headers },
+      payload: request.payload,
+    });
+  }
+
+  test('should upload, list and download an attachment', async () => {
+    const created = await attach(ownerHeaders, upload('notes.txt', 'text/plain', 'Hello there'));
+
+    expect(created.statusCode).toBe(201);
+    const { data } = JSON.parse(created.body);
+    expect(data.filename).toBe('notes.txt');
+    expect(data.size).toBe(11);
+
+    const list = await app.inject({
+      method: 'GET',
+      url: `/api/v1/tasks/${taskId}/attachments`,
+      headers: viewerHeaders,
+    });
+    expect(JSON.parse(list.body).data).toHaveLength(1);
+
+    const download = await app.inject({
+      method: 'GET',
+      url: `/api/v1/tasks/${taskId}/attachments/${data._id}`,
+      headers: viewerHeaders,
+    });
+
+    expect(download.statusCode).toBe(200);
+    expect(download.body).toBe('Hello there');
+    expect(download.headers['content-disposition']).toContain('filename="notes.txt"');
+    expect(download.headers['x-content-type-options']).toBe('nosniff');
+  });
+
+  test('should reject files over the size limit', async () => {
+    const response = await attach(ownerHeaders, upload('big.txt', 'text/plain', 'x'.repeat(100)));
+
+    expect(response.statusCode).toBe(413);
+    expect(await Attachment.countDocuments({})).toBe(0);
+  });
+
+  test('should reject types that are not allowed', async () => {
+    const response = await attach(ownerHeaders, upload('run.sh', 'application/x-sh', 'echo hi'));
+
+    expect(response.statusCode).toBe(415);
+  });
+
+  test('should not let a viewer upload', async () => {
+    const response = await attach(viewerHeaders, upload('notes.txt', 'text/plain', 'Hi'));
+
+    expect(response.statusCode).toBe(403);
+  });
+
+  test('should delete an attachment and its file', async () => {
+    const created = await attach(ownerHeaders, upload('image.png', 'image/png', 'not-a-png'));
+    const attachmentId = JSON.parse(created.body).data._id;
+    const url = `/api/v1/tasks/${taskId}/attachments/${attachmentId}`;
+
+    const response = await app.inject({ method: 'DELETE', url, headers: ownerHeaders });
+    expect(response.statusCode).toBe(204);
+
+    const download = await app.inject({ method: 'GET', url, headers: ownerHeaders });
+    expect(download.statusCode).toBe(404);
+  });
+
+  test('should remove attachments when a task is erased', async () => {
+    await attach(ownerHeaders, upload('notes.txt', 'text/plain', 'Bye'));
+
+    await app.inject({
+      method: 'DELETE',
+      url: `/api/v1/tasks/${taskId}?permanent=true`,
+      headers: ownerHeaders,
+    });
+
+    expect(await Attachment.countDocuments({})).toBe(0);
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { authRoutes } from '../src/routes/auth';
+import { taskRoutes } from '../src/routes/tasks';
+import { User } from '../src/models/User';
+import { RefreshToken } from '../src/models/RefreshToken';
+import './setup';
+
+describe('Auth API', () => {
+  let app: FastifyInstance;
+  const credentials = { userId: 'auth-user', password: 'super-secret-password' };
+
+  beforeEach(async () => {
+    await User.deleteMany({});
+    await RefreshToken.deleteMany({});
+
+    app = Fastify();
+    app.register(authRoutes, { prefix: '/api/v1' });
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function register() {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v1/auth/register',
+      payload: credentials,
+    });
+  }
+
+  describe('POST /api/v1/auth/register', () => {
+    test('should register a user and issue tokens', async () => {
+      const response = await register();
+
+      expect(response.statusCode).toBe(201);
+      const body = JSON.parse(response.body);
+      expect(body.data.userId).toBe(credentials.userId);
+      expect(body.data.tokenType).toBe('Bearer');
+      expect(typeof body.data.accessToken).toBe('string');
+      expect(typeof body.data.refreshToken).toBe('string');
+
+      const user = await User.findOne({ userId: credentials.userId }).select('+passwordHash');
+      expect(user?.passwordHash).not.toBe(credentials.password);
+    });
+
+    test('should reject a duplicate user', async () => {
+      await register();
+      const response = await register();
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    test('should reject a short password', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/register',
+        payload: { userId: 'short-pass', password: 'short' },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /api/v1/auth/login', () => {
+    test('should log in with valid credentials', async () => {
+      await register();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login',
+        payload: credentials,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(typeof body.data.accessToken).toBe('string');
+    });
+
+    test('should reject a wrong password', async () => {
+      await register();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login',
+        payload: { ...credentials, password: 'not-the-password' },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('POST /api/v1/auth/refresh', () => {
+    test('should rotate the refresh token', async () => {
+      const { refreshToken } = JSON.parse((await register()).body).data;
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.refreshToken).not.toBe(refreshToken);
+
+      // The old token cannot be reused
+      const replay = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken },
+      });
+
+      expect(replay.statusCode).toBe(401);
+    });
+
+    test('should reject a revoked refresh token', async () => {
+      const { refreshToken } = JSON.parse((await register()).body).data;
+
+      await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/logout',
+        payload: { refreshToken },
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('Protected routes', () => {
+    test('should accept an issued access token', async () => {
+      const { accessToken } = JSON.parse((await register()).body).data;
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks',
+        headers: { authorization: `Bearer ${accessToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    test('should reject a tampered access token', async () => {
+      const { accessToken } = JSON.parse((await register()).body).data;
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks',
+        headers: { authorization: `Bearer ${accessToken}x` },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    test('should no longer trust the x-user-id header', async () => {
+      await register();
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks',
+        headers: { 'x-user-id': credentials.userId },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { bulkRoutes } from '../src/routes/bulk';
+import { Task, TaskStatus } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { transactionsSupported } from '../src/services/transactions';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Bulk task operations', () => {
+  let app: FastifyInstance;
+  const testUserId = 'bulk-user';
+  const otherUserId = 'bulk-other';
+  let testHeaders: { authorization: string };
+  let ownIds: string[];
+  let otherId: string;
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+
+    const own = await Task.create([
+      { title: 'One', description: 'Mine', status: TaskStatus.DONE, userId: testUserId },
+      { title: 'Two', description: 'Mine', status: TaskStatus.DONE, userId: testUserId },
+      { title: 'Three', description: 'Mine', status: TaskStatus.TODO, userId: testUserId },
+    ]);
+    ownIds = own.map((task) => String(task._id));
+
+    const other = await Task.create({
+      title: 'Theirs',
+      description: 'Not mine',
+      userId: otherUserId,
+    });
+    otherId = String(other._id);
+
+    app = Fastify();
+    app.register(bulkRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function bulk(payload: Record<string, unknown>) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v1/tasks/bulk',
+      headers: testHeaders,
+      payload,
+    });
+  }
+
+  test('should create several tasks and report invalid ones', async () => {
+    const response = await bulk({
+      action: 'create',
+      items: [
+        { title: 'New 1', description: 'Created in bulk' },
+        { title: 'New 2', description: 'Created in bulk', dueAt: 'not a date' },
+        { title: 'New 3', description: 'Created in bulk' },
+      ],
+    });
+
+    expect(response.statusCode).toBe(200);
+    const { data } = JSON.parse(response.body);
+    expect(data.summary).toEqual({ total: 3, succeeded: 2, failed: 1 });
+    expect(data.results[1].status).toBe('failed');
+    expect(data.results[1].error.statusCode).toBe(400);
+    expect(data.results[0].id).toBeString();
+    expect(await Task.countDocuments({ userId: testUserId })).toBe(5);
+  });
+
+  test('should reject malformed items and changes outright', async () => {
+    const items = await bulk({ action: 'create', items: [{ title: 'No description' }] });
+    expect(items.statusCode).toBe(400);
+
+    const changes = await bulk({ action: 'update', ids: ownIds, changes: { priority: 'soon' } });
+    expect(changes.statusCode).toBe(400);
+    expect(await Task.countDocuments({ userId: testUserId })).toBe(3);
+  });
+
+  test('should update tasks by id and report per-item errors', async () => {
+    const response = await bulk({
+      action: 'update',
+      ids: [...ownIds, otherId],
+      changes: { status: TaskStatus.ARCHIVED },
+    });
+
+    const { data } = JSON.parse(response.body);
+    expect(data.summary).toEqual({ total: 4, succeeded: 3, failed: 1 });
+    expect(data.results[3].id).toBe(otherId);
+    expect(data.results[3].error.statusCode).toBe(404);
+    expect(await Task.countDocuments({ status: TaskStatus.ARCHIVED })).toBe(3);
+  });
+
+  test('should update the tasks matching a filter', async () => {
+    const response = await bulk({
+      action: 'update',
+      filter: { status: [TaskStatus.DONE] },
+      changes: { status: TaskStatus.ARCHIVED },
+    });
+
+    const { data } = JSON.parse(response.body);
+    expect(data.summary.succeeded).toBe(2);
+
+    const archived = await Task.find({ status: TaskStatus.ARCHIVED }).sort({ title: 1 });
+    expect(archived.map((task) => task.title)).toEqual(['One', 'Two']);
+  });
+
+  test('should move tasks to the trash', async () => {
+    const response = await bulk({ action: 'delete', ids: ownIds.slice(0, 2) });
+
+    const { data } = JSON.parse(response.body);
+    expect(data.summary.succeeded).toBe(2);
+    expect(await Task.countDocuments({ userId: testUserId, deletedAt: { $ne: null } })).toBe(2);
+  });
+
+  test('should require either ids or a filter', async () => {
+    const response = await bulk({ action: 'delete' });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  test('should roll an atomic batch back when an item fails', async () => {
+    const response = await bulk({
+      action: 'update',
+      ids: [ownIds[0], otherId, ownIds[1]],
+      changes: { status: TaskStatus.ARCHIVED },
+      atomic: true,
+    });
+
+    if (!(await transactionsSupported())) {
+      // Standalone servers cannot run transactions
+      expect(response.statusCode).toBe(400);
+      return;
+    }
+
+    const { data } = JSON.parse(response.body);
+    expect(data.committed).toBe(false);
+    expect(data.results.map((r: { status: string }) => r.status)).toEqual([
+      'rolled_back',
+      'failed',
+      'skipped',
+    ]);
+    expect(await Task.countDocuments({ status: TaskStatus.ARCHIVED })).toBe(0);
+  });
+});
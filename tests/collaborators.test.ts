@@ -0,0 +1,240 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { collaboratorRoutes } from '../src/routes/collaborators';
+import { Task, TaskStatus, CollaboratorRole } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Task sharing', () => {
+  let app: FastifyInstance;
+  let taskId: string;
+  const ownerId = 'owner-user';
+  const viewerId = 'viewer-user';
+  const editorId = 'editor-user';
+  const strangerId = 'stranger-user';
+  let ownerHeaders: { authorization: string };
+  let viewerHeaders: { authorization: string };
+  let editorHeaders: { authorization: string };
+  let strangerHeaders: { authorization: string };
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+
+    ownerHeaders = await authHeaders(ownerId);
+    viewerHeaders = await authHeaders(viewerId);
+    editorHeaders = await authHeaders(editorId);
+    strangerHeaders = await authHeaders(strangerId);
+
+    const task = await Task.create({
+      title: 'Shared Task',
+      description: 'Shared with the team',
+      status: TaskStatus.TODO,
+      userId: ownerId,
+      collaborators: [
+        { userId: viewerId, role: CollaboratorRole.VIEWER },
+        { userId: editorId, role: CollaboratorRole.EDITOR },
+      ],
+    });
+    taskId = String(task._id);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    app.register(collaboratorRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  describe('PUT /api/v1/tasks/:id/collaborators/:userId', () => {
+    test('should share a task with another user', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/v1/tasks/${taskId}/collaborators/${strangerId}`,
+        headers: ownerHeaders,
+        payload: { role: CollaboratorRole.VIEWER },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.collaborators).toHaveLength(3);
+    });
+
+    test('should change the role of an existing collaborator', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/v1/tasks/${taskId}/collaborators/${viewerId}`,
+        headers: ownerHeaders,
+        payload: { role: CollaboratorRole.EDITOR },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.collaborators).toHaveLength(2);
+      expect(
+        body.data.collaborators.find((c: { userId: string }) => c.userId === viewerId).role,
+      ).toBe(CollaboratorRole.EDITOR);
+    });
+
+    test('should not let an editor re-share the task', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/v1/tasks/${taskId}/collaborators/${strangerId}`,
+        headers: editorHeaders,
+        payload: { role: CollaboratorRole.VIEWER },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    test('should reject an unknown user', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/v1/tasks/${taskId}/collaborators/nobody`,
+        headers: ownerHeaders,
+        payload: { role: CollaboratorRole.VIEWER },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/v1/tasks/:id/collaborators/:userId', () => {
+    test('should revoke access', async () => {
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/tasks/${taskId}/collaborators/${viewerId}`,
+        headers: ownerHeaders,
+      });
+
+      expect(response.statusCode).toBe(204);
+
+      const read = await app.inject({
+        method: 'GET',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: viewerHeaders,
+      });
+      expect(read.statusCode).toBe(404);
+    });
+
+    test('should let a collaborator leave a task', async () => {
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/tasks/${taskId}/collaborators/${editorId}`,
+        headers: editorHeaders,
+      });
+
+      expect(response.statusCode).toBe(204);
+    });
+  });
+
+  describe('Role enforcement', () => {
+    test('viewer can read but not update', async () => {
+      const read = await app.inject({
+        method: 'GET',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: viewerHeaders,
+      });
+      expect(read.statusCode).toBe(200);
+
+      const update = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: viewerHeaders,
+        payload: { title: 'Viewer edit' },
+      });
+      expect(update.statusCode).toBe(403);
+    });
+
+    test('editor can update but not delete', async () => {
+      const update = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: editorHeaders,
+        payload: { title: 'Editor edit' },
+      });
+      expect(update.statusCode).toBe(200);
+
+      const remove = await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: editorHeaders,
+      });
+      expect(remove.statusCode).toBe(403);
+    });
+
+    test('editor cannot assign the task to a user without access', async () => {
+      const outsider = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: editorHeaders,
+        payload: { assigneeId: strangerId },
+      });
+      expect(outsider.statusCode).toBe(403);
+
+      const collaborator = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: editorHeaders,
+        payload: { assigneeId: viewerId },
+      });
+      expect(collaborator.statusCode).toBe(200);
+    });
+
+    test('stranger cannot see the task', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: strangerHeaders,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /api/v1/tasks?scope=', () => {
+    beforeEach(async () => {
+      await Task.create({
+        title: 'Viewer Task',
+        description: 'Owned by the viewer',
+        userId: viewerId,
+      });
+    });
+
+    test('should list owned tasks by default', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks',
+        headers: viewerHeaders,
+      });
+
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0].userId).toBe(viewerId);
+    });
+
+    test('should list tasks shared with me', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks?scope=shared',
+        headers: viewerHeaders,
+      });
+
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0].userId).toBe(ownerId);
+    });
+
+    test('should list owned and shared tasks together', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks?scope=all',
+        headers: viewerHeaders,
+      });
+
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { commentRoutes } from '../src/routes/comments';
+import { Task, CollaboratorRole } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { Comment } from '../src/models/Comment';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Task comments', () => {
+  let app: FastifyInstance;
+  let taskId: string;
+  const ownerId = 'comment-owner';
+  const viewerId = 'comment-viewer';
+  const strangerId = 'comment-stranger';
+  let ownerHeaders: { authorization: string };
+  let viewerHeaders: { authorization: string };
+  let strangerHeaders: { authorization: string };
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+    await Comment.deleteMany({});
+
+    ownerHeaders = await authHeaders(ownerId);
+    viewerHeaders = await authHeaders(viewerId);
+    strangerHeaders = await authHeaders(strangerId);
+
+    const task = await Task.create({
+      title: 'Discussed',
+      description: 'Needs input',
+      userId: ownerId,
+      collaborators: [{ userId: viewerId, role: CollaboratorRole.VIEWER }],
+    });
+    taskId = String(task._id);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    app.register(commentRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function comment(headers: { authorization: string }, body: string) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v1/tasks/${taskId}/comments`,
+      headers,
+      payload: { body },
+    });
+  }
+
+  test('should add a comment and count it on the task', async () => {
+    const response = await comment(viewerHeaders, 'Looks good to me');
+
+    expect(response.statusCode).toBe(201);
+    const { data } = JSON.parse(response.body);
+    expect(data.authorId).toBe(viewerId);
+    expect(data.editedAt).toBeNull();
+
+    const list = await app.inject({ method: 'GET', url: '/api/v1/tasks', headers: ownerHeaders });
+    expect(JSON.parse(list.body).data[0].commentCount).toBe(1);
+  });
+
+  test('should list comments oldest first', async () => {
+    await comment(ownerHeaders, 'First');
+    await comment(viewerHeaders, 'Second');
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v1/tasks/${taskId}/comments`,
+      headers: viewerHeaders,
+    });
+
+    const body = JSON.parse(response.body);
+    expect(body.data.map((c: { body: string }) => c.body)).toEqual(['First', 'Second']);
+    expect(body.pagination.total).toBe(2);
+  });
+
+  test('should hide comments from users who cannot read the task', async () => {
+    await comment(ownerHeaders, 'Internal');
+
+    const list = await app.inject({
+      method: 'GET',
+      url: `/api/v1/tasks/${taskId}/comments`,
+      headers: strangerHeaders,
+    });
+    expect(list.statusCode).toBe(404);
+
+    expect((await comment(strangerHeaders, 'Let me in')).statusCode).toBe(404);
+  });
+
+  test('should only record mentions of users who can read the task', async () => {
+    const response = await comment(
+      ownerHeaders,
+      `@${viewerId} can you check? cc @${strangerId} @nobody-here`,
+    );
+
+    const { data } = JSON.parse(response.body);
+    expect(data.mentions).toEqual([viewerId]);
+  });
+
+  test('should let only the author edit a comment', async () => {
+    const created = await comment(viewerHeaders, 'Typo here');
+    const commentId = JSON.parse(created.body).data._id;
+    const url = `/api/v1/tasks/${taskId}/comments/${commentId}`;
+
+    const denied = await app.inject({
+      method: 'PATCH',
+      url,
+      headers: ownerHeaders,
+      payload: { body: 'Rewritten' },
+    });
+    expect(denied.statusCode).toBe(403);
+
+    const edited = await app.inject({
+      method: 'PATCH',
+      url,
+      headers: viewerHeaders,
+      payload: { body: 'No typo here' },
+    });
+
+    expect(edited.statusCode).toBe(200);
+    const { data } = JSON.parse(edited.body);
+    expect(data.body).toBe('No typo here');
+    expect(data.editedAt).not.toBeNull();
+  });
+
+  test('should let the task owner delete any comment', async () => {
+    const created = await comment(viewerHeaders, 'Off topic');
+    const commentId = JSON.parse(created.body).data._id;
+
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/v1/tasks/${taskId}/comments/${commentId}`,
+      headers: ownerHeaders,
+    });
+
+    expect(response.statusCode).toBe(204);
+    const task = await Task.findById(taskId);
+    expect(task?.commentCount).toBe(0);
+  });
+
+  test('should not let a viewer delete comments by others', async () => {
+    const created = await comment(ownerHeaders, 'Keep this');
+    const commentId = JSON.parse(created.body).data._id;
+
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/v1/tasks/${taskId}/comments/${commentId}`,
+      headers: viewerHeaders,
+    });
+
+    expect(response.statusCode).toBe(403);
+  });
+
+  test('should delete comments when a task is erased', async () => {
+    await comment(ownerHeaders, 'Soon gone');
+
+    await app.inject({
+      method: 'DELETE',
+      url: `/api/v1/tasks/${taskId}?permanent=true`,
+      headers: ownerHeaders,
+    });
+
+    expect(await Comment.countDocuments({})).toBe(0);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { commentRoutes } from '../src/routes/comments';
+import { transitionRoutes } from '../src/routes/transitions';
+import { Task, TaskStatus } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Task ETags and conditional requests', () => {
+  let app: FastifyInstance;
+  const testUserId = 'etag-user';
+  let testHeaders: { authorization: string };
+  let taskId: string;
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+
+    const task = await Task.create({
+      title: 'Versioned',
+      description: 'Edited by two people',
+      userId: testUserId,
+    });
+    taskId = String(task._id);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    app.register(commentRoutes, { prefix: '/api/v1' });
+    app.register(transitionRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function getTask(headers: Record<string, string> = {}) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/v1/tasks/${taskId}`,
+      headers: { ...testHeaders, ...headers },
+    });
+  }
+
+  async function patchTask(payload: Record<string, unknown>, headers: Record<string, string>) {
+    return app.inject({
+      method: 'PATCH',
+      url: `/api/v1/tasks/${taskId}`,
+      headers: { ...testHeaders, ...headers },
+      payload,
+    });
+  }
+
+  test('should return an ETag that changes on every update', async () => {
+    const before = await getTask();
+    expect(before.headers['etag']).toStartWith('"0-');
+
+    const updated = await patchTask({ title: 'Renamed' }, {});
+    expect(updated.headers['etag']).toStartWith('"1-');
+    expect(JSON.parse(updated.body).data.version).toBe(1);
+
+    expect((await getTask()).headers['etag']).toBe(updated.headers['etag']);
+  });
+
+  test('should change the ETag but not the version when a comment is added', async () => {
+    const before = await getTask();
+    const etag = before.headers['etag'] as string;
+
+    const comment = await app.inject({
+      method: 'POST',
+      url: `/api/v1/tasks/${taskId}/comments`,
+      headers: testHeaders,
+      payload: { body: 'Looks good' },
+    });
+    expect(comment.statusCode).toBe(201);
+
+    const after = await getTask({ 'if-none-match': etag });
+    expect(after.statusCode).toBe(200);
+    expect(after.headers['etag']).not.toBe(etag);
+    expect(JSON.parse(after.body).data.commentCount).toBe(1);
+    expect(JSON.parse(after.body).data.version).toBe(0);
+
+    // Writes made with the ETag fetched before the comment still go through
+    expect((await patchTask({ title: 'Renamed' }, { 'if-match': etag })).statusCode).toBe(200);
+  });
+
+  test('should answer 304 when If-None-Match has the current ETag', async () => {
+    const { headers } = await getTask();
+
+    const cached = await getTask({ 'if-none-match': headers['etag'] as string });
+    expect(cached.statusCode).toBe(304);
+    expect(cached.body).toBe('');
+
+    await patchTask({ title: 'Renamed' }, {});
+
+    const stale = await getTask({ 'if-none-match': headers['etag'] as string });
+    expect(stale.statusCode).toBe(200);
+  });
+
+  test('should reject an update whose If-Match is stale', async () => {
+    const { headers } = await getTask();
+    const etag = headers['etag'] as string;
+
+    expect((await patchTask({ title: 'First edit' }, { 'if-match': etag })).statusCode).toBe(200);
+
+    const second = await patchTask({ title: 'Second edit' }, { 'if-match': etag });
+    expect(second.statusCode).toBe(412);
+
+    const task = await Task.findById(taskId);
+    expect(task?.title).toBe('First edit');
+  });
+
+  test('should honour If-Match on delete', async () => {
+    await patchTask({ title: 'Changed' }, {});
+
+    const stale = await app.inject({
+      method: 'DELETE',
+      url: `/api/v1/tasks/${taskId}`,
+      headers: { ...testHeaders, 'if-match': '"0"' },
+    });
+    expect(stale.statusCode).toBe(412);
+
+    const current = await app.inject({
+      method: 'DELETE',
+      url: `/api/v1/tasks/${taskId}`,
+      headers: { ...testHeaders, 'if-match': '"1"' },
+    });
+    expect(current.statusCode).toBe(204);
+  });
+
+  test('should honour If-Match on status transitions', async () => {
+    await patchTask({ title: 'Renamed' }, {});
+
+    const transition = (etag: string) =>
+      app.inject({
+        method: 'POST',
+        url: `/api/v1/tasks/${taskId}/transitions`,
+        headers: { ...testHeaders, 'if-match': etag },
+        payload: { to: TaskStatus.IN_PROGRESS },
+      });
+
+    expect((await transition('"0"')).statusCode).toBe(412);
+
+    const current = await transition('"1"');
+    expect(current.statusCode).toBe(201);
+    expect(current.headers['etag']).toStartWith('"2-');
+  });
+
+  test('should still return 404 for a missing task with If-Match', async () => {
+    const response = await app.inject({
+      method: 'PATCH',
+      url: '/api/v1/tasks/507f1f77bcf86cd799439011',
+      headers: { ...testHeaders, 'if-match': '"0"' },
+      payload: { title: 'Nothing here' },
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { Task, TaskStatus } from '../src/models/Task';
+import type { ITask } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Task list filtering and sorting', () => {
+  let app: FastifyInstance;
+  const testUserId = 'filter-user';
+  let testHeaders: { authorization: string };
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+
+    await Task.create([
+      {
+        title: 'Alpha',
+        description: 'First',
+        status: TaskStatus.TODO,
+        userId: testUserId,
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+      },
+      {
+        title: 'Bravo',
+        description: 'Second',
+        status: TaskStatus.IN_PROGRESS,
+        userId: testUserId,
+        createdAt: new Date('2024-02-01T00:00:00Z'),
+      },
+      {
+        title: 'Charlie',
+        description: 'Third',
+        status: TaskStatus.DONE,
+        userId: testUserId,
+        createdAt: new Date('2024-03-01T00:00:00Z'),
+      },
+    ]);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function list(query: string) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/v1/tasks?${query}`,
+      headers: testHeaders,
+    });
+  }
+
+  test('should filter by several statuses', async () => {
+    const response = await list(`status=${TaskStatus.TODO}&status=${TaskStatus.DONE}`);
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.data.map((task: ITask) => task.title).sort()).toEqual(['Alpha', 'Charlie']);
+  });
+
+  test('should filter by a createdAt range', async () => {
+    const response = await list('createdAfter=2024-01-15&createdBefore=2024-02-15');
+
+    const body = JSON.parse(response.body);
+    expect(body.data).toHaveLength(1);
+    expect(body.data[0].title).toBe('Bravo');
+  });
+
+  test('should include the whole day of a date-only upper bound', async () => {
+    await Task.create({
+      title: 'Delta',
+      description: 'Fourth',
+      userId: testUserId,
+      createdAt: new Date('2024-02-01T15:30:00Z'),
+    });
+
+    const response = await list('createdAfter=2024-01-15&createdBefore=2024-02-01');
+
+    const body = JSON.parse(response.body);
+    expect(body.data.map((task: ITask) => task.title).sort()).toEqual(['Bravo', 'Delta']);
+  });
+
+  test('should sort ascending by title', async () => {
+    const response = await list('sort=title');
+
+    const body = JSON.parse(response.body);
+    expect(body.data.map((task: ITask) => task.title)).toEqual(['Alpha', 'Bravo', 'Charlie']);
+  });
+
+  test('should sort descending by createdAt', async () => {
+    const response = await list('sort=-createdAt');
+
+    const body = JSON.parse(response.body);
+    expect(body.data.map((task: ITask) => task.title)).toEqual(['Charlie', 'Bravo', 'Alpha']);
+  });
+
+  test('should reject an unknown sort field', async () => {
+    const response = await list('sort=description');
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  test('should only return the requested fields', async () => {
+    const response = await list('fields=title,status');
+
+    const body = JSON.parse(response.body);
+    expect(Object.keys(body.data[0]).sort()).toEqual(['_id', 'status', 'title']);
+  });
+
+  test('should reject unknown fields', async () => {
+    const response = await list('fields=title,passwordHash');
+
+    expect(response.statusCode).toBe(400);
+  });
+});
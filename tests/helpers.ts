@@ -0,0 +1,14 @@
+import { User } from '../src/models/User';
+import { hashPassword } from '../src/utils/password';
+import { signAccessToken } from '../src/utils/tokens';
+
+export const TEST_PASSWORD = 'correct-horse-battery';
+
+// Creates the user (if needed) and returns headers carrying a valid access token
+export async function authHeaders(userId: string): Promise<{ authorization: string }> {
+  if (!(await User.exists({ userId }))) {
+    await User.create({ userId, passwordHash: await hashPassword(TEST_PASSWORD) });
+  }
+
+  return { authorization: `Bearer ${signAccessToken(userId)}` };
+}
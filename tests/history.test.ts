@@ -0,0 +1,142 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { historyRoutes } from '../src/routes/history';
+import { Task, TaskStatus } from '../src/models/Task';
+import { AuditEntry, AuditAction } from '../src/models/AuditEntry';
+import { User } from '../src/models/User';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Task history', () => {
+  let app: FastifyInstance;
+  const testUserId = 'history-user';
+  const otherUserId = 'history-other';
+  let testHeaders: { authorization: string };
+  let otherHeaders: { authorization: string };
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await AuditEntry.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+    otherHeaders = await authHeaders(otherUserId);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    app.register(historyRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function createTask(): Promise<string> {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/tasks',
+      headers: testHeaders,
+      payload: { title: 'Audited Task', description: 'Every change is recorded' },
+    });
+    return JSON.parse(response.body).data._id;
+  }
+
+  test('should record the creation of a task', async () => {
+    const taskId = await createTask();
+
+    const entries = await AuditEntry.find({ taskId });
+    expect(entries).toHaveLength(1);
+    expect(entries[0]?.action).toBe(AuditAction.CREATED);
+    expect(entries[0]?.actorId).toBe(testUserId);
+    expect(entries[0]?.changes).toContainEqual(
+      expect.objectContaining({ field: 'title', before: null, after: 'Audited Task' }),
+    );
+  });
+
+  test('should record a field-level diff for updates', async () => {
+    const taskId = await createTask();
+
+    await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/tasks/${taskId}`,
+      headers: testHeaders,
+      payload: { title: 'Renamed Task', status: TaskStatus.IN_PROGRESS },
+    });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v1/tasks/${taskId}/history`,
+      headers: testHeaders,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.data).toHaveLength(2);
+    expect(body.data[0].action).toBe(AuditAction.UPDATED);
+    expect(body.data[0].changes).toEqual([
+      { field: 'title', before: 'Audited Task', after: 'Renamed Task' },
+      { field: 'status', before: TaskStatus.TODO, after: TaskStatus.IN_PROGRESS },
+    ]);
+  });
+
+  test('should not record updates that change nothing', async () => {
+    const taskId = await createTask();
+
+    await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/tasks/${taskId}`,
+      headers: testHeaders,
+      payload: { title: 'Audited Task' },
+    });
+
+    expect(await AuditEntry.countDocuments({ taskId })).toBe(1);
+  });
+
+  test('should record deletions', async () => {
+    const taskId = await createTask();
+
+    await app.inject({
+      method: 'DELETE',
+      url: `/api/v1/tasks/${taskId}`,
+      headers: testHeaders,
+    });
+
+    const deleted = await AuditEntry.findOne({ taskId, action: AuditAction.DELETED });
+    expect(deleted?.actorId).toBe(testUserId);
+  });
+
+  test('should paginate the history', async () => {
+    const taskId = await createTask();
+
+    for (const title of ['One', 'Two', 'Three']) {
+      await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: testHeaders,
+        payload: { title },
+      });
+    }
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v1/tasks/${taskId}/history?page=1&limit=2`,
+      headers: testHeaders,
+    });
+
+    const body = JSON.parse(response.body);
+    expect(body.data).toHaveLength(2);
+    expect(body.pagination.total).toBe(4);
+    expect(body.data[0].changes[0].after).toBe('Three');
+  });
+
+  test('should hide the history of tasks the user cannot see', async () => {
+    const taskId = await createTask();
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v1/tasks/${taskId}/history`,
+      headers: otherHeaders,
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { IdempotencyRecord, IdempotencyState } from '../src/models/IdempotencyRecord';
+import { Task } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Idempotency keys', () => {
+  let app: FastifyInstance;
+  const testUserId = 'idempotent-user';
+  const otherUserId = 'idempotent-other';
+  let testHeaders: { authorization: string };
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+    await IdempotencyRecord.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function createTask(key: string, title = 'Once', headers = testHeaders) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v1/tasks',
+      headers: { ...headers, 'idempotency-key': key },
+      payload: { title, description: 'Created with a key' },
+    });
+  }
+
+  test('should replay the first response to a retried request', async () => {
+    const first = await createTask('create-1');
+    const retry = await createTask('create-1');
+
+    expect(first.statusCode).toBe(201);
+    expect(retry.statusCode).toBe(201);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+    expect(JSON.parse(retry.body).data._id).toBe(JSON.parse(first.body).data._id);
+    expect(await Task.countDocuments({ userId: testUserId })).toBe(1);
+  });
+
+  test('should reject a key reused with a different payload', async () => {
+    await createTask('create-2');
+    const response = await createTask('create-2', 'Something else');
+
+    expect(response.statusCode).toBe(409);
+    expect(await Task.countDocuments({ userId: testUserId })).toBe(1);
+  });
+
+  test('should scope keys to the user', async () => {
+    await createTask('shared-key');
+    const response = await createTask('shared-key', 'Once', await authHeaders(otherUserId));
+
+    expect(response.statusCode).toBe(201);
+    expect(response.headers['idempotent-replayed']).toBeUndefined();
+    expect(await Task.countDocuments({})).toBe(2);
+  });
+
+  test('should replay error responses and deletes', async () => {
+    const invalid = () =>
+      app.inject({
+        method: 'POST',
+        url: '/api/v1/tasks',
+        headers: { ...testHeaders, 'idempotency-key': 'invalid-1' },
+        payload: { title: 'No description' },
+      });
+
+    expect((await invalid()).statusCode).toBe(400);
+
+    const replayedError = await invalid();
+    expect(replayedError.statusCode).toBe(400);
+    expect(replayedError.headers['idempotent-replayed']).toBe('true');
+
+    const task = await Task.create({ title: 'Trash me', description: 'x', userId: testUserId });
+    const remove = () =>
+      app.inject({
+        method: 'DELETE',
+        url: `/api/v1/tasks/${task._id}`,
+        headers: { ...testHeaders, 'idempotency-key': 'delete-1' },
+      });
+
+    expect((await remove()).statusCode).toBe(204);
+
+    const retry = await remove();
+    expect(retry.statusCode).toBe(204);
+    expect(retry.headers['idempotent-replayed']).toBe('true');
+  });
+
+  test('should report a key whose first request is still running', async () => {
+    const first = await createTask('pending-1');
+    await IdempotencyRecord.updateOne({ key: 'pending-1' }, { state: IdempotencyState.PENDING });
+
+    const response = await createTask('pending-1');
+
+    expect(first.statusCode).toBe(201);
+    expect(response.statusCode).toBe(409);
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { importExportRoutes } from '../src/routes/importExport';
+import { Task, TaskPriority, TaskStatus } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { parseCsv } from '../src/utils/csv';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Task import and export', () => {
+  let app: FastifyInstance;
+  const testUserId = 'transfer-user';
+  let testHeaders: { authorization: string };
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+
+    app = Fastify();
+    app.register(importExportRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function importTasks(payload: Record<string, unknown>) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v1/tasks/import',
+      headers: testHeaders,
+      payload,
+    });
+  }
+
+  describe('export', () => {
+    beforeEach(async () => {
+      await Task.create([
+        {
+          title: 'Write report, part 1',
+          description: 'Has "quotes"',
+          status: TaskStatus.DONE,
+          labels: ['work', 'writing'],
+          dueAt: new Date('2024-06-03T09:00:00Z'),
+          userId: testUserId,
+        },
+        { title: 'Plan trip', description: 'Open task', userId: testUserId },
+        { title: 'Not mine', description: 'Hidden', userId: 'someone-else' },
+      ]);
+    });
+
+    test('should export tasks as CSV', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks/export?format=csv&sort=title',
+        headers: testHeaders,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('text/csv');
+      expect(response.headers['content-disposition']).toMatch(
+        /attachment; filename="tasks-.*\.csv"/,
+      );
+
+      const [header, ...rows] = parseCsv(response.body);
+      expect(header?.slice(0, 3)).toEqual(['id', 'title', 'description']);
+      expect(rows).toHaveLength(2);
+      expect(rows[1]?.slice(1, 6)).toEqual([
+        'Write report, part 1',
+        'Has "quotes"',
+        'Done',
+        'medium',
+        'work;writing',
+      ]);
+    });
+
+    test('should export tasks as JSON respecting list filters', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/tasks/export?format=json&status=${encodeURIComponent(TaskStatus.DONE)}`,
+        headers: testHeaders,
+      });
+
+      const tasks = JSON.parse(response.body);
+      expect(tasks).toHaveLength(1);
+      expect(tasks[0].title).toBe('Write report, part 1');
+      expect(tasks[0].id).toBeString();
+    });
+
+    test('should export tasks as an iCalendar file', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks/export?format=ics',
+        headers: testHeaders,
+      });
+
+      expect(response.headers['content-type']).toContain('text/calendar');
+      expect(response.body).toStartWith('BEGIN:VCALENDAR\r\n');
+      expect(response.body.match(/BEGIN:VTODO/g)).toHaveLength(2);
+      expect(response.body).toContain('SUMMARY:Write report\\, part 1\r\n');
+      expect(response.body).toContain('DUE:20240603T090000Z\r\n');
+      expect(response.body).toContain('STATUS:COMPLETED\r\n');
+    });
+  });
+
+  describe('import', () => {
+    const csv = [
+      'Card Name,Notes,State,Priority,Tags,Due Date',
+      'First,Imported from CSV,in progress,p1,"home, errands",2024-07-01T12:00:00Z',
+      'Missing description,,todo,low,,',
+      'Third,Also imported,Done,high,,not a date',
+    ].join('\n');
+
+    test('should create tasks from CSV and report failed rows', async () => {
+      const response = await importTasks({ format: 'csv', data: csv });
+
+      expect(response.statusCode).toBe(201);
+      const { data } = JSON.parse(response.body);
+      expect(data.summary).toEqual({ total: 3, succeeded: 1, failed: 2 });
+      expect(data.results[1]).toMatchObject({ row: 2, status: 'failed' });
+      expect(data.results[2].error.message).toMatch(/dueAt/);
+
+      const task = await Task.findById(data.results[0].id);
+      expect(task?.status).toBe(TaskStatus.IN_PROGRESS);
+      expect(task?.priority).toBe(TaskPriority.URGENT);
+      expect(task?.labels).toEqual(['home', 'errands']);
+    });
+
+    test('should validate without writing in a dry run', async () => {
+      const response = await importTasks({ format: 'csv', data: csv, dryRun: true });
+
+      expect(response.statusCode).toBe(200);
+      const { data } = JSON.parse(response.body);
+      expect(data.results.map((r: { status: string }) => r.status)).toEqual([
+        'valid',
+        'failed',
+        'failed',
+      ]);
+      expect(await Task.countDocuments({})).toBe(0);
+    });
+
+    test('should apply a field mapping to JSON rows', async () => {
+      const response = await importTasks({
+        format: 'json',
+        data: [
+          { heading: 'Mapped', body: 'From JSON', title: 'Ignored', labels: [{ name: 'trello' }] },
+          { heading: 'x'.repeat(201), body: 'Too long' },
+        ],
+        mapping: { heading: 'title', body: 'description', title: null },
+      });
+
+      const { data } = JSON.parse(response.body);
+      expect(data.summary.succeeded).toBe(1);
+      expect(data.results[1].error.statusCode).toBe(400);
+
+      const task = await Task.findOne({ userId: testUserId });
+      expect(task?.title).toBe('Mapped');
+      expect(task?.labels).toEqual(['trello']);
+    });
+
+    test('should answer 200 when no row could be created', async () => {
+      const response = await importTasks({
+        format: 'json',
+        data: [{ title: 'No description' }, { title: 42, description: 'Not a string title' }],
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { data } = JSON.parse(response.body);
+      expect(data.summary).toEqual({ total: 2, succeeded: 0, failed: 2 });
+      expect(data.results[1].error.message).toBe('title must be a string');
+      expect(await Task.countDocuments({})).toBe(0);
+    });
+
+    test('should reject an empty import', async () => {
+      const response = await importTasks({ format: 'csv', data: 'title,description\n' });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { labelRoutes } from '../src/routes/labels';
+import { Label } from '../src/models/Label';
+import { Task } from '../src/models/Task';
+import { AuditEntry } from '../src/models/AuditEntry';
+import { TaskEventType, subscribeTaskEvents, type TaskEvent } from '../src/services/events';
+import { User } from '../src/models/User';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Label API', () => {
+  let app: FastifyInstance;
+  const testUserId = 'label-user';
+  const otherUserId = 'label-other';
+  let testHeaders: { authorization: string };
+  let otherHeaders: { authorization: string };
+  let labelId: string;
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await AuditEntry.deleteMany({});
+    await Label.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+    otherHeaders = await authHeaders(otherUserId);
+
+    const label = await Label.create({ userId: testUserId, name: 'bug', color: '#ff0000' });
+    labelId = String(label._id);
+
+    await Task.create([
+      { title: 'One', description: 'Labelled', userId: testUserId, labels: ['bug'] },
+      { title: 'Two', description: 'Labelled', userId: testUserId, labels: ['bug', 'ui'] },
+      { title: 'Other', description: 'Not mine', userId: otherUserId, labels: ['bug'] },
+    ]);
+
+    app = Fastify();
+    app.register(labelRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  test('should list labels with usage counts', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/v1/labels',
+      headers: testHeaders,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.data).toHaveLength(1);
+    expect(body.data[0].name).toBe('bug');
+    expect(body.data[0].taskCount).toBe(2);
+  });
+
+  test('should create a label', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/labels',
+      headers: testHeaders,
+      payload: { name: 'backend', color: '#00aa00' },
+    });
+
+    expect(response.statusCode).toBe(201);
+    expect(JSON.parse(response.body).data.name).toBe('backend');
+  });
+
+  test('should reject a duplicate label', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/labels',
+      headers: testHeaders,
+      payload: { name: 'bug' },
+    });
+
+    expect(response.statusCode).toBe(409);
+  });
+
+  test("should rename a label on the owner's tasks only", async () => {
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/labels/${labelId}`,
+      headers: testHeaders,
+      payload: { name: 'defect' },
+    });
+
+    expect(response.statusCode).toBe(200);
+
+    const mine = await Task.find({ userId: testUserId }).sort({ title: 1 });
+    expect(mine.map((task) => task.labels)).toEqual([['defect'], ['ui', 'defect']]);
+
+    const other = await Task.findOne({ userId: otherUserId });
+    expect(other?.labels).toEqual(['bug']);
+  });
+
+  test('should record label renames and removals like any task edit', async () => {
+    const events: TaskEvent[] = [];
+    const unsubscribe = subscribeTaskEvents((event) => events.push(event));
+
+    await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/labels/${labelId}`,
+      headers: testHeaders,
+      payload: { name: 'defect' },
+    });
+    await app.inject({
+      method: 'DELETE',
+      url: `/api/v1/labels/${labelId}`,
+      headers: testHeaders,
+    });
+    unsubscribe();
+
+    const two = await Task.findOne({ title: 'Two' });
+    const history = await AuditEntry.find({ taskId: two?._id }).sort({ createdAt: 1, _id: 1 });
+    expect(history.map((entry) => entry.changes[0]?.after)).toEqual([['ui', 'defect'], ['ui']]);
+    expect(events.filter((event) => event.type === TaskEventType.UPDATED)).toHaveLength(4);
+  });
+
+  test('should delete a label and remove it from tasks', async () => {
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/v1/labels/${labelId}`,
+      headers: testHeaders,
+    });
+
+    expect(response.statusCode).toBe(204);
+    expect(await Task.countDocuments({ userId: testUserId, labels: 'bug' })).toBe(0);
+  });
+
+  test("should not expose another user's labels", async () => {
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/v1/labels/${labelId}`,
+      headers: otherHeaders,
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+});
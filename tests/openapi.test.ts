@@ -0,0 +1,98 @@
+import { describe, test, expect, beforeAll } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import swagger from '@fastify/swagger';
+import { docsRoutes, openApiOptions } from '../src/routes/docs';
+import { authRoutes } from '../src/routes/auth';
+import { taskRoutes } from '../src/routes/tasks';
+import { commentRoutes } from '../src/routes/comments';
+import { attachmentRoutes } from '../src/routes/attachments';
+import { projectRoutes } from '../src/routes/projects';
+import { webhookRoutes } from '../src/routes/webhooks';
+import { User } from '../src/models/User';
+import { authHeaders } from './helpers';
+import './setup';
+
+interface Operation {
+  security?: unknown[];
+  requestBody?: unknown;
+  responses: Record<string, { content?: Record<string, { schema: { required?: string[] } }> }>;
+}
+
+describe('OpenAPI document', () => {
+  let app: FastifyInstance;
+  let paths: Record<string, Record<string, Operation>>;
+
+  beforeAll(async () => {
+    app = Fastify();
+    app.register(swagger, openApiOptions);
+    app.register(authRoutes, { prefix: '/api/v1' });
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    app.register(commentRoutes, { prefix: '/api/v1' });
+    app.register(attachmentRoutes, { prefix: '/api/v1' });
+    app.register(projectRoutes, { prefix: '/api/v1' });
+    app.register(webhookRoutes, { prefix: '/api/v1' });
+    app.register(docsRoutes, { prefix: '/api/v1' });
+    await app.ready();
+
+    const response = await app.inject({ method: 'GET', url: '/api/v1/openapi.json' });
+    paths = JSON.parse(response.body).paths;
+  });
+
+  test('should serve an OpenAPI 3 document for the registered routes', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/v1/openapi.json' });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.openapi).toStartWith('3.');
+    expect(body.components.securitySchemes.bearerAuth.scheme).toBe('bearer');
+    expect(Object.keys(paths)).toContain('/api/v1/tasks/{id}/comments/{commentId}');
+    expect(paths['/api/v1/openapi.json']).toBeUndefined();
+  });
+
+  test('should describe task bodies and the error shape', () => {
+    const create = paths['/api/v1/tasks']?.['post'];
+
+    expect(create?.requestBody).toBeDefined();
+    expect(Object.keys(create?.responses ?? {})).toEqual(
+      expect.arrayContaining(['201', '400', '401']),
+    );
+
+    for (const operations of Object.values(paths)) {
+      for (const { responses } of Object.values(operations)) {
+        for (const [statusCode, { content }] of Object.entries(responses)) {
+          if (Number(statusCode) >= 400) {
+            expect(content?.['application/json']?.schema.required).toEqual(['error', 'message']);
+          }
+        }
+      }
+    }
+  });
+
+  test('should only leave sign-in routes open', () => {
+    expect(paths['/api/v1/auth/login']?.['post']?.security).toEqual([]);
+    expect(paths['/api/v1/tasks']?.['get']?.security).toBeUndefined();
+  });
+
+  test('should serve the docs UI', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/v1/docs' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toContain('text/html');
+  });
+
+  test('should reject an invalid task body with the error shape', async () => {
+    await User.deleteMany({});
+    const headers = await authHeaders('openapi-user');
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/tasks',
+      headers,
+      payload: { title: 'Task', description: 'Description', priority: 'someday' },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(Object.keys(JSON.parse(response.body))).toEqual(['error', 'message']);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { Task, TaskStatus } from '../src/models/Task';
+import type { ITask } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Task list cursor pagination', () => {
+  let app: FastifyInstance;
+  const testUserId = 'cursor-user';
+  let testHeaders: { authorization: string };
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+
+    await Task.create(
+      ['A', 'B', 'C', 'D', 'E'].map((title, i) => ({
+        title,
+        status: TaskStatus.TODO,
+        userId: testUserId,
+        createdAt: new Date(Date.UTC(2024, 0, i + 1)),
+      })),
+    );
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function list(query: string) {
+    return app.inject({
+      method: 'GET',
+      url: `/api/v1/tasks?${query}`,
+      headers: testHeaders,
+    });
+  }
+
+  function titles(body: { data: ITask[] }) {
+    return body.data.map((task) => task.title);
+  }
+
+  test('should include a next cursor with page results', async () => {
+    const response = await list('limit=2');
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(titles(body)).toEqual(['E', 'D']);
+    expect(body.pagination.total).toBe(5);
+    expect(body.pagination.nextCursor).toBeString();
+  });
+
+  test('should walk forward with after', async () => {
+    const first = JSON.parse((await list('limit=2')).body);
+    const second = JSON.parse((await list(`limit=2&after=${first.pagination.nextCursor}`)).body);
+    const third = JSON.parse((await list(`limit=2&after=${second.pagination.nextCursor}`)).body);
+
+    expect(titles(second)).toEqual(['C', 'B']);
+    expect(titles(third)).toEqual(['A']);
+    expect(third.pagination.nextCursor).toBeNull();
+    expect(second.pagination.total).toBeUndefined();
+  });
+
+  test('should walk backward with before', async () => {
+    const first = JSON.parse((await list('sort=title&limit=2')).body);
+    const second = JSON.parse(
+      (await list(`sort=title&limit=2&after=${first.pagination.nextCursor}`)).body,
+    );
+    const back = JSON.parse(
+      (await list(`sort=title&limit=2&before=${second.pagination.prevCursor}`)).body,
+    );
+
+    expect(titles(second)).toEqual(['C', 'D']);
+    expect(titles(back)).toEqual(['A', 'B']);
+    expect(back.pagination.prevCursor).toBeNull();
+  });
+
+  test('should count matches with includeTotal', async () => {
+    const first = JSON.parse((await list('limit=2')).body);
+    const response = await list(`limit=2&includeTotal=true&after=${first.pagination.nextCursor}`);
+
+    const body = JSON.parse(response.body);
+    expect(body.pagination.total).toBe(5);
+  });
+
+  test('should reject a malformed cursor', async () => {
+    const response = await list('after=not-a-cursor');
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  test('should reject a cursor issued for another sort', async () => {
+    const first = JSON.parse((await list('limit=2')).body);
+    const response = await list(`sort=title&after=${first.pagination.nextCursor}`);
+
+    expect(response.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,325 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { projectRoutes } from '../src/routes/projects';
+import { taskRoutes } from '../src/routes/tasks';
+import { Project, ProjectRole } from '../src/models/Project';
+import { Task } from '../src/models/Task';
+import type { ITask } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { AuditEntry, AuditAction } from '../src/models/AuditEntry';
+import { TaskEventType, subscribeTaskEvents, type TaskEvent } from '../src/services/events';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Project API', () => {
+  let app: FastifyInstance;
+  let projectId: string;
+  const ownerId = 'project-owner';
+  const memberId = 'project-member';
+  const viewerId = 'project-viewer';
+  const outsiderId = 'project-outsider';
+  let ownerHeaders: { authorization: string };
+  let memberHeaders: { authorization: string };
+  let viewerHeaders: { authorization: string };
+  let outsiderHeaders: { authorization: string };
+
+  beforeEach(async () => {
+    await Project.deleteMany({});
+    await Task.deleteMany({});
+    await User.deleteMany({});
+
+    ownerHeaders = await authHeaders(ownerId);
+    memberHeaders = await authHeaders(memberId);
+    viewerHeaders = await authHeaders(viewerId);
+    outsiderHeaders = await authHeaders(outsiderId);
+
+    const project = await Project.create({
+      name: 'Team Project',
+      ownerId,
+      members: [
+        { userId: ownerId, role: ProjectRole.OWNER },
+        { userId: memberId, role: ProjectRole.MEMBER },
+        { userId: viewerId, role: ProjectRole.VIEWER },
+      ],
+    });
+    projectId = String(project._id);
+
+    app = Fastify();
+    app.register(projectRoutes, { prefix: '/api/v1' });
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  describe('POST /api/v1/projects', () => {
+    test('should create a project with the creator as owner', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/projects',
+        headers: outsiderHeaders,
+        payload: { name: 'New Project' },
+      });
+
+      expect(response.statusCode).toBe(201);
+      const body = JSON.parse(response.body);
+      expect(body.data.ownerId).toBe(outsiderId);
+      expect(body.data.members).toEqual([
+        expect.objectContaining({ userId: outsiderId, role: ProjectRole.OWNER }),
+      ]);
+    });
+  });
+
+  describe('GET /api/v1/projects', () => {
+    test('should only list projects the user belongs to', async () => {
+      const member = await app.inject({
+        method: 'GET',
+        url: '/api/v1/projects',
+        headers: memberHeaders,
+      });
+      expect(JSON.parse(member.body).data).toHaveLength(1);
+
+      const outsider = await app.inject({
+        method: 'GET',
+        url: '/api/v1/projects',
+        headers: outsiderHeaders,
+      });
+      expect(JSON.parse(outsider.body).data).toHaveLength(0);
+    });
+
+    test('should hide a project from non-members', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/projects/${projectId}`,
+        headers: outsiderHeaders,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('Membership', () => {
+    test('should let the owner add a member', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/v1/projects/${projectId}/members/${outsiderId}`,
+        headers: ownerHeaders,
+        payload: { role: ProjectRole.MEMBER },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data.members).toHaveLength(4);
+    });
+
+    test('should not let a plain member manage members', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/v1/projects/${projectId}/members/${outsiderId}`,
+        headers: memberHeaders,
+        payload: { role: ProjectRole.MEMBER },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    test('should not allow granting the owner role', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/v1/projects/${projectId}/members/${memberId}`,
+        headers: ownerHeaders,
+        payload: { role: ProjectRole.OWNER },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    test('should let a member leave', async () => {
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/projects/${projectId}/members/${memberId}`,
+        headers: memberHeaders,
+      });
+
+      expect(response.statusCode).toBe(204);
+    });
+  });
+
+  describe('Project tasks', () => {
+    test('should let a member create a task in the project', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/tasks',
+        headers: memberHeaders,
+        payload: { title: 'Project Task', description: 'Team work', projectId },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.body).data.projectId).toBe(projectId);
+    });
+
+    test('should not let a viewer create a task in the project', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/tasks',
+        headers: viewerHeaders,
+        payload: { title: 'Project Task', description: 'Team work', projectId },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    test('should only assign project tasks to members', async () => {
+      const outsider = await app.inject({
+        method: 'POST',
+        url: '/api/v1/tasks',
+        headers: memberHeaders,
+        payload: {
+          title: 'Project Task',
+          description: 'Team work',
+          projectId,
+          assigneeId: outsiderId,
+        },
+      });
+      expect(outsider.statusCode).toBe(400);
+
+      const member = await app.inject({
+        method: 'POST',
+        url: '/api/v1/tasks',
+        headers: memberHeaders,
+        payload: {
+          title: 'Project Task',
+          description: 'Team work',
+          projectId,
+          assigneeId: viewerId,
+        },
+      });
+      expect(member.statusCode).toBe(201);
+    });
+
+    test('should not let the owner assign a project task to a non-member', async () => {
+      const task = await Task.create({
+        title: 'Owner Task',
+        description: 'D',
+        userId: ownerId,
+        projectId,
+      });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/tasks/${task._id}`,
+        headers: ownerHeaders,
+        payload: { assigneeId: outsiderId },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect((await Task.findById(task._id))?.assigneeId).toBeNull();
+    });
+
+    test('should not move a task assigned to a non-member into the project', async () => {
+      const task = await Task.create({
+        title: 'Personal Task',
+        description: 'D',
+        userId: ownerId,
+        assigneeId: outsiderId,
+      });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/tasks/${task._id}`,
+        headers: ownerHeaders,
+        payload: { projectId },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect((await Task.findById(task._id))?.projectId).toBeNull();
+    });
+
+    test('should list project tasks for every member', async () => {
+      await Task.create([
+        { title: 'Owner Task', description: 'D', userId: ownerId, projectId },
+        { title: 'Member Task', description: 'D', userId: memberId, projectId },
+        { title: 'Personal Task', description: 'D', userId: memberId },
+      ]);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/tasks?projectId=${projectId}`,
+        headers: viewerHeaders,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(2);
+      expect(body.data.every((task: ITask) => String(task.projectId) === projectId)).toBe(true);
+    });
+
+    test('should let members edit but not delete other members tasks', async () => {
+      const task = await Task.create({
+        title: 'Owner Task',
+        description: 'D',
+        userId: ownerId,
+        projectId,
+      });
+
+      const update = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/tasks/${task._id}`,
+        headers: memberHeaders,
+        payload: { title: 'Edited by member' },
+      });
+      expect(update.statusCode).toBe(200);
+
+      const remove = await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/tasks/${task._id}`,
+        headers: memberHeaders,
+      });
+      expect(remove.statusCode).toBe(403);
+    });
+
+    test('should refuse the project filter to non-members', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/tasks?projectId=${projectId}`,
+        headers: outsiderHeaders,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    test('should detach tasks when the project is deleted', async () => {
+      const task = await Task.create({ title: 'T', description: 'D', userId: memberId, projectId });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/projects/${projectId}`,
+        headers: ownerHeaders,
+      });
+
+      expect(response.statusCode).toBe(204);
+      const detached = await Task.findById(task._id);
+      expect(detached?.projectId).toBeNull();
+    });
+
+    test('should record detaching tasks like any task edit', async () => {
+      const task = await Task.create({ title: 'T', description: 'D', userId: memberId, projectId });
+      const events: TaskEvent[] = [];
+      const unsubscribe = subscribeTaskEvents((event) => events.push(event));
+
+      await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/projects/${projectId}`,
+        headers: ownerHeaders,
+      });
+      unsubscribe();
+
+      const entry = await AuditEntry.findOne({ taskId: task._id, action: AuditAction.UPDATED });
+      expect(entry?.actorId).toBe(ownerId);
+      expect(entry?.changes[0]).toMatchObject({
+        field: 'projectId',
+        before: projectId,
+        after: null,
+      });
+      expect(events.filter((event) => event.type === TaskEventType.UPDATED)).toHaveLength(1);
+    });
+  });
+});
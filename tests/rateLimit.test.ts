@@ -0,0 +1,112 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { createRateLimitHook } from '../src/middleware/rateLimit';
+import { MemoryRateLimitStore, MongoRateLimitStore } from '../src/services/rateLimit';
+import { RateLimitCounter } from '../src/models/RateLimitCounter';
+import { Task } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Rate limits and quotas', () => {
+  let app: FastifyInstance;
+  const testUserId = 'limited-user';
+  const otherUserId = 'limited-other';
+  let testHeaders: { authorization: string };
+
+  async function buildApp(userRequestsPerWindow: number, ipRequestsPerWindow: number) {
+    app = Fastify();
+    app.addHook(
+      'onRequest',
+      createRateLimitHook(
+        { userRequestsPerWindow, ipRequestsPerWindow, windowMs: 60 * 60 * 1000 },
+        new MemoryRateLimitStore(),
+      ),
+    );
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  }
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+  });
+
+  afterEach(() => {
+    delete process.env['MAX_TASKS_PER_USER'];
+  });
+
+  async function listTasks(headers: Record<string, string> = testHeaders) {
+    return app.inject({ method: 'GET', url: '/api/v1/tasks', headers });
+  }
+
+  test('should send rate limit headers and reject requests over the user limit', async () => {
+    await buildApp(2, 0);
+
+    const first = await listTasks();
+    expect(first.statusCode).toBe(200);
+    expect(first.headers['ratelimit-limit']).toBe('2');
+    expect(first.headers['ratelimit-remaining']).toBe('1');
+    expect(Number(first.headers['ratelimit-reset'])).toBeGreaterThan(0);
+
+    await listTasks();
+    const limited = await listTasks();
+
+    expect(limited.statusCode).toBe(429);
+    expect(limited.headers['ratelimit-remaining']).toBe('0');
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+    expect(JSON.parse(limited.body).message).toMatch(/Rate limit exceeded/);
+
+    // Other users have their own budget
+    const other = await listTasks(await authHeaders(otherUserId));
+    expect(other.statusCode).toBe(200);
+  });
+
+  test('should limit requests per IP regardless of the user', async () => {
+    await buildApp(10, 2);
+
+    await listTasks();
+    await listTasks(await authHeaders(otherUserId));
+    const limited = await listTasks();
+
+    expect(limited.statusCode).toBe(429);
+    expect(limited.headers['ratelimit-limit']).toBe('2');
+  });
+
+  test('should share counters through the MongoDB store', async () => {
+    await RateLimitCounter.deleteMany({});
+    const now = new Date();
+    const first = new MongoRateLimitStore();
+    const second = new MongoRateLimitStore();
+
+    await first.increment('user:shared', 60_000, now);
+    const hit = await second.increment('user:shared', 60_000, now);
+
+    expect(hit.count).toBe(2);
+    expect(hit.resetAt.getTime()).toBeGreaterThan(now.getTime());
+  });
+
+  test('should cap the number of tasks a user can own', async () => {
+    process.env['MAX_TASKS_PER_USER'] = '2';
+    await buildApp(0, 0);
+
+    await Task.create([
+      { title: 'One', description: 'Mine', userId: testUserId },
+      { title: 'Two', description: 'Mine', userId: testUserId, deletedAt: new Date() },
+    ]);
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/tasks',
+      headers: testHeaders,
+      payload: { title: 'Three', description: 'Over the cap' },
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(await Task.countDocuments({ userId: testUserId })).toBe(2);
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { transitionRoutes } from '../src/routes/transitions';
+import { recurrenceRoutes } from '../src/routes/recurrence';
+import { Task, TaskStatus, CollaboratorRole } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { RecurrenceTrigger, TaskSeries } from '../src/models/TaskSeries';
+import { createScheduledOccurrences } from '../src/jobs/recurrence';
+import { authHeaders } from './helpers';
+import './setup';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Recurring tasks', () => {
+  let app: FastifyInstance;
+  const testUserId = 'recurring-user';
+  let testHeaders: { authorization: string };
+  let firstDue: Date;
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+    await TaskSeries.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+    firstDue = new Date(Math.ceil(Date.now() / DAY_MS) * DAY_MS + DAY_MS);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    app.register(transitionRoutes, { prefix: '/api/v1' });
+    app.register(recurrenceRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  afterEach(() => {
+    delete process.env['MAX_TASKS_PER_USER'];
+  });
+
+  async function createRecurring(rule: string, trigger?: RecurrenceTrigger) {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/tasks',
+      headers: testHeaders,
+      payload: {
+        title: 'Weekly report',
+        description: 'Send the numbers',
+        dueAt: firstDue.toISOString(),
+        recurrence: { rule, trigger },
+      },
+    });
+
+    return response;
+  }
+
+  async function complete(id: string) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v1/tasks/${id}/transitions`,
+      headers: testHeaders,
+      payload: { to: TaskStatus.DONE },
+    });
+  }
+
+  test('should create a recurring task', async () => {
+    const response = await createRecurring('RRULE:freq=weekly');
+
+    expect(response.statusCode).toBe(201);
+    const { data } = JSON.parse(response.body);
+    expect(data.recurrence.index).toBe(0);
+
+    const series = await TaskSeries.findById(data.recurrence.seriesId);
+    expect(series?.rule).toBe('FREQ=WEEKLY');
+    expect(series?.nextOccursAt?.getTime()).toBe(firstDue.getTime() + 7 * DAY_MS);
+  });
+
+  test('should reject an invalid rule or a missing due date', async () => {
+    expect((await createRecurring('FREQ=HOURLY')).statusCode).toBe(400);
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/tasks',
+      headers: testHeaders,
+      payload: { title: 'No date', description: 'Nope', recurrence: { rule: 'FREQ=DAILY' } },
+    });
+    expect(response.statusCode).toBe(400);
+    expect(await Task.countDocuments({})).toBe(0);
+  });
+
+  test('should create the next occurrence once the current one is done', async () => {
+    const created = await createRecurring('FREQ=WEEKLY');
+    const id = JSON.parse(created.body).data._id;
+
+    await complete(id);
+
+    const next = await Task.findOne({ 'recurrence.index': 1 });
+    expect(next?.title).toBe('Weekly report');
+    expect(next?.status).toBe(TaskStatus.TODO);
+    expect(next?.dueAt?.getTime()).toBe(firstDue.getTime() + 7 * DAY_MS);
+
+    // Reopening and finishing again does not create another one
+    await app.inject({
+      method: 'POST',
+      url: `/api/v1/tasks/${id}/transitions`,
+      headers: testHeaders,
+      payload: { to: TaskStatus.IN_PROGRESS },
+    });
+    await complete(id);
+
+    expect(await Task.countDocuments({})).toBe(2);
+  });
+
+  test('should stop after COUNT occurrences', async () => {
+    const created = await createRecurring('FREQ=DAILY;COUNT=2');
+    const id = JSON.parse(created.body).data._id;
+
+    await complete(id);
+    const second = await Task.findOne({ 'recurrence.index': 1 });
+    await complete(String(second?._id));
+
+    expect(await Task.countDocuments({})).toBe(2);
+    const series = await TaskSeries.findOne({});
+    expect(series?.endedAt).not.toBeNull();
+  });
+
+  test('should apply "all future" edits to later occurrences only when asked', async () => {
+    const created = await createRecurring('FREQ=WEEKLY');
+    const id = JSON.parse(created.body).data._id;
+
+    await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/tasks/${id}`,
+      headers: testHeaders,
+      payload: { title: 'Just this once' },
+    });
+    await complete(id);
+
+    const second = await Task.findOne({ 'recurrence.index': 1 });
+    expect(second?.title).toBe('Weekly report');
+
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/tasks/${String(second?._id)}?occurrences=future`,
+      headers: testHeaders,
+      payload: { title: 'Weekly summary' },
+    });
+    expect(response.statusCode).toBe(200);
+    await complete(String(second?._id));
+
+    const third = await Task.findOne({ 'recurrence.index': 2 });
+    expect(third?.title).toBe('Weekly summary');
+  });
+
+  test('should end a series', async () => {
+    const created = await createRecurring('FREQ=WEEKLY');
+    const id = JSON.parse(created.body).data._id;
+
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/v1/tasks/${id}/recurrence`,
+      headers: testHeaders,
+    });
+    expect(response.statusCode).toBe(204);
+
+    await complete(id);
+    expect(await Task.countDocuments({})).toBe(1);
+  });
+
+  test('should keep the task owner as the series owner', async () => {
+    const editorId = 'recurring-editor';
+    const task = await Task.create({
+      title: 'Shared report',
+      description: 'Send the numbers',
+      userId: testUserId,
+      dueAt: firstDue,
+      collaborators: [{ userId: editorId, role: CollaboratorRole.EDITOR }],
+    });
+
+    const response = await app.inject({
+      method: 'PUT',
+      url: `/api/v1/tasks/${task._id}/recurrence`,
+      headers: await authHeaders(editorId),
+      payload: { rule: 'FREQ=WEEKLY', trigger: RecurrenceTrigger.SCHEDULE },
+    });
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data.userId).toBe(testUserId);
+
+    await createScheduledOccurrences(DAY_MS, new Date(firstDue.getTime() + 6 * DAY_MS));
+
+    const next = await Task.findOne({ 'recurrence.index': 1 });
+    expect(next?.userId).toBe(testUserId);
+  });
+
+  test('should not create occurrences past the task quota', async () => {
+    const completion = JSON.parse((await createRecurring('FREQ=WEEKLY')).body).data;
+    await createRecurring('FREQ=WEEKLY', RecurrenceTrigger.SCHEDULE);
+    process.env['MAX_TASKS_PER_USER'] = '2';
+
+    const response = await complete(completion._id);
+    expect(response.statusCode).toBe(403);
+    expect((await Task.findById(completion._id))?.status).toBe(TaskStatus.TODO);
+
+    const created = await createScheduledOccurrences(
+      DAY_MS,
+      new Date(firstDue.getTime() + 6 * DAY_MS),
+    );
+    expect(created).toBe(0);
+    expect(await Task.countDocuments({})).toBe(2);
+  });
+
+  test("should keep creating other owners' occurrences when one is at the quota", async () => {
+    await createRecurring('FREQ=WEEKLY', RecurrenceTrigger.SCHEDULE);
+    await createRecurring('FREQ=WEEKLY', RecurrenceTrigger.SCHEDULE);
+
+    const otherId = 'recurring-other-user';
+    const other = await app.inject({
+      method: 'POST',
+      url: '/api/v1/tasks',
+      headers: await authHeaders(otherId),
+      payload: {
+        title: 'Monthly invoice',
+        description: 'Bill the client',
+        dueAt: new Date(firstDue.getTime() + DAY_MS).toISOString(),
+        recurrence: { rule: 'FREQ=WEEKLY', trigger: RecurrenceTrigger.SCHEDULE },
+      },
+    });
+    expect(other.statusCode).toBe(201);
+    process.env['MAX_TASKS_PER_USER'] = '2';
+
+    const created = await createScheduledOccurrences(
+      DAY_MS,
+      new Date(firstDue.getTime() + 7 * DAY_MS),
+    );
+    expect(created).toBe(1);
+
+    const next = await Task.findOne({ 'recurrence.index': 1 });
+    expect(next?.userId).toBe(otherId);
+  });
+
+  test('should preview upcoming dates', async () => {
+    const created = await createRecurring('FREQ=MONTHLY;BYMONTHDAY=1,15');
+    const id = JSON.parse(created.body).data._id;
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v1/tasks/${id}/recurrence`,
+      headers: testHeaders,
+    });
+
+    const { data } = JSON.parse(response.body);
+    expect(data.upcoming).toHaveLength(5);
+    expect(new Date(data.upcoming[0]).getTime()).toBeGreaterThan(firstDue.getTime());
+  });
+
+  test('should create scheduled occurrences ahead of their date', async () => {
+    await createRecurring('FREQ=WEEKLY', RecurrenceTrigger.SCHEDULE);
+
+    // Too early for the next occurrence
+    expect(await createScheduledOccurrences(DAY_MS)).toBe(0);
+
+    const created = await createScheduledOccurrences(
+      DAY_MS,
+      new Date(firstDue.getTime() + 6 * DAY_MS),
+    );
+    expect(created).toBe(1);
+
+    const next = await Task.findOne({ 'recurrence.index': 1 });
+    expect(next?.dueAt?.getTime()).toBe(firstDue.getTime() + 7 * DAY_MS);
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { Task, TaskStatus } from '../src/models/Task';
+import type { ITask } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { sendDueReminders } from '../src/jobs/reminders';
+import { type TaskEvent, TaskEventType, subscribeTaskEvents } from '../src/services/events';
+import { authHeaders } from './helpers';
+import './setup';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Task due dates', () => {
+  let app: FastifyInstance;
+  const testUserId = 'schedule-user';
+  let testHeaders: { authorization: string };
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function createTask(payload: Record<string, unknown>) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v1/tasks',
+      headers: testHeaders,
+      payload: { title: 'Task', description: 'Description', ...payload },
+    });
+  }
+
+  test('should create a task with start and due dates', async () => {
+    const response = await createTask({
+      startAt: '2024-06-01T09:00:00Z',
+      dueAt: '2024-06-07T17:00:00Z',
+    });
+
+    expect(response.statusCode).toBe(201);
+    const body = JSON.parse(response.body);
+    expect(body.data.startAt).toBe('2024-06-01T09:00:00.000Z');
+    expect(body.data.dueAt).toBe('2024-06-07T17:00:00.000Z');
+  });
+
+  test('should reject a start date after the due date', async () => {
+    const response = await createTask({
+      startAt: '2024-06-08T00:00:00Z',
+      dueAt: '2024-06-07T00:00:00Z',
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  test('should reject an invalid date', async () => {
+    const response = await createTask({ dueAt: 'next friday' });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  test('should check the schedule against stored dates on update', async () => {
+    const created = JSON.parse((await createTask({ dueAt: '2024-06-07T00:00:00Z' })).body);
+
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/tasks/${created.data._id}`,
+      headers: testHeaders,
+      payload: { startAt: '2024-06-10T00:00:00Z' },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  test('should re-arm the reminder when the due date changes', async () => {
+    const task = await Task.create({
+      title: 'Task',
+      description: 'Description',
+      userId: testUserId,
+      dueAt: new Date('2024-06-07T00:00:00Z'),
+      reminderSentAt: new Date('2024-06-06T23:00:00Z'),
+    });
+
+    await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/tasks/${task._id}`,
+      headers: testHeaders,
+      payload: { dueAt: '2024-06-14T00:00:00Z' },
+    });
+
+    const updated = await Task.findById(task._id);
+    expect(updated?.reminderSentAt).toBeNull();
+  });
+
+  describe('list filters', () => {
+    beforeEach(async () => {
+      const now = Date.now();
+
+      await Task.create([
+        {
+          title: 'Late',
+          description: 'Overdue',
+          userId: testUserId,
+          dueAt: new Date(now - 2 * HOUR_MS),
+        },
+        {
+          title: 'Finished late',
+          description: 'Done after its due date',
+          status: TaskStatus.DONE,
+          userId: testUserId,
+          dueAt: new Date(now - HOUR_MS),
+        },
+        {
+          title: 'Upcoming',
+          description: 'Due tomorrow',
+          userId: testUserId,
+          dueAt: new Date(now + 24 * HOUR_MS),
+        },
+        { title: 'Someday', description: 'No due date', userId: testUserId },
+      ]);
+    });
+
+    async function list(query: string) {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/tasks?${query}`,
+        headers: testHeaders,
+      });
+
+      return JSON.parse(response.body).data.map((task: ITask) => task.title);
+    }
+
+    test('should only return open overdue tasks', async () => {
+      expect(await list('overdue=true')).toEqual(['Late']);
+    });
+
+    test('should filter by a due date range', async () => {
+      const dueBefore = new Date(Date.now() + HOUR_MS).toISOString();
+
+      expect((await list(`dueBefore=${dueBefore}`)).sort()).toEqual(['Finished late', 'Late']);
+    });
+
+    test('should sort by due date', async () => {
+      expect(await list('sort=-dueAt')).toEqual(['Upcoming', 'Finished late', 'Late', 'Someday']);
+    });
+  });
+
+  describe('reminders', () => {
+    test('should fire one reminder per task due within the lead time', async () => {
+      const now = new Date();
+
+      await Task.create([
+        {
+          title: 'Soon',
+          description: 'Due in 30 minutes',
+          userId: testUserId,
+          dueAt: new Date(now.getTime() + HOUR_MS / 2),
+        },
+        {
+          title: 'Later',
+          description: 'Due tomorrow',
+          userId: testUserId,
+          dueAt: new Date(now.getTime() + 24 * HOUR_MS),
+        },
+        {
+          title: 'Closed',
+          description: 'Already done',
+          status: TaskStatus.DONE,
+          userId: testUserId,
+          dueAt: new Date(now.getTime() + HOUR_MS / 2),
+        },
+      ]);
+
+      const events: TaskEvent[] = [];
+      const unsubscribe = subscribeTaskEvents((event) => events.push(event));
+
+      try {
+        expect(await sendDueReminders(HOUR_MS, now)).toBe(1);
+        expect(await sendDueReminders(HOUR_MS, now)).toBe(0);
+      } finally {
+        unsubscribe();
+      }
+
+      expect(events).toHaveLength(1);
+      expect(events[0]?.type).toBe(TaskEventType.REMINDER);
+      expect(events[0]?.userId).toBe(testUserId);
+      expect(events[0]?.data['title']).toBe('Soon');
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, test, expect, beforeAll, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { Task, TaskStatus } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { highlight, parseSearchTerms } from '../src/utils/search';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Task search', () => {
+  let app: FastifyInstance;
+  const testUserId = 'search-user';
+  const otherUserId = 'search-other';
+  let testHeaders: { authorization: string };
+
+  beforeAll(async () => {
+    // $text queries need the text index to exist
+    await Task.init();
+  });
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+
+    await Task.create([
+      {
+        title: 'Quarterly report',
+        description: 'Compile the numbers for the board',
+        status: TaskStatus.TODO,
+        userId: testUserId,
+      },
+      {
+        title: 'Fix login bug',
+        description: 'Users cannot log in after the report export',
+        status: TaskStatus.IN_PROGRESS,
+        userId: testUserId,
+      },
+      {
+        title: 'Buy groceries',
+        description: 'Milk and bread',
+        status: TaskStatus.TODO,
+        userId: testUserId,
+      },
+      {
+        title: 'Other report',
+        description: 'Belongs to someone else',
+        userId: otherUserId,
+      },
+    ]);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  test('should return matching tasks ranked by relevance', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/v1/tasks?q=report',
+      headers: testHeaders,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.data).toHaveLength(2);
+    // Title matches outweigh description matches
+    expect(body.data[0].title).toBe('Quarterly report');
+    expect(body.data[0].score).toBeGreaterThan(body.data[1].score);
+    expect(body.pagination.total).toBe(2);
+  });
+
+  test('should include highlighted snippets', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/v1/tasks?q=report',
+      headers: testHeaders,
+    });
+
+    const body = JSON.parse(response.body);
+    expect(body.data[0].highlights.title).toBe('Quarterly <mark>report</mark>');
+    expect(body.data[1].highlights.description).toContain('<mark>report</mark>');
+  });
+
+  test('should combine search with the status filter', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/v1/tasks?q=report&status=In Progress',
+      headers: testHeaders,
+    });
+
+    const body = JSON.parse(response.body);
+    expect(body.data).toHaveLength(1);
+    expect(body.data[0].title).toBe('Fix login bug');
+  });
+
+  test('should paginate search results', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/v1/tasks?q=report&page=2&limit=1',
+      headers: testHeaders,
+    });
+
+    const body = JSON.parse(response.body);
+    expect(body.data).toHaveLength(1);
+    expect(body.data[0].title).toBe('Fix login bug');
+    expect(body.pagination.totalPages).toBe(2);
+  });
+
+  describe('highlight', () => {
+    test('should mark word prefixes case-insensitively', () => {
+      expect(highlight('Reports are due', ['report'])).toBe('<mark>Reports</mark> are due');
+    });
+
+    test('should escape HTML around matches', () => {
+      expect(highlight('<b>report</b>', ['report'])).toBe('&lt;b&gt;<mark>report</mark>&lt;/b&gt;');
+    });
+
+    test('should return null without a match', () => {
+      expect(highlight('Nothing here', ['report'])).toBeNull();
+    });
+
+    test('should keep phrases and drop negated terms', () => {
+      expect(parseSearchTerms('"board meeting" notes -draft')).toEqual(['board meeting', 'notes']);
+    });
+  });
+});
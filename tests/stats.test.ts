@@ -0,0 +1,132 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { statsRoutes } from '../src/routes/stats';
+import { Task, TaskStatus } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Task statistics', () => {
+  let app: FastifyInstance;
+  const testUserId = 'stats-user';
+  let testHeaders: { authorization: string };
+
+  const day = (date: string) => new Date(`${date}T12:00:00Z`);
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+
+    await Task.create([
+      {
+        title: 'Finished',
+        description: 'Took two days',
+        status: TaskStatus.DONE,
+        userId: testUserId,
+        createdAt: day('2024-06-03'),
+        statusHistory: [
+          { from: null, to: TaskStatus.TODO, changedBy: testUserId, changedAt: day('2024-06-03') },
+          {
+            from: TaskStatus.TODO,
+            to: TaskStatus.IN_PROGRESS,
+            changedBy: testUserId,
+            changedAt: day('2024-06-04'),
+          },
+          {
+            from: TaskStatus.IN_PROGRESS,
+            to: TaskStatus.DONE,
+            changedBy: testUserId,
+            changedAt: day('2024-06-06'),
+          },
+        ],
+      },
+      {
+        title: 'Overdue',
+        description: 'Still open',
+        userId: testUserId,
+        createdAt: day('2024-06-04'),
+        dueAt: day('2024-06-05'),
+      },
+      {
+        title: 'Later',
+        description: 'Outside the range',
+        userId: testUserId,
+        createdAt: day('2024-07-01'),
+      },
+      { title: 'Not mine', description: 'Other user', userId: 'someone-else' },
+    ]);
+
+    app = Fastify();
+    app.register(statsRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function getStats(query: string) {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v1/tasks/stats?${query}`,
+      headers: testHeaders,
+    });
+
+    return { response, stats: JSON.parse(response.body).data };
+  }
+
+  test('should count tasks per status and overdue tasks', async () => {
+    const { response, stats } = await getStats('from=2024-06-01&to=2024-06-30');
+
+    expect(response.statusCode).toBe(200);
+    expect(stats.total).toBe(3);
+    expect(stats.byStatus).toEqual({
+      [TaskStatus.TODO]: 2,
+      [TaskStatus.IN_PROGRESS]: 0,
+      [TaskStatus.DONE]: 1,
+      [TaskStatus.ARCHIVED]: 0,
+    });
+    expect(stats.overdue).toBe(1);
+  });
+
+  test('should report created and completed tasks per day', async () => {
+    const { stats } = await getStats('from=2024-06-03&to=2024-06-07');
+
+    expect(stats.throughput).toEqual([
+      { period: '2024-06-03', created: 1, completed: 0 },
+      { period: '2024-06-04', created: 1, completed: 0 },
+      { period: '2024-06-05', created: 0, completed: 0 },
+      { period: '2024-06-06', created: 0, completed: 1 },
+      { period: '2024-06-07', created: 0, completed: 0 },
+    ]);
+  });
+
+  test('should include the whole day of a date-only end', async () => {
+    const { stats } = await getStats('from=2024-06-01&to=2024-06-06');
+
+    expect(stats.range.to).toBe('2024-06-06T23:59:59.999Z');
+    expect(stats.throughput.at(-1)).toEqual({ period: '2024-06-06', created: 0, completed: 1 });
+    expect(stats.cycleTime.tasks).toBe(1);
+  });
+
+  test('should group throughput by week starting on Monday', async () => {
+    const { stats } = await getStats('from=2024-06-01&to=2024-06-14&interval=week');
+
+    expect(stats.throughput).toEqual([
+      { period: '2024-05-27', created: 0, completed: 0 },
+      { period: '2024-06-03', created: 2, completed: 1 },
+      { period: '2024-06-10', created: 0, completed: 0 },
+    ]);
+  });
+
+  test('should average the time from In Progress to Done', async () => {
+    const { stats } = await getStats('from=2024-06-01&to=2024-06-30');
+
+    expect(stats.cycleTime).toEqual({ tasks: 1, averageMs: 2 * 24 * 60 * 60 * 1000 });
+  });
+
+  test('should reject an inverted range', async () => {
+    const { response } = await getStats('from=2024-06-30&to=2024-06-01');
+
+    expect(response.statusCode).toBe(400);
+  });
+});
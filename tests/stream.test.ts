@@ -0,0 +1,177 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { streamRoutes } from '../src/routes/stream';
+import { Task, TaskStatus } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { TaskEventType } from '../src/services/events';
+import { startTaskStreamRelay } from '../src/services/taskStream';
+import { signAccessToken } from '../src/utils/tokens';
+import { authHeaders } from './helpers';
+import './setup';
+
+interface StreamedEvent {
+  id: string;
+  event: string;
+  data: { id: string; taskId: string; data: { task?: { title: string } } };
+}
+
+// Reads a text/event-stream response until `count` events have arrived
+async function readEvents(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  count: number,
+): Promise<StreamedEvent[]> {
+  const decoder = new TextDecoder();
+  const events: StreamedEvent[] = [];
+  let buffer = '';
+
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+
+    for (const block of blocks) {
+      const fields = new Map(
+        block
+          .split('\n')
+          .filter((line) => !line.startsWith(':'))
+          .map((line) => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)]),
+      );
+
+      if (fields.has('event')) {
+        events.push({
+          id: fields.get('id') as string,
+          event: fields.get('event') as string,
+          data: JSON.parse(fields.get('data') as string),
+        });
+      }
+    }
+  }
+
+  return events;
+}
+
+describe('Task event stream', () => {
+  let app: FastifyInstance;
+  let baseUrl: string;
+  let stopRelay: () => Promise<void>;
+  const readers: ReadableStreamDefaultReader<Uint8Array>[] = [];
+  const testUserId = 'stream-user';
+  const otherUserId = 'stream-other';
+  let testHeaders: { authorization: string };
+  let otherHeaders: { authorization: string };
+
+  beforeAll(async () => {
+    stopRelay = await startTaskStreamRelay(Fastify().log);
+  });
+
+  afterAll(async () => {
+    await stopRelay();
+  });
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+    otherHeaders = await authHeaders(otherUserId);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    app.register(streamRoutes, { prefix: '/api/v1' });
+    baseUrl = await app.listen({ port: 0, host: '127.0.0.1' });
+  });
+
+  afterEach(async () => {
+    await Promise.all(readers.splice(0).map((reader) => reader.cancel()));
+    await app.close();
+  });
+
+  async function openStream(headers: Record<string, string>, query = '') {
+    const response = await fetch(`${baseUrl}/api/v1/tasks/stream${query}`, { headers });
+
+    if (response.body) {
+      const reader = response.body.getReader();
+      readers.push(reader);
+
+      // The stream is live once the opening comment has arrived
+      await reader.read();
+
+      return { response, reader };
+    }
+
+    return { response, reader: null };
+  }
+
+  async function createTask(headers: { authorization: string }, title: string) {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/tasks',
+      headers,
+      payload: { title, description: 'Description' },
+    });
+
+    return JSON.parse(response.body).data._id as string;
+  }
+
+  test('should reject a stream without a token', async () => {
+    const response = await fetch(`${baseUrl}/api/v1/tasks/stream`);
+
+    expect(response.status).toBe(401);
+  });
+
+  test('should push create, update and delete events', async () => {
+    const { response, reader } = await openStream(testHeaders);
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+    const taskId = await createTask(testHeaders, 'Streamed');
+    await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/tasks/${taskId}`,
+      headers: testHeaders,
+      payload: { status: TaskStatus.IN_PROGRESS },
+    });
+    await app.inject({ method: 'DELETE', url: `/api/v1/tasks/${taskId}`, headers: testHeaders });
+
+    const events = await readEvents(reader!, 4);
+
+    expect(events.map((event) => event.event)).toEqual([
+      TaskEventType.CREATED,
+      TaskEventType.UPDATED,
+      TaskEventType.STATUS_CHANGED,
+      TaskEventType.DELETED,
+    ]);
+    expect(events[0]?.data.data.task?.title).toBe('Streamed');
+    expect(events[0]?.id).toBe(events[0]?.data.id);
+    expect(events.every((event) => event.data.taskId === taskId)).toBe(true);
+  });
+
+  test('should accept the token as a query parameter', async () => {
+    const token = signAccessToken(testUserId);
+    const { response, reader } = await openStream({}, `?access_token=${token}`);
+
+    expect(response.status).toBe(200);
+
+    await createTask(testHeaders, 'Via query token');
+
+    const [event] = await readEvents(reader!, 1);
+    expect(event?.data.data.task?.title).toBe('Via query token');
+  });
+
+  test("should not push events about other users' tasks", async () => {
+    const { reader } = await openStream(otherHeaders);
+
+    await createTask(testHeaders, 'Private');
+    await createTask(otherHeaders, 'Visible');
+
+    const [event] = await readEvents(reader!, 1);
+    expect(event?.data.data.task?.title).toBe('Visible');
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { transitionRoutes } from '../src/routes/transitions';
+import { subtaskRoutes } from '../src/routes/subtasks';
+import { dependencyRoutes } from '../src/routes/dependencies';
+import { Task, TaskStatus } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { TaskEventType, subscribeTaskEvents, type TaskEvent } from '../src/services/events';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Subtasks and dependencies', () => {
+  let app: FastifyInstance;
+  const testUserId = 'graph-user';
+  let testHeaders: { authorization: string };
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    app.register(transitionRoutes, { prefix: '/api/v1' });
+    app.register(subtaskRoutes, { prefix: '/api/v1' });
+    app.register(dependencyRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function createTask(title: string, payload: Record<string, unknown> = {}) {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/tasks',
+      headers: testHeaders,
+      payload: { title, description: 'Description', ...payload },
+    });
+
+    return JSON.parse(response.body).data._id as string;
+  }
+
+  async function transition(id: string, to: TaskStatus) {
+    return app.inject({
+      method: 'POST',
+      url: `/api/v1/tasks/${id}/transitions`,
+      headers: testHeaders,
+      payload: { to },
+    });
+  }
+
+  async function addBlocker(id: string, blockerId: string) {
+    return app.inject({
+      method: 'PUT',
+      url: `/api/v1/tasks/${id}/dependencies/${blockerId}`,
+      headers: testHeaders,
+    });
+  }
+
+  describe('subtasks', () => {
+    test('should roll subtask progress up to the parent', async () => {
+      const parentId = await createTask('Parent');
+      const first = await createTask('First', { parentId });
+      await createTask('Second', { parentId });
+
+      await transition(first, TaskStatus.DONE);
+
+      const parent = await Task.findById(parentId);
+      expect(parent?.progress.total).toBe(2);
+      expect(parent?.progress.done).toBe(1);
+    });
+
+    test('should update progress when a subtask is trashed', async () => {
+      const parentId = await createTask('Parent');
+      const childId = await createTask('Child', { parentId });
+
+      await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/tasks/${childId}`,
+        headers: testHeaders,
+      });
+
+      const parent = await Task.findById(parentId);
+      expect(parent?.progress.total).toBe(0);
+    });
+
+    test('should not move a task under its own subtask', async () => {
+      const parentId = await createTask('Parent');
+      const childId = await createTask('Child', { parentId });
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/tasks/${parentId}`,
+        headers: testHeaders,
+        payload: { parentId: childId },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    test('should return the task tree', async () => {
+      const rootId = await createTask('Root');
+      const childId = await createTask('Child', { parentId: rootId });
+      await createTask('Grandchild', { parentId: childId });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/tasks/${rootId}/tree`,
+        headers: testHeaders,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.title).toBe('Root');
+      expect(body.data.subtasks[0].title).toBe('Child');
+      expect(body.data.subtasks[0].subtasks[0].title).toBe('Grandchild');
+    });
+
+    test('should list top-level tasks only', async () => {
+      const parentId = await createTask('Parent');
+      await createTask('Child', { parentId });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks?parentId=none',
+        headers: testHeaders,
+      });
+
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0].title).toBe('Parent');
+    });
+  });
+
+  describe('dependencies', () => {
+    test('should list blockers and blocked tasks', async () => {
+      const blockerId = await createTask('Blocker');
+      const blockedId = await createTask('Blocked');
+
+      expect((await addBlocker(blockedId, blockerId)).statusCode).toBe(200);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/tasks/${blockerId}/dependencies`,
+        headers: testHeaders,
+      });
+
+      const body = JSON.parse(response.body);
+      expect(body.data.blockedBy).toHaveLength(0);
+      expect(body.data.blocking[0].title).toBe('Blocked');
+    });
+
+    test('should reject a dependency cycle', async () => {
+      const a = await createTask('A');
+      const b = await createTask('B');
+      const c = await createTask('C');
+
+      await addBlocker(b, a);
+      await addBlocker(c, b);
+
+      expect((await addBlocker(a, c)).statusCode).toBe(400);
+      expect((await addBlocker(a, a)).statusCode).toBe(400);
+    });
+
+    test('should not finish a task while a blocker is open', async () => {
+      const blockerId = await createTask('Blocker');
+      const blockedId = await createTask('Blocked');
+      await addBlocker(blockedId, blockerId);
+
+      expect((await transition(blockedId, TaskStatus.DONE)).statusCode).toBe(422);
+
+      await transition(blockerId, TaskStatus.DONE);
+
+      expect((await transition(blockedId, TaskStatus.DONE)).statusCode).toBe(201);
+    });
+
+    test('should remove a dependency', async () => {
+      const blockerId = await createTask('Blocker');
+      const blockedId = await createTask('Blocked');
+      await addBlocker(blockedId, blockerId);
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/tasks/${blockedId}/dependencies/${blockerId}`,
+        headers: testHeaders,
+      });
+
+      expect(response.statusCode).toBe(204);
+      const blocked = await Task.findById(blockedId);
+      expect(blocked?.blockedBy).toHaveLength(0);
+    });
+
+    test('should publish an update when a dependency is added or removed', async () => {
+      const blockerId = await createTask('Blocker');
+      const blockedId = await createTask('Blocked');
+      const events: TaskEvent[] = [];
+      const unsubscribe = subscribeTaskEvents((event) => events.push(event));
+
+      await addBlocker(blockedId, blockerId);
+      await addBlocker(blockedId, blockerId);
+      const removed = await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/tasks/${blockedId}/dependencies/${blockerId}`,
+        headers: testHeaders,
+      });
+      const again = await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/tasks/${blockedId}/dependencies/${blockerId}`,
+        headers: testHeaders,
+      });
+      unsubscribe();
+
+      expect(removed.statusCode).toBe(204);
+      expect(again.statusCode).toBe(404);
+      expect(events.map((event) => [event.type, event.taskId])).toEqual([
+        [TaskEventType.UPDATED, blockedId],
+        [TaskEventType.UPDATED, blockedId],
+      ]);
+      expect(events.map((event) => event.data['changes'])).toEqual([
+        [{ field: 'blockedBy', before: [], after: [blockerId] }],
+        [{ field: 'blockedBy', before: [blockerId], after: [] }],
+      ]);
+    });
+
+    test('should publish an update for tasks detached from a permanently deleted task', async () => {
+      const blockerId = await createTask('Blocker');
+      const blockedId = await createTask('Blocked');
+      const childId = await createTask('Child', { parentId: blockerId });
+      await addBlocker(blockedId, blockerId);
+      const events: TaskEvent[] = [];
+      const unsubscribe = subscribeTaskEvents((event) => events.push(event));
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/tasks/${blockerId}?permanent=true`,
+        headers: testHeaders,
+      });
+      unsubscribe();
+
+      expect(response.statusCode).toBe(204);
+      const updates = events.filter((event) => event.type === TaskEventType.UPDATED);
+      expect(updates.map((event) => [event.taskId, event.data['changes']]).sort()).toEqual(
+        [
+          [blockedId, [{ field: 'blockedBy', before: [blockerId], after: [] }]],
+          [childId, [{ field: 'parentId', before: blockerId, after: null }]],
+        ].sort(),
+      );
+    });
+  });
+});
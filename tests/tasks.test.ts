@@ -5,18 +5,24 @@ import { taskRoutes } from '../src/routes/tasks';
 import { Task, TaskStatus } from '../src/models/Task';
 import type { ITask } from '../src/models/Task';
 import { User } from '../src/models/User';
+import { authHeaders } from './helpers';
 import './setup';
 
 describe('Task API', () => {
   let app: FastifyInstance;
   const testUserId = 'test-user-123';
   const otherUserId = 'other-user-456';
+  let testHeaders: { authorization: string };
+  let otherHeaders: { authorization: string };
 
   beforeEach(async () => {
     // Clear database before each test
     await Task.deleteMany({});
     await User.deleteMany({});
 
+    testHeaders = await authHeaders(testUserId);
+    otherHeaders = await authHeaders(otherUserId);
+
     // Create fresh Fastify instance for each test
     app = Fastify();
     app.register(taskRoutes, { prefix: '/api/v1' });
@@ -28,9 +34,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'POST',
         url: '/api/v1/tasks',
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
         payload: {
           title: 'Test Task',
           description: 'This is a test task',
@@ -50,9 +54,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'POST',
         url: '/api/v1/tasks',
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
         payload: {
           title: 'In Progress Task',
           description: 'This task is already in progress',
@@ -65,7 +67,7 @@ describe('Task API', () => {
       expect(body.data.status).toBe(TaskStatus.IN_PROGRESS);
     });
 
-    test('should fail without x-user-id header', async () => {
+    test('should fail without a bearer token', async () => {
       const response = await app.inject({
         method: 'POST',
         url: '/api/v1/tasks',
@@ -84,9 +86,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'POST',
         url: '/api/v1/tasks',
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
         payload: {
           description: 'This is a test task',
         },
@@ -101,9 +101,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'POST',
         url: '/api/v1/tasks',
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
         payload: {
           title: 'Test Task',
         },
@@ -116,9 +114,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'POST',
         url: '/api/v1/tasks',
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
         payload: {
           title: 'Test Task',
           description: 'Description',
@@ -165,9 +161,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'GET',
         url: '/api/v1/tasks',
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
       });
 
       expect(response.statusCode).toBe(200);
@@ -181,9 +175,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'GET',
         url: '/api/v1/tasks?status=In Progress',
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
       });
 
       expect(response.statusCode).toBe(200);
@@ -196,9 +188,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'GET',
         url: '/api/v1/tasks?page=1&limit=2',
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
       });
 
       expect(response.statusCode).toBe(200);
@@ -209,7 +199,7 @@ describe('Task API', () => {
       expect(body.pagination.total).toBe(3);
     });
 
-    test('should fail without x-user-id header', async () => {
+    test('should fail without a bearer token', async () => {
       const response = await app.inject({
         method: 'GET',
         url: '/api/v1/tasks',
@@ -236,9 +226,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'GET',
         url: `/api/v1/tasks/${taskId}`,
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
       });
 
       expect(response.statusCode).toBe(200);
@@ -252,9 +240,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'GET',
         url: `/api/v1/tasks/${fakeId}`,
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
       });
 
       expect(response.statusCode).toBe(404);
@@ -264,9 +250,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'GET',
         url: `/api/v1/tasks/${taskId}`,
-        headers: {
-          'x-user-id': otherUserId,
-        },
+        headers: otherHeaders,
       });
 
       expect(response.statusCode).toBe(404);
@@ -276,9 +260,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'GET',
         url: '/api/v1/tasks/invalid-id',
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
       });
 
       expect(response.statusCode).toBe(400);
@@ -302,9 +284,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: `/api/v1/tasks/${taskId}`,
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
         payload: {
           title: 'Updated Title',
         },
@@ -320,9 +300,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: `/api/v1/tasks/${taskId}`,
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
         payload: {
           status: TaskStatus.IN_PROGRESS,
         },
@@ -337,9 +315,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: `/api/v1/tasks/${taskId}`,
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
         payload: {
           title: 'New Title',
           description: 'New Description',
@@ -358,9 +334,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: `/api/v1/tasks/${taskId}`,
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
         payload: {
           status: 'Invalid Status',
         },
@@ -374,9 +348,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: `/api/v1/tasks/${fakeId}`,
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
         payload: {
           title: 'Updated Title',
         },
@@ -389,9 +361,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: `/api/v1/tasks/${taskId}`,
-        headers: {
-          'x-user-id': otherUserId,
-        },
+        headers: otherHeaders,
         payload: {
           title: 'Hacked Title',
         },
@@ -408,9 +378,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: `/api/v1/tasks/${taskId}`,
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
         payload: {},
       });
 
@@ -431,13 +399,34 @@ describe('Task API', () => {
       taskId = String(task._id);
     });
 
-    test('should delete a task', async () => {
+    test('should move a task to the trash', async () => {
       const response = await app.inject({
         method: 'DELETE',
         url: `/api/v1/tasks/${taskId}`,
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
+      });
+
+      expect(response.statusCode).toBe(204);
+
+      // Verify task was soft deleted
+      const task = await Task.findById(taskId);
+      expect(task?.deletedAt).toBeInstanceOf(Date);
+      expect(task?.deletedBy).toBe(testUserId);
+
+      // Verify task no longer shows up
+      const read = await app.inject({
+        method: 'GET',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: testHeaders,
+      });
+      expect(read.statusCode).toBe(404);
+    });
+
+    test('should permanently delete a task', async () => {
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/tasks/${taskId}?permanent=true`,
+        headers: testHeaders,
       });
 
       expect(response.statusCode).toBe(204);
@@ -452,9 +441,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'DELETE',
         url: `/api/v1/tasks/${fakeId}`,
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
       });
 
       expect(response.statusCode).toBe(404);
@@ -464,9 +451,7 @@ describe('Task API', () => {
       const response = await app.inject({
         method: 'DELETE',
         url: `/api/v1/tasks/${taskId}`,
-        headers: {
-          'x-user-id': otherUserId,
-        },
+        headers: otherHeaders,
       });
 
       expect(response.statusCode).toBe(404);
@@ -502,9 +487,7 @@ describe('Task API', () => {
       const response1 = await app.inject({
         method: 'GET',
         url: '/api/v1/tasks',
-        headers: {
-          'x-user-id': testUserId,
-        },
+        headers: testHeaders,
       });
 
       const body1 = JSON.parse(response1.body);
@@ -515,9 +498,7 @@ describe('Task API', () => {
       const response2 = await app.inject({
         method: 'GET',
         url: '/api/v1/tasks',
-        headers: {
-          'x-user-id': otherUserId,
-        },
+        headers: otherHeaders,
       });
 
       const body2 = JSON.parse(response2.body);
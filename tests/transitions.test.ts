@@ -0,0 +1,182 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { transitionRoutes } from '../src/routes/transitions';
+import { projectRoutes } from '../src/routes/projects';
+import { Task, TaskStatus } from '../src/models/Task';
+import { Project, ProjectRole } from '../src/models/Project';
+import { User } from '../src/models/User';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Task status workflow', () => {
+  let app: FastifyInstance;
+  const testUserId = 'workflow-user';
+  let testHeaders: { authorization: string };
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await Project.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    app.register(transitionRoutes, { prefix: '/api/v1' });
+    app.register(projectRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function createTask(status: TaskStatus, projectId?: string) {
+    const task = await Task.create({
+      title: 'Workflow Task',
+      description: 'Moves through statuses',
+      status,
+      userId: testUserId,
+      projectId,
+    });
+    return String(task._id);
+  }
+
+  describe('PATCH /api/v1/tasks/:id', () => {
+    test('should allow a legal transition and record it', async () => {
+      const taskId = await createTask(TaskStatus.TODO);
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: testHeaders,
+        payload: { status: TaskStatus.IN_PROGRESS },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.statusHistory).toHaveLength(1);
+      expect(body.data.statusHistory[0]).toMatchObject({
+        from: TaskStatus.TODO,
+        to: TaskStatus.IN_PROGRESS,
+        changedBy: testUserId,
+      });
+    });
+
+    test('should reject an illegal transition', async () => {
+      const taskId = await createTask(TaskStatus.ARCHIVED);
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: testHeaders,
+        payload: { status: TaskStatus.IN_PROGRESS },
+      });
+
+      expect(response.statusCode).toBe(422);
+      const task = await Task.findById(taskId);
+      expect(task?.status).toBe(TaskStatus.ARCHIVED);
+    });
+
+    test('should honour a project workflow override', async () => {
+      const project = await Project.create({
+        name: 'Strict Project',
+        ownerId: testUserId,
+        members: [{ userId: testUserId, role: ProjectRole.OWNER }],
+        workflow: { [TaskStatus.TODO]: [TaskStatus.IN_PROGRESS] },
+      });
+      const taskId = await createTask(TaskStatus.TODO, String(project._id));
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: testHeaders,
+        payload: { status: TaskStatus.DONE },
+      });
+
+      expect(response.statusCode).toBe(422);
+    });
+  });
+
+  describe('POST /api/v1/tasks/:id/transitions', () => {
+    test('should move the task and record the comment', async () => {
+      const taskId = await createTask(TaskStatus.IN_PROGRESS);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/tasks/${taskId}/transitions`,
+        headers: testHeaders,
+        payload: { to: TaskStatus.DONE, comment: 'Shipped' },
+      });
+
+      expect(response.statusCode).toBe(201);
+      const body = JSON.parse(response.body);
+      expect(body.data.status).toBe(TaskStatus.DONE);
+      expect(body.data.statusHistory.at(-1)).toMatchObject({
+        from: TaskStatus.IN_PROGRESS,
+        to: TaskStatus.DONE,
+        changedBy: testUserId,
+        comment: 'Shipped',
+      });
+    });
+
+    test('should reject an illegal transition', async () => {
+      const taskId = await createTask(TaskStatus.ARCHIVED);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/tasks/${taskId}/transitions`,
+        headers: testHeaders,
+        payload: { to: TaskStatus.DONE },
+      });
+
+      expect(response.statusCode).toBe(422);
+    });
+
+    test('should reject a transition to the current status', async () => {
+      const taskId = await createTask(TaskStatus.TODO);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/tasks/${taskId}/transitions`,
+        headers: testHeaders,
+        payload: { to: TaskStatus.TODO },
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+  });
+
+  describe('GET /api/v1/tasks/:id/transitions', () => {
+    test('should list the allowed next statuses', async () => {
+      const taskId = await createTask(TaskStatus.ARCHIVED);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/tasks/${taskId}/transitions`,
+        headers: testHeaders,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.allowed).toEqual([TaskStatus.TODO]);
+    });
+  });
+
+  describe('PUT /api/v1/projects/:id/workflow', () => {
+    test('should reject unknown statuses', async () => {
+      const project = await Project.create({
+        name: 'Project',
+        ownerId: testUserId,
+        members: [{ userId: testUserId, role: ProjectRole.OWNER }],
+      });
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: `/api/v1/projects/${project._id}/workflow`,
+        headers: testHeaders,
+        payload: { transitions: { Blocked: [TaskStatus.TODO] } },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { trashRoutes } from '../src/routes/trash';
+import { Task } from '../src/models/Task';
+import { AuditEntry } from '../src/models/AuditEntry';
+import { User } from '../src/models/User';
+import { purgeTrash } from '../src/jobs/purgeTrash';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Trash', () => {
+  let app: FastifyInstance;
+  let taskId: string;
+  const testUserId = 'trash-user';
+  const otherUserId = 'trash-other';
+  let testHeaders: { authorization: string };
+  let otherHeaders: { authorization: string };
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await AuditEntry.deleteMany({});
+    await User.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+    otherHeaders = await authHeaders(otherUserId);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    app.register(trashRoutes, { prefix: '/api/v1' });
+    await app.ready();
+
+    const task = await Task.create({
+      title: 'Trashed Task',
+      description: 'Deleted by mistake',
+      userId: testUserId,
+    });
+    taskId = String(task._id);
+
+    await app.inject({
+      method: 'DELETE',
+      url: `/api/v1/tasks/${taskId}`,
+      headers: testHeaders,
+    });
+  });
+
+  describe('GET /api/v1/tasks/trash', () => {
+    test('should list trashed tasks', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks/trash',
+        headers: testHeaders,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(1);
+      expect(body.data[0]._id).toBe(taskId);
+    });
+
+    test('should exclude trashed tasks from the task list', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks',
+        headers: testHeaders,
+      });
+
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(0);
+    });
+
+    test("should not show other users' trash", async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks/trash',
+        headers: otherHeaders,
+      });
+
+      const body = JSON.parse(response.body);
+      expect(body.data).toHaveLength(0);
+    });
+  });
+
+  describe('POST /api/v1/tasks/:id/restore', () => {
+    test('should restore a trashed task', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/tasks/${taskId}/restore`,
+        headers: testHeaders,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.deletedAt).toBeNull();
+
+      const read = await app.inject({
+        method: 'GET',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: testHeaders,
+      });
+      expect(read.statusCode).toBe(200);
+    });
+
+    test('should return 404 for a task that is not in the trash', async () => {
+      await app.inject({
+        method: 'POST',
+        url: `/api/v1/tasks/${taskId}/restore`,
+        headers: testHeaders,
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/tasks/${taskId}/restore`,
+        headers: testHeaders,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    test("should not restore another user's task", async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/tasks/${taskId}/restore`,
+        headers: otherHeaders,
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('Permanent deletion', () => {
+    test('should erase a trashed task and its history', async () => {
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `/api/v1/tasks/${taskId}?permanent=true`,
+        headers: testHeaders,
+      });
+
+      expect(response.statusCode).toBe(204);
+      expect(await Task.findById(taskId)).toBeNull();
+      expect(await AuditEntry.countDocuments({ taskId })).toBe(0);
+    });
+  });
+
+  describe('purgeTrash', () => {
+    test('should only purge tasks older than the retention period', async () => {
+      const stale = await Task.create({
+        title: 'Stale',
+        description: 'Deleted long ago',
+        userId: testUserId,
+        deletedAt: new Date(Date.now() - 40 * 24 * 60 * 60 * 1000),
+        deletedBy: testUserId,
+      });
+
+      const purged = await purgeTrash(30);
+
+      expect(purged).toBe(1);
+      expect(await Task.findById(stale._id)).toBeNull();
+      expect(await Task.findById(taskId)).not.toBeNull();
+    });
+  });
+});
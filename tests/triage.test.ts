@@ -0,0 +1,133 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { Task, TaskPriority } from '../src/models/Task';
+import type { ITask } from '../src/models/Task';
+import { Label } from '../src/models/Label';
+import { User } from '../src/models/User';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Task priorities, labels and assignees', () => {
+  let app: FastifyInstance;
+  const ownerId = 'triage-owner';
+  const assigneeId = 'triage-assignee';
+  let ownerHeaders: { authorization: string };
+  let assigneeHeaders: { authorization: string };
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await Label.deleteMany({});
+    await User.deleteMany({});
+
+    ownerHeaders = await authHeaders(ownerId);
+    assigneeHeaders = await authHeaders(assigneeId);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function createTask(payload: Record<string, unknown>) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v1/tasks',
+      headers: ownerHeaders,
+      payload: { title: 'Task', description: 'Description', ...payload },
+    });
+  }
+
+  async function list(query: string, headers = ownerHeaders) {
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v1/tasks?${query}`,
+      headers,
+    });
+
+    return JSON.parse(response.body).data.map((task: ITask) => task.title);
+  }
+
+  test('should default to medium priority without labels or assignee', async () => {
+    const response = await createTask({});
+
+    const body = JSON.parse(response.body);
+    expect(body.data.priority).toBe(TaskPriority.MEDIUM);
+    expect(body.data.labels).toEqual([]);
+    expect(body.data.assigneeId).toBeNull();
+  });
+
+  test('should reject an invalid priority', async () => {
+    const response = await createTask({ priority: 'whenever' });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  test('should sort by priority', async () => {
+    await createTask({ title: 'Low', priority: TaskPriority.LOW });
+    await createTask({ title: 'Urgent', priority: TaskPriority.URGENT });
+    await createTask({ title: 'High', priority: TaskPriority.HIGH });
+
+    expect(await list('sort=-priority')).toEqual(['Urgent', 'High', 'Low']);
+  });
+
+  test('should keep the priority order when it is changed', async () => {
+    const low = JSON.parse((await createTask({ title: 'Low', priority: TaskPriority.LOW })).body);
+    await createTask({ title: 'High', priority: TaskPriority.HIGH });
+
+    await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/tasks/${low.data._id}`,
+      headers: ownerHeaders,
+      payload: { priority: TaskPriority.URGENT },
+    });
+
+    expect(await list('sort=-priority')).toEqual(['Low', 'High']);
+  });
+
+  test('should filter by labels and add them to the catalog', async () => {
+    await createTask({ title: 'Both', labels: ['bug', ' backend '] });
+    await createTask({ title: 'Bug only', labels: ['bug', 'bug'] });
+
+    expect(await list('labels=bug&labels=backend')).toEqual(['Both']);
+
+    const catalog = await Label.find({ userId: ownerId }).sort({ name: 1 });
+    expect(catalog.map((label) => label.name)).toEqual(['backend', 'bug']);
+  });
+
+  test('should reject an unknown assignee', async () => {
+    const response = await createTask({ assigneeId: 'nobody' });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  test('should let the assignee find and update the task', async () => {
+    const created = JSON.parse((await createTask({ title: 'Assigned', assigneeId })).body);
+
+    expect(await list('scope=assigned', assigneeHeaders)).toEqual(['Assigned']);
+    expect(await list(`scope=all&assigneeId=${assigneeId}`, assigneeHeaders)).toEqual(['Assigned']);
+
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/tasks/${created.data._id}`,
+      headers: assigneeHeaders,
+      payload: { labels: ['in-review'] },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data.labels).toEqual(['in-review']);
+  });
+
+  test('should unassign with null', async () => {
+    const created = JSON.parse((await createTask({ assigneeId })).body);
+
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/tasks/${created.data._id}`,
+      headers: ownerHeaders,
+      payload: { assigneeId: null },
+    });
+
+    expect(JSON.parse(response.body).data.assigneeId).toBeNull();
+  });
+});
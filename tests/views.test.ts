@@ -0,0 +1,177 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { viewRoutes } from '../src/routes/views';
+import { SavedView } from '../src/models/SavedView';
+import { Task, TaskPriority, TaskStatus } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { authHeaders } from './helpers';
+import './setup';
+
+describe('Saved views', () => {
+  let app: FastifyInstance;
+  const testUserId = 'view-user';
+  const otherUserId = 'view-other';
+  let testHeaders: { authorization: string };
+  let otherHeaders: { authorization: string };
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+    await SavedView.deleteMany({});
+
+    testHeaders = await authHeaders(testUserId);
+    otherHeaders = await authHeaders(otherUserId);
+
+    await Task.create([
+      {
+        title: 'Urgent one',
+        description: 'Mine',
+        priority: TaskPriority.URGENT,
+        userId: testUserId,
+      },
+      {
+        title: 'Urgent two',
+        description: 'Mine',
+        priority: TaskPriority.URGENT,
+        userId: testUserId,
+      },
+      { title: 'Relaxed', description: 'Mine', priority: TaskPriority.LOW, userId: testUserId },
+      {
+        title: 'Urgent, not mine',
+        description: 'Theirs',
+        priority: TaskPriority.URGENT,
+        status: TaskStatus.IN_PROGRESS,
+        userId: otherUserId,
+      },
+    ]);
+
+    app = Fastify();
+    app.register(viewRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function createView(payload: Record<string, unknown>) {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v1/views',
+      headers: testHeaders,
+      payload,
+    });
+  }
+
+  async function urgentView(payload: Record<string, unknown> = {}) {
+    const response = await createView({
+      name: 'Urgent',
+      filters: { priority: [TaskPriority.URGENT], sort: 'title' },
+      ...payload,
+    });
+
+    return JSON.parse(response.body).data._id as string;
+  }
+
+  test('should save a view and run it with pagination', async () => {
+    const id = await urgentView();
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v1/views/${id}/tasks?limit=1`,
+      headers: testHeaders,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.data.map((task: { title: string }) => task.title)).toEqual(['Urgent one']);
+    expect(body.pagination.total).toBe(2);
+    expect(body.pagination.nextCursor).toBeString();
+  });
+
+  test('should reject duplicate names and invalid filters', async () => {
+    await urgentView();
+
+    expect((await createView({ name: 'Urgent' })).statusCode).toBe(409);
+    expect((await createView({ name: 'Broken', filters: { status: ['Nope'] } })).statusCode).toBe(
+      400,
+    );
+  });
+
+  test('should answer 409 when two requests save the same name at once', async () => {
+    await SavedView.init();
+
+    const responses = await Promise.all([
+      createView({ name: 'Twin' }),
+      createView({ name: 'Twin' }),
+    ]);
+
+    expect(responses.map((response) => response.statusCode).sort()).toEqual([201, 409]);
+  });
+
+  test("should run a shared view with the viewer's own access", async () => {
+    const id = await urgentView({ sharedWith: [otherUserId] });
+
+    const list = await app.inject({ method: 'GET', url: '/api/v1/views', headers: otherHeaders });
+    expect(JSON.parse(list.body).data).toHaveLength(1);
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v1/views/${id}/tasks`,
+      headers: otherHeaders,
+    });
+
+    const body = JSON.parse(response.body);
+    expect(body.data.map((task: { title: string }) => task.title)).toEqual(['Urgent, not mine']);
+  });
+
+  test('should only let the owner change a view', async () => {
+    const id = await urgentView({ sharedWith: [otherUserId] });
+
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/views/${id}`,
+      headers: otherHeaders,
+      payload: { name: 'Hijacked' },
+    });
+
+    expect(response.statusCode).toBe(403);
+  });
+
+  test('should let a shared user leave a view', async () => {
+    const id = await urgentView({ sharedWith: [otherUserId] });
+
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/api/v1/views/${id}`,
+      headers: otherHeaders,
+    });
+
+    expect(response.statusCode).toBe(204);
+    const view = await SavedView.findById(id);
+    expect(view?.sharedWith).toEqual([]);
+  });
+
+  test('should hide views that were not shared', async () => {
+    const id = await urgentView();
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/v1/views/${id}`,
+      headers: otherHeaders,
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  test('should update filters', async () => {
+    const id = await urgentView();
+
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/api/v1/views/${id}`,
+      headers: testHeaders,
+      payload: { filters: { priority: [TaskPriority.LOW] } },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).data.filters).toEqual({ priority: [TaskPriority.LOW] });
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { FastifyInstance } from 'fastify';
+import Fastify from 'fastify';
+import { taskRoutes } from '../src/routes/tasks';
+import { webhookRoutes } from '../src/routes/webhooks';
+import { Task, TaskStatus } from '../src/models/Task';
+import { User } from '../src/models/User';
+import { Webhook } from '../src/models/Webhook';
+import { DeliveryStatus, WebhookDelivery } from '../src/models/WebhookDelivery';
+import { type TaskEvent, TaskEventType, subscribeTaskEvents } from '../src/services/events';
+import { deliverDueWebhooks, enqueueWebhookDeliveries } from '../src/services/webhooks';
+import { verifyWebhookSignature } from '../src/utils/signature';
+import { authHeaders } from './helpers';
+import './setup';
+
+const SECRET = 'test-webhook-secret-value';
+const POLICY = { maxAttempts: 2, baseDelayMs: 1000, timeoutMs: 2000 };
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhooks', () => {
+  let app: FastifyInstance;
+  let receiver: Server;
+  let receiverUrl: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+  const testUserId = 'webhook-user';
+  const otherUserId = 'webhook-other';
+  let testHeaders: { authorization: string };
+
+  // A local endpoint standing in for a subscriber's server
+  beforeAll(async () => {
+    receiver = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => receiver.close(resolve));
+  });
+
+  beforeEach(async () => {
+    await Task.deleteMany({});
+    await User.deleteMany({});
+    await Webhook.deleteMany({});
+    await WebhookDelivery.deleteMany({});
+
+    received = [];
+    responseStatus = 200;
+    testHeaders = await authHeaders(testUserId);
+
+    app = Fastify();
+    app.register(taskRoutes, { prefix: '/api/v1' });
+    app.register(webhookRoutes, { prefix: '/api/v1' });
+    await app.ready();
+  });
+
+  async function subscribe(events: TaskEventType[]) {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/webhooks',
+      headers: testHeaders,
+      payload: { url: receiverUrl, events, secret: SECRET },
+    });
+
+    return JSON.parse(response.body).data._id as string;
+  }
+
+  // Runs a request and queues the events it published, as the dispatcher would
+  async function capture(run: () => Promise<unknown>) {
+    const events: TaskEvent[] = [];
+    const unsubscribe = subscribeTaskEvents((event) => events.push(event));
+
+    try {
+      await run();
+    } finally {
+      unsubscribe();
+    }
+
+    for (const event of events) {
+      await enqueueWebhookDeliveries(event);
+    }
+
+    return events;
+  }
+
+  async function createTask() {
+    return app.inject({
+      method: 'POST',
+      url: '/api/v1/tasks',
+      headers: testHeaders,
+      payload: { title: 'Hooked', description: 'Description' },
+    });
+  }
+
+  test('should create a subscription and only reveal the secret once', async () => {
+    const created = await app.inject({
+      method: 'POST',
+      url: '/api/v1/webhooks',
+      headers: testHeaders,
+      payload: { url: receiverUrl, events: [TaskEventType.CREATED] },
+    });
+
+    expect(created.statusCode).toBe(201);
+    const { data } = JSON.parse(created.body);
+    expect(data.secret).toStartWith('whsec_');
+
+    const fetched = await app.inject({
+      method: 'GET',
+      url: `/api/v1/webhooks/${data._id}`,
+      headers: testHeaders,
+    });
+
+    expect(JSON.parse(fetched.body).data.secret).toBeUndefined();
+  });
+
+  test('should reject a URL that is not http or https', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/webhooks',
+      headers: testHeaders,
+      payload: { url: 'file:///etc/passwd', events: [TaskEventType.CREATED] },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  test('should deliver a signed event to the receiver', async () => {
+    const webhookId = await subscribe([TaskEventType.CREATED]);
+
+    await capture(createTask);
+    expect(await deliverDueWebhooks(POLICY)).toBe(1);
+
+    expect(received).toHaveLength(1);
+    const [request] = received as [ReceivedRequest];
+    const timestamp = Number(request.headers['x-webhook-timestamp']);
+    const signature = request.headers['x-webhook-signature'] as string;
+
+    expect(request.headers['x-webhook-event']).toBe(TaskEventType.CREATED);
+    expect(verifyWebhookSignature(SECRET, timestamp, request.body, signature)).toBe(true);
+    expect(JSON.parse(request.body).data.task.title).toBe('Hooked');
+
+    const log = await app.inject({
+      method: 'GET',
+      url: `/api/v1/webhooks/${webhookId}/deliveries`,
+      headers: testHeaders,
+    });
+
+    const body = JSON.parse(log.body);
+    expect(body.pagination.total).toBe(1);
+    expect(body.data[0].status).toBe(DeliveryStatus.SUCCEEDED);
+    expect(body.data[0].responseStatus).toBe(200);
+  });
+
+  test('should only queue the event types a subscription asked for', async () => {
+    await subscribe([TaskEventType.STATUS_CHANGED]);
+
+    const created = await createTask();
+    const taskId = JSON.parse(created.body).data._id;
+
+    await capture(() =>
+      app.inject({
+        method: 'PATCH',
+        url: `/api/v1/tasks/${taskId}`,
+        headers: testHeaders,
+        payload: { status: TaskStatus.IN_PROGRESS },
+      }),
+    );
+
+    const deliveries = await WebhookDelivery.find({});
+    expect(deliveries.map((delivery) => delivery.eventType)).toEqual([
+      TaskEventType.STATUS_CHANGED,
+    ]);
+  });
+
+  test('should not deliver events about tasks the subscriber cannot read', async () => {
+    await Webhook.create({
+      userId: otherUserId,
+      url: receiverUrl,
+      secret: SECRET,
+      events: [TaskEventType.CREATED],
+    });
+
+    await capture(createTask);
+
+    expect(await WebhookDelivery.countDocuments({})).toBe(0);
+  });
+
+  test('should retry failed deliveries with backoff and then give up', async () => {
+    await subscribe([TaskEventType.CREATED]);
+    responseStatus = 500;
+
+    await capture(createTask);
+    const start = new Date();
+    await deliverDueWebhooks(POLICY, start);
+
+    let delivery = await WebhookDelivery.findOne({});
+    expect(delivery?.status).toBe(DeliveryStatus.PENDING);
+    expect(delivery?.attempts).toBe(1);
+    expect(delivery?.responseStatus).toBe(500);
+    expect(delivery!.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(start.getTime() + 1000);
+
+    // Not due yet
+    expect(await deliverDueWebhooks(POLICY, start)).toBe(0);
+
+    await deliverDueWebhooks(POLICY, new Date(start.getTime() + 60 * 1000));
+
+    delivery = await WebhookDelivery.findOne({});
+    expect(delivery?.status).toBe(DeliveryStatus.FAILED);
+    expect(delivery?.attempts).toBe(2);
+    expect(received).toHaveLength(2);
+  });
+
+  test('should redeliver from the delivery log', async () => {
+    const webhookId = await subscribe([TaskEventType.CREATED]);
+    responseStatus = 500;
+
+    await capture(createTask);
+    await deliverDueWebhooks({ ...POLICY, maxAttempts: 1 });
+
+    const failed = await WebhookDelivery.findOne({});
+    expect(failed?.status).toBe(DeliveryStatus.FAILED);
+
+    const response = await app.inject({
+      method: 'POST',
+      url: `/api/v1/webhooks/${webhookId}/deliveries/${String(failed?._id)}/redeliver`,
+      headers: testHeaders,
+    });
+
+    expect(response.statusCode).toBe(202);
+
+    responseStatus = 204;
+    await deliverDueWebhooks(POLICY);
+
+    const delivered = await WebhookDelivery.findById(failed?._id);
+    expect(delivered?.status).toBe(DeliveryStatus.SUCCEEDED);
+  });
+});